@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useA2ATrace } from "@/hooks/use-simulation";
+import { cn } from "@/lib/utils";
+
+const participantColors: Record<string, string> = {
+  orchestrator: "bg-purple-100 border-purple-300 text-purple-700 dark:bg-purple-900/30 dark:border-purple-700 dark:text-purple-300",
+  objective: "bg-amber-100 border-amber-300 text-amber-700 dark:bg-amber-900/30 dark:border-amber-700 dark:text-amber-300",
+  forecast: "bg-blue-100 border-blue-300 text-blue-700 dark:bg-blue-900/30 dark:border-blue-700 dark:text-blue-300",
+  pricing: "bg-emerald-100 border-emerald-300 text-emerald-700 dark:bg-emerald-900/30 dark:border-emerald-700 dark:text-emerald-300",
+  seat_allocation: "bg-cyan-100 border-cyan-300 text-cyan-700 dark:bg-cyan-900/30 dark:border-cyan-700 dark:text-cyan-300",
+  competitor: "bg-rose-100 border-rose-300 text-rose-700 dark:bg-rose-900/30 dark:border-rose-700 dark:text-rose-300",
+  overbooking: "bg-orange-100 border-orange-300 text-orange-700 dark:bg-orange-900/30 dark:border-orange-700 dark:text-orange-300",
+};
+
+const defaultColor = "bg-slate-100 border-slate-300 text-slate-700 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-300";
+
+interface A2ATraceDiagramProps {
+  planId: string;
+}
+
+// Sequence diagram of one orchestration: a lifeline per participant, one arrow per
+// message in send order. Click a message to see its payload.
+export function A2ATraceDiagram({ planId }: A2ATraceDiagramProps) {
+  const { data: trace, isLoading } = useA2ATrace(planId);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading trace...
+      </div>
+    );
+  }
+
+  if (!trace || trace.messages.length === 0) {
+    return <div className="py-10 text-center text-sm text-muted-foreground italic">No trace recorded for this plan.</div>;
+  }
+
+  const participants = ["orchestrator"];
+  for (const msg of trace.messages) {
+    for (const name of [msg.fromAgent, msg.toAgent]) {
+      if (!participants.includes(name)) participants.push(name);
+    }
+  }
+  const center = (name: string) => ((participants.indexOf(name) + 0.5) / participants.length) * 100;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${participants.length}, minmax(0, 1fr))` }}>
+        {participants.map(name => (
+          <div
+            key={name}
+            className={cn("px-1 py-1 rounded-md border text-[10px] font-semibold text-center capitalize truncate", participantColors[name] || defaultColor)}
+            data-testid={`lifeline-${name}`}
+          >
+            {name.replace('_', ' ')}
+          </div>
+        ))}
+      </div>
+
+      <ScrollArea className="h-[420px]">
+        <div className="relative pb-2">
+          {participants.map(name => (
+            <div key={name} className="absolute top-0 bottom-0 w-px bg-border" style={{ left: `${center(name)}%` }} />
+          ))}
+
+          {trace.messages.map(msg => {
+            const from = center(msg.fromAgent);
+            const to = center(msg.toAgent);
+            const isResponse = msg.type === 'response';
+            const payload = msg.payload as Record<string, unknown>;
+            const label = isResponse && typeof payload.decision === 'string' ? payload.decision : msg.action;
+            const isOpen = expanded === msg.sequence;
+
+            return (
+              <div key={msg.id}>
+                <div
+                  className="relative h-10 cursor-pointer hover:bg-muted/40 rounded"
+                  onClick={() => setExpanded(isOpen ? null : msg.sequence)}
+                  data-testid={`trace-message-${msg.sequence}`}
+                >
+                  <div
+                    className="absolute top-1 px-1 text-[10px] text-center truncate"
+                    style={{ left: `${Math.min(from, to)}%`, width: `${Math.abs(to - from)}%` }}
+                    title={label}
+                  >
+                    <span className="font-medium">{label}</span>
+                    {msg.durationMs !== null && <span className="ml-1 font-mono opacity-60">{msg.durationMs}ms</span>}
+                  </div>
+                  <div
+                    className={cn("absolute top-6 border-t", isResponse ? "border-dashed border-muted-foreground" : "border-foreground/70")}
+                    style={{ left: `${Math.min(from, to)}%`, width: `${Math.abs(to - from)}%` }}
+                  />
+                  {to > from ? (
+                    <ChevronRight className="absolute top-[18px] w-3 h-3 text-foreground/70" style={{ left: `calc(${to}% - 9px)` }} />
+                  ) : (
+                    <ChevronLeft className="absolute top-[18px] w-3 h-3 text-muted-foreground" style={{ left: `calc(${to}% - 3px)` }} />
+                  )}
+                </div>
+                {isOpen && (
+                  <pre className="relative mx-2 mb-2 p-2 rounded bg-muted text-[10px] font-mono overflow-x-auto max-h-48">
+                    {JSON.stringify(msg.payload, null, 2)}
+                  </pre>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import type { ReasoningLog } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { A2ATraceDiagram } from "@/components/A2ATraceDiagram";
+import type { ReasoningLog, AgentOutputValidation } from "@shared/schema";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import { BrainCircuit, Activity, LineChart, TrendingUp, TrendingDown, Minus, Fuel, Calendar, Users, Clock, Zap, Target, DollarSign, Armchair, ArrowUp, ArrowDown, Network, ArrowRight, Workflow, Layers } from "lucide-react";
+import { BrainCircuit, Activity, LineChart, TrendingUp, TrendingDown, Minus, Fuel, Calendar, Users, Clock, Zap, Target, DollarSign, Armchair, ArrowUp, ArrowDown, Network, ArrowRight, Workflow, Layers, UserX } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface MultiplierData {
@@ -28,6 +31,17 @@ interface OptimizationData {
   };
 }
 
+// Pricing Agent output for one fare bucket
+interface BucketPriceData {
+  bucketCode: string;
+  class: string;
+  multiplier: number;
+  previousPrice: number;
+  price: number;
+  reasoning: string;
+  adjustment?: string;
+}
+
 interface Multipliers {
   demand?: MultiplierData;
   urgency?: MultiplierData;
@@ -35,6 +49,7 @@ interface Multipliers {
   fuel?: MultiplierData;
   seasonality?: MultiplierData;
   optimization?: OptimizationData;
+  bucketPrices?: BucketPriceData[];
 }
 
 const featureIcons: Record<string, any> = {
@@ -230,38 +245,73 @@ function OptimizationStrategy({ optimization }: { optimization: OptimizationData
 function MultiplierBreakdown({ multipliers }: { multipliers: Multipliers }) {
   const features = ['demand', 'urgency', 'competition', 'fuel', 'seasonality'] as const;
   const validFeatures = features.filter(f => multipliers[f]?.value !== undefined);
+  const bucketPrices = multipliers.bucketPrices || [];
   
-  if (validFeatures.length === 0) {
+  if (validFeatures.length === 0 && bucketPrices.length === 0) {
     return null;
   }
   
   return (
     <div className="mt-3 space-y-2">
-      <div className="text-xs font-semibold text-foreground/80 mb-2">Feature Multipliers:</div>
-      <div className="grid gap-2">
-        {validFeatures.map((feature) => {
-          const data = multipliers[feature];
-          if (!data || typeof data.value !== 'number') return null;
+      {validFeatures.length > 0 && (
+        <>
+          <div className="text-xs font-semibold text-foreground/80 mb-2">Feature Multipliers:</div>
+          <div className="grid gap-2">
+            {validFeatures.map((feature) => {
+              const data = multipliers[feature];
+              if (!data || typeof data.value !== 'number') return null;
           
-          const Icon = featureIcons[feature] || Zap;
-          const label = featureLabels[feature] || feature;
+              const Icon = featureIcons[feature] || Zap;
+              const label = featureLabels[feature] || feature;
           
-          return (
-            <div 
-              key={feature}
-              className="flex items-start gap-2 p-2 rounded-md bg-background/50 border border-border/50"
-              data-testid={`multiplier-${feature}`}
-            >
-              <div className="flex items-center gap-2 min-w-[100px]">
-                <Icon className="w-3.5 h-3.5 text-muted-foreground" />
-                <span className="text-xs font-medium">{label}</span>
+              return (
+                <div 
+                  key={feature}
+                  className="flex items-start gap-2 p-2 rounded-md bg-background/50 border border-border/50"
+                  data-testid={`multiplier-${feature}`}
+                >
+                  <div className="flex items-center gap-2 min-w-[100px]">
+                    <Icon className="w-3.5 h-3.5 text-muted-foreground" />
+                    <span className="text-xs font-medium">{label}</span>
+                  </div>
+                  <MultiplierBadge value={data.value} />
+                  <span className="text-xs text-muted-foreground flex-1">{data.reason || "No reason provided"}</span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {bucketPrices.length > 0 && (
+        <>
+          <div className="text-xs font-semibold text-foreground/80 mb-2">Per-Bucket Fares:</div>
+          <div className="grid gap-1.5">
+            {bucketPrices.map((bucket) => (
+              <div
+                key={bucket.bucketCode}
+                className="flex items-start gap-2 p-2 rounded-md bg-background/50 border border-border/50"
+                data-testid={`bucket-price-${bucket.bucketCode}`}
+              >
+                <div className="flex items-center gap-1.5 min-w-[100px]">
+                  <span className="text-xs font-mono font-bold">{bucket.bucketCode}</span>
+                  <Badge variant="outline" className="text-[9px] px-1 py-0">{bucket.class === 'BUSINESS' ? 'BUS' : 'ECO'}</Badge>
+                </div>
+                <MultiplierBadge value={bucket.multiplier} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-mono">
+                    {formatCurrency(bucket.previousPrice)} → <span className="font-bold">{formatCurrency(bucket.price)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{bucket.reasoning || "No reason provided"}</div>
+                  {bucket.adjustment && (
+                    <div className="text-[10px] text-amber-600 dark:text-amber-400">{bucket.adjustment}</div>
+                  )}
+                </div>
               </div>
-              <MultiplierBadge value={data.value} />
-              <span className="text-xs text-muted-foreground flex-1">{data.reason || "No reason provided"}</span>
-            </div>
-          );
-        })}
-      </div>
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -270,12 +320,14 @@ interface TaskInfo {
   agent: string;
   priority: number;
   reason: string;
+  dependsOn?: string[];
 }
 
 interface OrchestratorMetadata {
   planId?: string;
   objective?: string;
   tasks?: TaskInfo[];
+  stages?: string[][]; // Tasks grouped by dependency depth; a stage's tasks run in parallel
 }
 
 function OrchestratorPlanDisplay({ metadata }: { metadata: OrchestratorMetadata }) {
@@ -288,10 +340,15 @@ function OrchestratorPlanDisplay({ metadata }: { metadata: OrchestratorMetadata
     if (lowerAgent.includes('pricing')) return "bg-emerald-100 border-emerald-300 text-emerald-700 dark:bg-emerald-900/30 dark:border-emerald-700 dark:text-emerald-300";
     if (lowerAgent.includes('seat') || lowerAgent.includes('allocation')) return "bg-cyan-100 border-cyan-300 text-cyan-700 dark:bg-cyan-900/30 dark:border-cyan-700 dark:text-cyan-300";
     if (lowerAgent.includes('competitor')) return "bg-rose-100 border-rose-300 text-rose-700 dark:bg-rose-900/30 dark:border-rose-700 dark:text-rose-300";
+    if (lowerAgent.includes('overbooking')) return "bg-orange-100 border-orange-300 text-orange-700 dark:bg-orange-900/30 dark:border-orange-700 dark:text-orange-300";
     return "bg-slate-100 border-slate-300 text-slate-700 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-300";
   };
 
   const sortedTasks = [...metadata.tasks].sort((a, b) => a.priority - b.priority);
+  // Older plans were executed one task at a time in priority order
+  const stages = metadata.stages?.length
+    ? metadata.stages.map(stage => stage.map(agent => sortedTasks.find(t => t.agent === agent)).filter((t): t is TaskInfo => !!t))
+    : sortedTasks.map(task => [task]);
 
   return (
     <div className="mt-3 space-y-2">
@@ -303,23 +360,44 @@ function OrchestratorPlanDisplay({ metadata }: { metadata: OrchestratorMetadata
             {metadata.planId.slice(0, 12)}...
           </Badge>
         )}
+        {metadata.planId && (
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-5 px-1.5 text-[10px] gap-1" data-testid="button-view-trace">
+                <Network className="w-3 h-3" /> Trace
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>A2A Message Trace</DialogTitle>
+                <DialogDescription className="font-mono text-xs">{metadata.planId}</DialogDescription>
+              </DialogHeader>
+              <A2ATraceDiagram planId={metadata.planId} />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
       
       <div className="flex flex-wrap items-center gap-1">
-        {sortedTasks.map((task, idx) => (
+        {stages.map((stage, idx) => (
           <div key={idx} className="flex items-center gap-1">
-            <div 
-              className={cn(
-                "px-2 py-1 rounded-md border text-xs font-medium flex items-center gap-1.5",
-                getTaskColor(task.agent)
-              )}
-              title={task.reason}
-              data-testid={`task-${task.agent}`}
-            >
-              <span className="text-[10px] font-bold opacity-60">#{task.priority}</span>
-              <span className="capitalize">{task.agent.replace('_', ' ')}</span>
+            <div className="flex flex-col gap-1">
+              {stage.map(task => (
+                <div 
+                  key={task.agent}
+                  className={cn(
+                    "px-2 py-1 rounded-md border text-xs font-medium flex items-center gap-1.5",
+                    getTaskColor(task.agent)
+                  )}
+                  title={task.dependsOn?.length ? `${task.reason} (after ${task.dependsOn.join(', ')})` : task.reason}
+                  data-testid={`task-${task.agent}`}
+                >
+                  <span className="text-[10px] font-bold opacity-60">#{task.priority}</span>
+                  <span className="capitalize">{task.agent.replace('_', ' ')}</span>
+                </div>
+              ))}
             </div>
-            {idx < sortedTasks.length - 1 && (
+            {idx < stages.length - 1 && (
               <ArrowRight className="w-3 h-3 text-muted-foreground" />
             )}
           </div>
@@ -347,7 +425,8 @@ function MetadataDisplay({ metadata, isOrchestrator = false }: { metadata: unkno
       return <OrchestratorPlanDisplay metadata={meta as OrchestratorMetadata} />;
     }
     
-    const hasMultipliers = meta.demand || meta.urgency || meta.competition || meta.fuel || meta.seasonality;
+    const hasMultipliers = meta.demand || meta.urgency || meta.competition || meta.fuel || meta.seasonality
+      || (Array.isArray(meta.bucketPrices) && meta.bucketPrices.length > 0);
     const hasOptimization = (meta.optimization as Record<string, unknown>)?.objective;
     
     if (hasOptimization || hasMultipliers) {
@@ -372,6 +451,27 @@ function MetadataDisplay({ metadata, isOrchestrator = false }: { metadata: unkno
   }
 }
 
+// Flags model responses that needed a repair round or never passed schema validation
+function ValidationBadge({ metadata }: { metadata: unknown }) {
+  const validation = (metadata as { validation?: AgentOutputValidation } | null)?.validation;
+  if (!validation || validation.status === 'valid') return null;
+
+  const invalid = validation.status === 'invalid';
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "text-[9px] px-1.5 py-0",
+        invalid ? "border-red-400 text-red-600" : "border-amber-400 text-amber-600"
+      )}
+      title={validation.errors.join('\n')}
+      data-testid="badge-validation"
+    >
+      {invalid ? 'INVALID' : 'REPAIRED'} · {validation.attempts} tries
+    </Badge>
+  );
+}
+
 interface AgentLogsProps {
   logs: ReasoningLog[];
 }
@@ -388,6 +488,7 @@ export function AgentLogs({ logs }: AgentLogsProps) {
     if (lowerName.includes('forecast')) return <LineChart className="w-3 h-3" />;
     if (lowerName.includes('seat') || lowerName.includes('allocation')) return <Armchair className="w-3 h-3" />;
     if (lowerName.includes('competitor')) return <Zap className="w-3 h-3" />;
+    if (lowerName.includes('overbooking')) return <UserX className="w-3 h-3" />;
     return <BrainCircuit className="w-3 h-3" />;
   };
 
@@ -399,6 +500,7 @@ export function AgentLogs({ logs }: AgentLogsProps) {
     if (lowerName.includes('forecast')) return "bg-blue-500/10 text-blue-600 border-blue-300 dark:border-blue-700";
     if (lowerName.includes('seat') || lowerName.includes('allocation')) return "bg-cyan-500/10 text-cyan-600 border-cyan-300 dark:border-cyan-700";
     if (lowerName.includes('competitor')) return "bg-rose-500/10 text-rose-600 border-rose-300 dark:border-rose-700";
+    if (lowerName.includes('overbooking')) return "bg-orange-500/10 text-orange-600 border-orange-300 dark:border-orange-700";
     return "bg-slate-500/10 text-slate-600 border-slate-300 dark:border-slate-600";
   };
 
@@ -444,6 +546,7 @@ export function AgentLogs({ logs }: AgentLogsProps) {
                         <div className="flex items-center gap-2 font-mono font-bold uppercase text-xs">
                           {getAgentIcon(log.agentName)}
                           {log.agentName}
+                          <ValidationBadge metadata={log.metadata} />
                         </div>
                         <span className="text-[10px] opacity-70 font-mono">
                           {log.timestamp && format(new Date(log.timestamp), 'HH:mm:ss')}
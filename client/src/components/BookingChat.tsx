@@ -7,9 +7,13 @@ import { Send, Bot, User, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
 
-export function BookingChat() {
-  const { data: messages = [], isLoading: isLoadingHistory } = useChatHistory();
-  const { mutate: sendMessage, isPending } = useSendMessage();
+interface BookingChatProps {
+  sessionId?: number;
+}
+
+export function BookingChat({ sessionId }: BookingChatProps) {
+  const { data: messages = [], isLoading: isLoadingHistory } = useChatHistory(sessionId);
+  const { mutate: sendMessage, isPending } = useSendMessage(sessionId);
   const [input, setInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Zap, Plus, Trash2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useMarketEvents, useScheduleMarketEvent, useDeleteMarketEvent, type MarketEventInput } from "@/hooks/use-simulation";
+import type { MarketChange, ScenarioEnvironment } from "@shared/schema";
+
+interface MarketEventsProps {
+  sessionId: number;
+  environment: ScenarioEnvironment;
+}
+
+// Form values are kept as strings so fields can be cleared while typing; blank leaves the condition as is
+interface EventDraft {
+  day: string;
+  title: string;
+  baseDemand: string;
+  fuelCostIndex: string;
+  competitorAggressiveness: string;
+  eventImpact: string;
+  competitor: string;
+  competitorChangePercent: string;
+}
+
+const optionalNumber = (value: string) => value.trim() === "" ? undefined : Number(value);
+
+function emptyDraft(environment: ScenarioEnvironment): EventDraft {
+  return {
+    day: String(Math.min(environment.daysElapsed + 1, environment.bookingWindow - 1)),
+    title: "",
+    baseDemand: "",
+    fuelCostIndex: "",
+    competitorAggressiveness: "",
+    eventImpact: "",
+    competitor: environment.competitors[0]?.name ?? "",
+    competitorChangePercent: "",
+  };
+}
+
+function toEvent(draft: EventDraft): MarketEventInput {
+  const changePercent = optionalNumber(draft.competitorChangePercent);
+  return {
+    day: Number(draft.day),
+    title: draft.title.trim(),
+    changes: {
+      baseDemand: optionalNumber(draft.baseDemand),
+      fuelCostIndex: optionalNumber(draft.fuelCostIndex),
+      competitorAggressiveness: optionalNumber(draft.competitorAggressiveness),
+      eventImpact: draft.eventImpact.trim() || undefined,
+      competitorFares: changePercent !== undefined && draft.competitor
+        ? [{ name: draft.competitor, change: changePercent / 100 }]
+        : undefined,
+    },
+  };
+}
+
+// e.g. "baseDemand → 0.28 • Akasa Air -40%"
+function summarize(changes: MarketChange): string {
+  const parts: string[] = [];
+  if (changes.baseDemand !== undefined) parts.push(`baseDemand → ${changes.baseDemand}`);
+  if (changes.seasonalityIndex !== undefined) parts.push(`seasonality → ${changes.seasonalityIndex}`);
+  if (changes.fuelCostIndex !== undefined) parts.push(`fuel index → ${changes.fuelCostIndex}`);
+  if (changes.competitorAggressiveness !== undefined) parts.push(`aggression → ${changes.competitorAggressiveness}`);
+  if (changes.eventImpact !== undefined) parts.push(changes.eventImpact ? `event: ${changes.eventImpact}` : "event cleared");
+  if (changes.weatherForecast !== undefined) parts.push(`weather: ${changes.weatherForecast}`);
+  for (const move of changes.competitorFares ?? []) {
+    parts.push(`${move.name} ${move.change > 0 ? '+' : ''}${Math.round(move.change * 100)}%`);
+  }
+  return parts.join(" • ");
+}
+
+// The session's market event timeline, with a dialog to schedule a shock for a later day
+export function MarketEvents({ sessionId, environment }: MarketEventsProps) {
+  const { data: events } = useMarketEvents(sessionId);
+  const { mutate: scheduleEvent, isPending, error, reset } = useScheduleMarketEvent(sessionId);
+  const { mutate: deleteEvent, isPending: isDeleting } = useDeleteMarketEvent(sessionId);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<EventDraft>(() => emptyDraft(environment));
+  const hasDeparted = environment.daysToDeparture <= 0;
+
+  // Start from a blank event for tomorrow each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft(emptyDraft(environment));
+    reset();
+  }, [open, environment, reset]);
+
+  const handleSchedule = () => scheduleEvent(toEvent(draft), { onSuccess: () => setOpen(false) });
+
+  const field = (key: keyof EventDraft, label: string, hint: string, step = "0.01") => (
+    <div className="space-y-1">
+      <Label htmlFor={`event-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`event-${key}`}
+        type="number"
+        step={step}
+        value={draft[key]}
+        onChange={(e) => setDraft(d => ({ ...d, [key]: e.target.value }))}
+        className="h-8 font-mono text-sm"
+        data-testid={`input-event-${key}`}
+      />
+      <p className="text-[10px] text-muted-foreground">{hint}</p>
+    </div>
+  );
+
+  return (
+    <Card data-testid="card-market-events">
+      <CardHeader className="pb-2 flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Zap className="w-4 h-4" />
+            Market Events
+          </CardTitle>
+          <CardDescription className="text-xs">Shocks applied when the simulated clock reaches their day</CardDescription>
+        </div>
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5 h-7" disabled={hasDeparted} data-testid="button-add-event">
+              <Plus className="w-3 h-3" />
+              Event
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Schedule Market Event</DialogTitle>
+              <DialogDescription>
+                Changes the session's market on the given day and re-runs the agents. A day already reached applies now.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-[90px_1fr] gap-3">
+                {field('day', "Day", `Today is day ${environment.daysElapsed}`, "1")}
+                <div className="space-y-1">
+                  <Label htmlFor="event-title" className="text-xs">Title</Label>
+                  <Input
+                    id="event-title"
+                    placeholder="IPL cancelled"
+                    value={draft.title}
+                    onChange={(e) => setDraft(d => ({ ...d, title: e.target.value }))}
+                    className="h-8 text-sm"
+                    data-testid="input-event-title"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                {field('baseDemand', "Base demand", `Now ${environment.baseDemand}`)}
+                {field('fuelCostIndex', "Fuel cost index", `Now ${environment.fuelCostIndex}`)}
+                {field('competitorAggressiveness', "Competitor aggression", `Now ${environment.competitorAggressiveness}`)}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="event-eventImpact" className="text-xs">Event impact</Label>
+                <Input
+                  id="event-eventImpact"
+                  placeholder={environment.eventImpact ?? "None"}
+                  value={draft.eventImpact}
+                  onChange={(e) => setDraft(d => ({ ...d, eventImpact: e.target.value }))}
+                  className="h-8 text-sm"
+                  data-testid="input-event-eventImpact"
+                />
+              </div>
+              {environment.competitors.length > 0 && (
+                <div className="grid grid-cols-[1fr_120px] gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Competitor fare move</Label>
+                    <Select value={draft.competitor} onValueChange={(competitor) => setDraft(d => ({ ...d, competitor }))}>
+                      <SelectTrigger className="h-8 text-sm" data-testid="select-event-competitor">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {environment.competitors.map(c => (
+                          <SelectItem key={c.name} value={c.name} className="text-sm">
+                            {c.name} (₹{c.basePrice.toLocaleString()})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {field('competitorChangePercent', "Change (%)", "-40 = flash sale", "1")}
+                </div>
+              )}
+              <p className="text-[10px] text-muted-foreground">Blank fields leave the condition as it is.</p>
+
+              {error && <p className="text-xs text-destructive" data-testid="text-event-error">{error.message}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={handleSchedule} disabled={isPending || !draft.title.trim()} data-testid="button-save-event">
+                {isPending && <RefreshCw className="w-4 h-4 animate-spin mr-2" />}
+                Schedule
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {!events || events.length === 0 ? (
+          <p className="text-xs text-muted-foreground" data-testid="text-no-events">No market events scheduled.</p>
+        ) : events.map(event => (
+          <div key={event.id} className="flex items-start gap-3 text-sm" data-testid={`market-event-${event.id}`}>
+            <span className="font-mono text-xs text-muted-foreground w-10 shrink-0 pt-0.5">D{event.day}</span>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium">{event.title}</div>
+              <div className="text-xs text-muted-foreground">{summarize(event.changes)}</div>
+            </div>
+            <Badge variant={event.status === "APPLIED" ? "default" : "secondary"} className="text-[10px] h-5">
+              {event.status === "APPLIED" ? "Applied" : "Scheduled"}
+            </Badge>
+            {event.status === "SCHEDULED" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={isDeleting}
+                onClick={() => deleteEvent(event.id)}
+                data-testid={`button-delete-event-${event.id}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
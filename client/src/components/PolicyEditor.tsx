@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { ShieldCheck, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { usePricingPolicy, useUpdatePricingPolicy } from "@/hooks/use-simulation";
+import type { Bucket, PricingPolicy } from "@shared/schema";
+
+interface PolicyEditorProps {
+  sessionId: number;
+  buckets: Bucket[];
+}
+
+// Form values are kept as strings so fields can be cleared while typing
+type PolicyDraft = Record<'minMultiplier' | 'maxMultiplier' | 'maxChangePercent' | 'maxChangesPerDay' | 'competitorFloorRatio' | 'costFloorRatio', string>;
+type BucketDraft = Record<string, { min: string; max: string }>;
+
+function toDraft(policy: PricingPolicy): PolicyDraft {
+  return {
+    minMultiplier: String(policy.minMultiplier),
+    maxMultiplier: String(policy.maxMultiplier),
+    maxChangePercent: String(Math.round(policy.maxChangePerReprice * 100)),
+    maxChangesPerDay: String(policy.maxChangesPerDay),
+    competitorFloorRatio: policy.competitorFloorRatio === null ? "" : String(policy.competitorFloorRatio),
+    costFloorRatio: policy.costFloorRatio === null ? "" : String(policy.costFloorRatio),
+  };
+}
+
+const optionalNumber = (value: string) => value.trim() === "" ? undefined : Number(value);
+
+export function PolicyEditor({ sessionId, buckets }: PolicyEditorProps) {
+  const { data: policy } = usePricingPolicy(sessionId);
+  const { mutate: updatePolicy, isPending, error, reset } = useUpdatePricingPolicy(sessionId);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [bucketDraft, setBucketDraft] = useState<BucketDraft>({});
+
+  // Start from the saved policy each time the dialog opens
+  useEffect(() => {
+    if (!open || !policy) return;
+    setDraft(toDraft(policy));
+    setBucketDraft(Object.fromEntries(buckets.map(b => [b.code, {
+      min: policy.bucketFares[b.code]?.min?.toString() ?? "",
+      max: policy.bucketFares[b.code]?.max?.toString() ?? "",
+    }])));
+    reset();
+  }, [open, policy, buckets, reset]);
+
+  const handleSave = () => {
+    if (!draft) return;
+    const bucketFares: PricingPolicy['bucketFares'] = {};
+    for (const [code, bounds] of Object.entries(bucketDraft)) {
+      const min = optionalNumber(bounds.min);
+      const max = optionalNumber(bounds.max);
+      if (min !== undefined || max !== undefined) bucketFares[code] = { min, max };
+    }
+    updatePolicy({
+      minMultiplier: Number(draft.minMultiplier),
+      maxMultiplier: Number(draft.maxMultiplier),
+      maxChangePerReprice: Number(draft.maxChangePercent) / 100,
+      maxChangesPerDay: Number(draft.maxChangesPerDay),
+      competitorFloorRatio: optionalNumber(draft.competitorFloorRatio) ?? null,
+      costFloorRatio: optionalNumber(draft.costFloorRatio) ?? null,
+      bucketFares,
+    }, { onSuccess: () => setOpen(false) });
+  };
+
+  const field = (key: keyof PolicyDraft, label: string, hint: string, step = "0.01") => (
+    <div className="space-y-1">
+      <Label htmlFor={`policy-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`policy-${key}`}
+        type="number"
+        step={step}
+        value={draft?.[key] ?? ""}
+        onChange={(e) => setDraft(d => d && { ...d, [key]: e.target.value })}
+        className="h-8 font-mono text-sm"
+        data-testid={`input-policy-${key}`}
+      />
+      <p className="text-[10px] text-muted-foreground">{hint}</p>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5" disabled={!policy} data-testid="button-edit-policy">
+          <ShieldCheck className="w-4 h-4" />
+          Guardrails
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pricing Guardrails</DialogTitle>
+          <DialogDescription>Applied to every fare the Pricing Agent proposes. Clipped fares are logged.</DialogDescription>
+        </DialogHeader>
+
+        {draft && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {field('minMultiplier', "Min fare (x base)", "Floor relative to base fare")}
+              {field('maxMultiplier', "Max fare (x base)", "Ceiling relative to base fare")}
+              {field('maxChangePercent', "Max change per reprice (%)", "Largest move from the current fare", "1")}
+              {field('maxChangesPerDay', "Max changes per day", "Per bucket, per simulated day", "1")}
+              {field('competitorFloorRatio', "Competitor floor (x cheapest)", "Economy only; blank disables")}
+              {field('costFloorRatio', "Cost floor (x base x fuel index)", "Blank disables")}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h5 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">Fare Bounds per Bucket (₹)</h5>
+              {buckets.map(b => (
+                <div key={b.code} className="grid grid-cols-[70px_1fr_1fr] items-center gap-2">
+                  <span className="text-xs font-mono font-bold">{b.code}</span>
+                  <Input
+                    type="number"
+                    placeholder="Min"
+                    value={bucketDraft[b.code]?.min ?? ""}
+                    onChange={(e) => setBucketDraft(d => ({ ...d, [b.code]: { ...d[b.code], min: e.target.value } }))}
+                    className="h-8 font-mono text-sm"
+                    data-testid={`input-policy-min-${b.code}`}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Max"
+                    value={bucketDraft[b.code]?.max ?? ""}
+                    onChange={(e) => setBucketDraft(d => ({ ...d, [b.code]: { ...d[b.code], max: e.target.value } }))}
+                    className="h-8 font-mono text-sm"
+                    data-testid={`input-policy-max-${b.code}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-xs text-destructive" data-testid="text-policy-error">{error.message}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isPending || !draft} data-testid="button-save-policy">
+            {isPending && <RefreshCw className="w-4 h-4 animate-spin mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
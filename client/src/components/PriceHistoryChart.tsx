@@ -0,0 +1,124 @@
+import { format } from "date-fns";
+import { LineChart as LineChartIcon } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import type { Bucket, CompetitorFare, PricingHistoryEntry } from "@shared/schema";
+
+interface PriceHistoryChartProps {
+  history: PricingHistoryEntry[];
+  buckets: Bucket[];
+  competitors: { name: string; basePrice: number }[];
+  competitorFares: CompetitorFare[]; // Competitors' fare changes; a competitor without any is drawn at its current fare
+}
+
+const bucketColors: Record<string, string> = {
+  ECO_1: "#0ea5e9",
+  ECO_2: "#0284c7",
+  ECO_3: "#0369a1",
+  ECO_4: "#075985",
+  BUS_1: "#f59e0b",
+  BUS_2: "#d97706",
+};
+
+const competitorColors = ["#f43f5e", "#a855f7", "#64748b"];
+
+export function PriceHistoryChart({ history, buckets, competitors, competitorFares }: PriceHistoryChartProps) {
+  // Pivot both change logs into one row per simulated day, carrying each bucket's and
+  // competitor's last known price forward so every line is continuous.
+  const bucketCodes = buckets.map(b => b.code);
+  const tracked = new Set(competitorFares.map(f => f.competitor));
+  const changes = [
+    ...history.map(h => ({ key: h.bucketCode, price: h.price, simulatedDate: new Date(h.simulatedDate) })),
+    ...competitorFares.map(f => ({ key: f.competitor, price: f.fare, simulatedDate: new Date(f.simulatedDate) })),
+  ].sort((a, b) => a.simulatedDate.getTime() - b.simulatedDate.getTime());
+  const rows: Record<string, string | number>[] = [];
+  const lastPrice: Record<string, number> = {};
+
+  for (const entry of changes) {
+    const label = format(entry.simulatedDate, "MMM dd");
+    lastPrice[entry.key] = entry.price;
+    const row = rows[rows.length - 1];
+    if (row && row.date === label) {
+      row[entry.key] = entry.price;
+    } else {
+      rows.push({ date: label, ...lastPrice });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <LineChartIcon className="w-4 h-4" />
+          Price History vs Competitors
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {history.length} price points across {bucketCodes.length} buckets
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="h-48 flex items-center justify-center text-xs text-muted-foreground italic">
+            No price changes recorded yet
+          </div>
+        ) : (
+          <div className="h-48" data-testid="chart-price-history">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                <XAxis dataKey="date" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  tickFormatter={(v) => `₹${(v / 1000).toFixed(0)}K`}
+                  axisLine={false}
+                  tickLine={false}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    fontSize: '12px'
+                  }}
+                  formatter={(value: number, name: string) => [`₹${value.toLocaleString()}`, name]}
+                />
+                <Legend wrapperStyle={{ fontSize: '10px' }} />
+                {competitors.map((c, i) => tracked.has(c.name) ? (
+                  <Line
+                    key={c.name}
+                    type="stepAfter"
+                    dataKey={c.name}
+                    stroke={competitorColors[i % competitorColors.length]}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    connectNulls
+                  />
+                ) : (
+                  <ReferenceLine
+                    key={c.name}
+                    y={c.basePrice}
+                    stroke={competitorColors[i % competitorColors.length]}
+                    strokeDasharray="4 4"
+                    label={{ value: c.name, fontSize: 9, position: 'insideTopRight', fill: competitorColors[i % competitorColors.length] }}
+                  />
+                ))}
+                {bucketCodes.map(code => (
+                  <Line
+                    key={code}
+                    type="stepAfter"
+                    dataKey={code}
+                    stroke={bucketColors[code] || "hsl(var(--primary))"}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
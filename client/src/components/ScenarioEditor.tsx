@@ -0,0 +1,393 @@
+import { useEffect, useRef, useState } from "react";
+import { Copy, Download, Pencil, Plus, RefreshCw, Trash2, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCloneScenario, useDeleteScenario, useImportScenario, useUpdateScenario } from "@/hooks/use-simulation";
+import { api, buildUrl } from "@shared/routes";
+import type { ScenarioDef } from "@shared/schema";
+
+interface ScenarioEditorProps {
+  scenario: ScenarioDef;
+  onSelect: (scenarioId: string) => void;
+}
+
+// Form values are kept as strings so fields can be cleared while typing
+type NumberField = 'bookingWindow' | 'daysToDeparture' | 'fuelCostIndex' | 'seasonalityIndex' | 'baseDemand' |
+  'competitorAggressiveness' | 'cancellationRate' | 'noShowRate' | 'revenueTarget' | 'occupancyTarget';
+type ScenarioDraft = Record<NumberField, string> & {
+  name: string;
+  description: string;
+  eventImpact: string;
+  weatherForecast: string;
+  competitors: { name: string; basePrice: string }[];
+  forecast: { day: string; expectedOccupancy: string }[];
+};
+
+function toDraft(scenario: ScenarioDef): ScenarioDraft {
+  const env = scenario.environment;
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    eventImpact: env.eventImpact ?? "",
+    weatherForecast: env.weatherForecast,
+    bookingWindow: String(env.bookingWindow),
+    daysToDeparture: String(env.daysToDeparture),
+    fuelCostIndex: String(env.fuelCostIndex),
+    seasonalityIndex: String(env.seasonalityIndex),
+    baseDemand: String(env.baseDemand),
+    competitorAggressiveness: String(env.competitorAggressiveness),
+    cancellationRate: env.cancellationRate?.toString() ?? "",
+    noShowRate: env.noShowRate?.toString() ?? "",
+    revenueTarget: String(env.revenueTarget),
+    occupancyTarget: String(env.occupancyTarget),
+    competitors: env.competitors.map(c => ({ name: c.name, basePrice: String(c.basePrice) })),
+    forecast: env.demandForecast.map(p => ({ day: String(p.day), expectedOccupancy: String(p.expectedOccupancy) })),
+  };
+}
+
+const optionalNumber = (value: string) => value.trim() === "" ? undefined : Number(value);
+
+// Built-in scenarios are cloned before editing; custom ones are edited in place. Any scenario
+// can be exported as a YAML document and imported into another instance.
+export function ScenarioEditor({ scenario, onSelect }: ScenarioEditorProps) {
+  const { mutate: cloneScenario, isPending: isCloning } = useCloneScenario();
+  const { mutate: updateScenario, isPending: isSaving, error, reset } = useUpdateScenario();
+  const { mutate: deleteScenario, isPending: isDeleting, error: deleteError, reset: resetDelete } = useDeleteScenario();
+  const { mutate: importScenario, isPending: isImporting, error: importError, reset: resetImport } = useImportScenario();
+  const [editing, setEditing] = useState<ScenarioDef | null>(null);
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Start from the saved scenario each time the dialog opens
+  useEffect(() => {
+    if (!editing) return;
+    setDraft(toDraft(editing));
+    reset();
+    resetDelete();
+  }, [editing, reset, resetDelete]);
+
+  const handleClone = () => {
+    cloneScenario({ sourceId: scenario.id }, {
+      onSuccess: (copy) => {
+        onSelect(copy.id);
+        setEditing(copy);
+      },
+    });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    resetImport();
+    importScenario({ document: await file.text() }, { onSuccess: (imported) => onSelect(imported.id) });
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const handleSave = () => {
+    if (!editing || !draft) return;
+    updateScenario({
+      id: editing.id,
+      name: draft.name,
+      description: draft.description,
+      pricingPolicy: editing.pricingPolicy,
+      routes: editing.routes,
+      departureOffsets: editing.departureOffsets,
+      environment: {
+        ...editing.environment,
+        eventImpact: draft.eventImpact.trim() || null,
+        weatherForecast: draft.weatherForecast,
+        bookingWindow: Number(draft.bookingWindow),
+        daysToDeparture: Number(draft.daysToDeparture),
+        fuelCostIndex: Number(draft.fuelCostIndex),
+        seasonalityIndex: Number(draft.seasonalityIndex),
+        baseDemand: Number(draft.baseDemand),
+        competitorAggressiveness: Number(draft.competitorAggressiveness),
+        cancellationRate: optionalNumber(draft.cancellationRate),
+        noShowRate: optionalNumber(draft.noShowRate),
+        revenueTarget: Number(draft.revenueTarget),
+        occupancyTarget: Number(draft.occupancyTarget),
+        competitors: draft.competitors.map(c => ({ name: c.name, basePrice: Number(c.basePrice) })),
+        demandForecast: draft.forecast.map(p => ({ day: Number(p.day), expectedOccupancy: Number(p.expectedOccupancy) })),
+      },
+    }, { onSuccess: () => setEditing(null) });
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    deleteScenario(editing.id, {
+      onSuccess: () => {
+        onSelect("");
+        setEditing(null);
+      },
+    });
+  };
+
+  const field = (key: NumberField, label: string, hint: string, step = "0.01") => (
+    <div className="space-y-1">
+      <Label htmlFor={`scenario-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`scenario-${key}`}
+        type="number"
+        step={step}
+        value={draft?.[key] ?? ""}
+        onChange={(e) => setDraft(d => d && { ...d, [key]: e.target.value })}
+        className="h-8 font-mono text-sm"
+        data-testid={`input-scenario-${key}`}
+      />
+      <p className="text-[10px] text-muted-foreground">{hint}</p>
+    </div>
+  );
+
+  const setCompetitor = (index: number, changes: Partial<ScenarioDraft['competitors'][number]>) =>
+    setDraft(d => d && { ...d, competitors: d.competitors.map((c, i) => i === index ? { ...c, ...changes } : c) });
+  const setForecastPoint = (index: number, changes: Partial<ScenarioDraft['forecast'][number]>) =>
+    setDraft(d => d && { ...d, forecast: d.forecast.map((p, i) => i === index ? { ...p, ...changes } : p) });
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" className="gap-1.5" onClick={handleClone} disabled={isCloning} data-testid="button-clone-scenario">
+          {isCloning ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+          Clone
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1.5"
+          onClick={() => setEditing(scenario)}
+          disabled={scenario.builtIn}
+          title={scenario.builtIn ? "Built-in scenarios are read-only; clone to edit" : undefined}
+          data-testid="button-edit-scenario"
+        >
+          <Pencil className="w-4 h-4" />
+          Edit
+        </Button>
+        <Button variant="outline" size="sm" className="gap-1.5" onClick={() => fileInput.current?.click()} disabled={isImporting} data-testid="button-import-scenario">
+          {isImporting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import
+        </Button>
+        <Button variant="outline" size="sm" className="gap-1.5" asChild data-testid="button-export-scenario">
+          <a href={`${buildUrl(api.scenarios.export.path, { id: scenario.id })}?format=yaml`} download>
+            <Download className="w-4 h-4" />
+            Export
+          </a>
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.yaml,.yml"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+          data-testid="input-import-scenario"
+        />
+      </div>
+      {importError && <p className="text-xs text-destructive" data-testid="text-import-error">{importError.message}</p>}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Scenario</DialogTitle>
+            <DialogDescription>
+              <span className="font-mono">{editing?.id}</span>
+              {editing?.basedOn && <> • cloned from <span className="font-mono">{editing.basedOn}</span></>}
+              . Sessions running it pick up changes on their next step.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <ScrollArea className="max-h-[60vh] pr-3">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="scenario-name" className="text-xs">Name</Label>
+                    <Input
+                      id="scenario-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft(d => d && { ...d, name: e.target.value })}
+                      className="h-8 text-sm"
+                      data-testid="input-scenario-name"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="scenario-description" className="text-xs">Description</Label>
+                    <Textarea
+                      id="scenario-description"
+                      value={draft.description}
+                      onChange={(e) => setDraft(d => d && { ...d, description: e.target.value })}
+                      className="text-sm min-h-[60px]"
+                      data-testid="input-scenario-description"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="scenario-event" className="text-xs">Event</Label>
+                      <Input
+                        id="scenario-event"
+                        value={draft.eventImpact}
+                        onChange={(e) => setDraft(d => d && { ...d, eventImpact: e.target.value })}
+                        placeholder="None"
+                        className="h-8 text-sm"
+                        data-testid="input-scenario-eventImpact"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="scenario-weather" className="text-xs">Weather</Label>
+                      <Input
+                        id="scenario-weather"
+                        value={draft.weatherForecast}
+                        onChange={(e) => setDraft(d => d && { ...d, weatherForecast: e.target.value })}
+                        className="h-8 text-sm"
+                        data-testid="input-scenario-weatherForecast"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <h5 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">Market Indices</h5>
+                  <div className="grid grid-cols-3 gap-3">
+                    {field('fuelCostIndex', "Fuel cost index", "1.0 = normal")}
+                    {field('seasonalityIndex', "Seasonality index", "1.0 = normal")}
+                    {field('baseDemand', "Base demand", "0-1")}
+                    {field('competitorAggressiveness', "Competitor aggressiveness", "0-1")}
+                    {field('cancellationRate', "Cancellation rate", "0-1; blank for the model default")}
+                    {field('noShowRate', "No-show rate", "0-1; blank for the model default")}
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <h5 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">Booking Window & Targets</h5>
+                  <div className="grid grid-cols-2 gap-3">
+                    {field('bookingWindow', "Booking window (days)", "Days the flight is on sale", "1")}
+                    {field('daysToDeparture', "Days to departure", "When the scenario starts", "1")}
+                    {field('revenueTarget', "Revenue target (₹)", "For the whole network", "1000")}
+                    {field('occupancyTarget', "Occupancy target (%)", "Load factor at departure", "1")}
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h5 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">Competitors</h5>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 gap-1 text-xs"
+                      onClick={() => setDraft(d => d && { ...d, competitors: [...d.competitors, { name: "", basePrice: "" }] })}
+                      data-testid="button-add-competitor"
+                    >
+                      <Plus className="w-3 h-3" /> Add
+                    </Button>
+                  </div>
+                  {draft.competitors.map((c, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_120px_28px] items-center gap-2">
+                      <Input
+                        placeholder="Airline"
+                        value={c.name}
+                        onChange={(e) => setCompetitor(i, { name: e.target.value })}
+                        className="h-8 text-sm"
+                        data-testid={`input-competitor-name-${i}`}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Base fare ₹"
+                        value={c.basePrice}
+                        onChange={(e) => setCompetitor(i, { basePrice: e.target.value })}
+                        className="h-8 font-mono text-sm"
+                        data-testid={`input-competitor-price-${i}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setDraft(d => d && { ...d, competitors: d.competitors.filter((_, j) => j !== i) })}
+                        data-testid={`button-remove-competitor-${i}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h5 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">Demand Forecast (occupancy % by day of window)</h5>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 gap-1 text-xs"
+                      onClick={() => setDraft(d => d && { ...d, forecast: [...d.forecast, { day: "", expectedOccupancy: "" }] })}
+                      data-testid="button-add-forecast-point"
+                    >
+                      <Plus className="w-3 h-3" /> Add
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {draft.forecast.map((p, i) => (
+                      <div key={i} className="grid grid-cols-[1fr_1fr_28px] items-center gap-2">
+                        <Input
+                          type="number"
+                          placeholder="Day"
+                          value={p.day}
+                          onChange={(e) => setForecastPoint(i, { day: e.target.value })}
+                          className="h-8 font-mono text-sm"
+                          data-testid={`input-forecast-day-${i}`}
+                        />
+                        <Input
+                          type="number"
+                          placeholder="%"
+                          value={p.expectedOccupancy}
+                          onChange={(e) => setForecastPoint(i, { expectedOccupancy: e.target.value })}
+                          className="h-8 font-mono text-sm"
+                          data-testid={`input-forecast-occupancy-${i}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setDraft(d => d && { ...d, forecast: d.forecast.filter((_, j) => j !== i) })}
+                          data-testid={`button-remove-forecast-point-${i}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {(error || deleteError) && (
+                  <p className="text-xs text-destructive" data-testid="text-scenario-error">{(error ?? deleteError)?.message}</p>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button variant="ghost" className="gap-1.5 text-destructive" onClick={handleDelete} disabled={isDeleting} data-testid="button-delete-scenario">
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={isSaving || !draft} data-testid="button-save-scenario">
+                {isSaving && <RefreshCw className="w-4 h-4 animate-spin mr-2" />}
+                Save
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
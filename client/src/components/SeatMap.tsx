@@ -1,103 +1,205 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
+import { RefreshCw } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { Bucket } from "@shared/schema";
+import type { Bucket, Seat } from "@shared/schema";
+import { seatNumber, type AircraftConfig, type CabinConfig } from "@shared/aircraft";
+import { availableSeats } from "@shared/inventory";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useBookTicket } from "@/hooks/use-simulation";
 
 interface SeatMapProps {
+  sessionId: number;
+  flightId: number;
+  aircraft: AircraftConfig;
   buckets: Bucket[];
-  totalSeats?: number;
+  seats: Seat[];
+  inventoryMode: string;
 }
 
-export function SeatMap({ buckets, totalSeats = 192 }: SeatMapProps) {
-  // Generate a flat array of seat objects based on buckets
-  // This is a visualization hack: we don't have individual seat rows in DB, 
-  // so we visualize the *proportion* of seats per bucket.
-  
-  const generateSeats = () => {
-    const seats: { id: string; bucket: Bucket; status: 'available' | 'sold'; type: 'business' | 'economy' }[] = [];
-    
-    // Sort buckets by price desc (Business first usually)
-    const sortedBuckets = [...buckets].sort((a, b) => b.price - a.price);
+const FEATURE_LABELS: Record<string, string> = {
+  window: "Window",
+  aisle: "Aisle",
+  middle: "Middle",
+  exit: "Exit row",
+  extra_legroom: "Extra legroom",
+};
 
-    sortedBuckets.forEach(bucket => {
-      // Add sold seats first
-      for (let i = 0; i < bucket.sold; i++) {
-        seats.push({ 
-          id: `${bucket.code}-s-${i}`, 
-          bucket, 
-          status: 'sold',
-          type: bucket.class.toLowerCase() as 'business' | 'economy'
-        });
-      }
-      // Add available seats
-      const available = bucket.allocated - bucket.sold;
-      for (let i = 0; i < available; i++) {
-        seats.push({ 
-          id: `${bucket.code}-a-${i}`, 
-          bucket, 
-          status: 'available',
-          type: bucket.class.toLowerCase() as 'business' | 'economy'
-        });
-      }
-    });
+// Seat positions in a row that are followed by an aisle, e.g. [3, 3] -> {2}
+function aislePositions(cabin: CabinConfig): Set<number> {
+  const positions = new Set<number>();
+  let position = 0;
+  for (const block of cabin.layout.slice(0, -1)) {
+    position += block;
+    positions.add(position - 1);
+  }
+  return positions;
+}
+
+export function SeatMap({ sessionId, flightId, aircraft, buckets, seats, inventoryMode }: SeatMapProps) {
+  const { mutate: bookTicket, isPending, error, reset } = useBookTicket(sessionId);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bucketCode, setBucketCode] = useState<string>("");
+
+  // Selection belongs to one flight
+  useEffect(() => {
+    setSelected([]);
+    reset();
+  }, [flightId, reset]);
 
-    // Fill remaining if any (unallocated - shouldn't happen in this model but good safety)
-    while (seats.length < totalSeats) {
-      seats.push({ 
-        id: `unalloc-${seats.length}`, 
-        bucket: buckets[0], // fallback
-        status: 'sold', // treat unallocated as blocked/sold visually
-        type: 'economy' 
-      });
+  const seatsByNumber = useMemo(() => new Map(seats.map(seat => [seatNumber(seat), seat])), [seats]);
+  const selectedSeats = selected.map(n => seatsByNumber.get(n)).filter((s): s is Seat => !!s && s.status === "AVAILABLE");
+  const selectedCabin = selectedSeats[0]?.cabin;
+  const seatFees = selectedSeats.reduce((sum, seat) => sum + seat.fee, 0);
+  const bookable = useMemo(() => {
+    const available = availableSeats(buckets, inventoryMode);
+    return buckets.filter(b => b.class === selectedCabin && available[b.code] >= selectedSeats.length);
+  }, [buckets, inventoryMode, selectedCabin, selectedSeats.length]);
+
+  // Default to the cheapest bucket that can take the whole selection
+  useEffect(() => {
+    if (!bookable.some(b => b.code === bucketCode)) {
+      setBucketCode([...bookable].sort((a, b) => a.price - b.price)[0]?.code ?? "");
     }
+  }, [bookable, bucketCode]);
+
+  // A selection stays in one cabin; picking a seat in another cabin starts over
+  const toggleSeat = (seat: Seat) => {
+    const number = seatNumber(seat);
+    reset();
+    setSelected(current => {
+      if (current.includes(number)) return current.filter(n => n !== number);
+      if (selectedCabin && seat.cabin !== selectedCabin) return [number];
+      return [...current, number];
+    });
+  };
 
-    return seats.slice(0, totalSeats); // Cap at totalSeats
+  const handleBook = () => {
+    bookTicket(
+      { flightId, bucketCode, quantity: selectedSeats.length, seatNumbers: selectedSeats.map(seatNumber) },
+      { onSuccess: () => setSelected([]) }
+    );
   };
 
-  const seats = generateSeats();
+  let seatIndex = 0;
 
   return (
     <div className="p-4 bg-card rounded-xl border shadow-sm">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="font-display font-semibold text-lg">Seat Map Visualization</h3>
-        <div className="flex gap-4 text-xs text-muted-foreground">
+        <div>
+          <h3 className="font-display font-semibold text-lg">Seat Map</h3>
+          <p className="text-xs text-muted-foreground font-mono">{aircraft.name}</p>
+        </div>
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
           <div className="flex items-center gap-1"><div className="w-3 h-3 bg-purple-500 rounded-sm"></div> Business</div>
           <div className="flex items-center gap-1"><div className="w-3 h-3 bg-blue-500 rounded-sm"></div> Economy</div>
-          <div className="flex items-center gap-1"><div className="w-3 h-3 bg-slate-200 dark:bg-slate-700 rounded-sm"></div> Sold</div>
+          <div className="flex items-center gap-1"><div className="w-3 h-3 bg-amber-500 rounded-sm"></div> Extra legroom</div>
+          <div className="flex items-center gap-1"><div className="w-3 h-3 bg-emerald-500 rounded-sm"></div> Selected</div>
+          <div className="flex items-center gap-1"><div className="w-3 h-3 bg-slate-200 dark:bg-slate-700 rounded-sm"></div> Occupied</div>
+          <div className="flex items-center gap-1"><div className="w-3 h-3 border border-dashed border-slate-400 rounded-sm"></div> Held by a quote</div>
         </div>
       </div>
-      
-      {/* Plane fuselage shape container */}
-      <div className="relative mx-auto max-w-[300px] bg-slate-100 dark:bg-slate-900 rounded-t-[100px] rounded-b-[40px] p-8 border-4 border-slate-200 dark:border-slate-800">
-        <div className="grid grid-cols-6 gap-2">
-          {seats.map((seat, i) => (
-            <Tooltip key={seat.id}>
-              <TooltipTrigger asChild>
-                <motion.div
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1 }}
-                  transition={{ delay: i * 0.005 }}
-                  className={cn(
-                    "w-6 h-6 rounded-sm cursor-help transition-colors duration-300",
-                    seat.status === 'sold' 
-                      ? "bg-slate-300 dark:bg-slate-700 opacity-50" 
-                      : seat.type === 'business' 
-                        ? "bg-purple-500 hover:bg-purple-400 shadow-[0_0_8px_rgba(168,85,247,0.5)]" 
-                        : "bg-blue-500 hover:bg-blue-400 shadow-[0_0_8px_rgba(59,130,246,0.5)]",
-                    // Aisle spacer styling
-                    (i % 6 === 2) ? "mr-4" : "" 
-                  )}
-                />
-              </TooltipTrigger>
-              <TooltipContent className="bg-popover border-border text-xs">
-                <p className="font-bold">{seat.bucket.code}</p>
-                <p>Price: ${seat.bucket.price}</p>
-                <p>Status: {seat.status.toUpperCase()}</p>
-              </TooltipContent>
-            </Tooltip>
-          ))}
+
+      {seats.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-no-seats">No seat inventory for this flight.</p>
+      ) : (
+        /* Plane fuselage shape container */
+        <div className="relative mx-auto w-fit bg-slate-100 dark:bg-slate-900 rounded-t-[100px] rounded-b-[40px] p-8 pt-12 border-4 border-slate-200 dark:border-slate-800 space-y-4">
+          {aircraft.cabins.map(cabin => {
+            const aisles = aislePositions(cabin);
+            const rows = Array.from(new Set(seats.filter(s => s.cabin === cabin.class).map(s => s.row)));
+
+            return (
+              <Fragment key={cabin.class}>
+                <div className="text-[10px] uppercase tracking-wider text-muted-foreground text-center">
+                  {cabin.class} • {cabin.layout.join('-')}
+                </div>
+                <div className="space-y-2" data-testid={`cabin-${cabin.class.toLowerCase()}`}>
+                  {rows.map(row => (
+                    <div key={row} className="flex items-center gap-2">
+                      <span className="w-5 text-[10px] font-mono text-muted-foreground text-right">{row}</span>
+                      {cabin.letters.split('').map((letter, position) => {
+                        const seat = seatsByNumber.get(`${row}${letter}`);
+                        const spacing = aisles.has(position) ? "mr-4" : "";
+                        if (!seat) return <div key={letter} className={cn("w-6 h-6", spacing)} />;
+
+                        const number = seatNumber(seat);
+                        const isSelected = selected.includes(number);
+                        const isAvailable = seat.status === "AVAILABLE";
+                        return (
+                          <Tooltip key={letter}>
+                            <TooltipTrigger asChild>
+                              <motion.button
+                                type="button"
+                                initial={{ scale: 0 }}
+                                animate={{ scale: 1 }}
+                                transition={{ delay: seatIndex++ * 0.003 }}
+                                disabled={!isAvailable}
+                                onClick={() => toggleSeat(seat)}
+                                className={cn(
+                                  "w-6 h-6 rounded-sm transition-colors duration-300",
+                                  seat.status === "HELD"
+                                    ? "border border-dashed border-slate-400 cursor-not-allowed"
+                                    : !isAvailable
+                                    ? "bg-slate-300 dark:bg-slate-700 opacity-50 cursor-not-allowed"
+                                    : isSelected
+                                      ? "bg-emerald-500 ring-2 ring-emerald-300"
+                                      : cabin.class === 'BUSINESS'
+                                        ? "bg-purple-500 hover:bg-purple-400 shadow-[0_0_8px_rgba(168,85,247,0.5)]"
+                                        : seat.features.includes('extra_legroom')
+                                          ? "bg-amber-500 hover:bg-amber-400 shadow-[0_0_8px_rgba(245,158,11,0.5)]"
+                                          : "bg-blue-500 hover:bg-blue-400 shadow-[0_0_8px_rgba(59,130,246,0.5)]",
+                                  spacing
+                                )}
+                                data-testid={`seat-${number}`}
+                              />
+                            </TooltipTrigger>
+                            <TooltipContent className="bg-popover border-border text-xs">
+                              <p className="font-bold">{number}</p>
+                              <p>{seat.features.map(f => FEATURE_LABELS[f] ?? f).join(' • ')}</p>
+                              <p>{seat.fee > 0 ? `Seat fee: ₹${seat.fee.toLocaleString()}` : "No seat fee"}</p>
+                              <p>Status: {seat.status}</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </Fragment>
+            );
+          })}
         </div>
-      </div>
+      )}
+
+      {selectedSeats.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-3 rounded-md border p-3" data-testid="seat-selection">
+          <div className="text-sm flex-1 min-w-[160px]">
+            <span className="font-semibold">{selectedSeats.map(seatNumber).join(', ')}</span>
+            <span className="text-muted-foreground"> • Seat fees ₹{seatFees.toLocaleString()}</span>
+          </div>
+          <Select value={bucketCode} onValueChange={setBucketCode}>
+            <SelectTrigger className="h-8 w-[180px] text-xs" data-testid="select-seat-bucket">
+              <SelectValue placeholder="No fare available" />
+            </SelectTrigger>
+            <SelectContent>
+              {bookable.map(b => (
+                <SelectItem key={b.code} value={b.code} className="text-xs">
+                  {b.code} • ₹{b.price.toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleBook} disabled={!bucketCode || isPending} data-testid="button-book-seats">
+            {isPending && <RefreshCw className="w-4 h-4 animate-spin mr-2" />}
+            Book {selectedSeats.length} seat{selectedSeats.length > 1 ? 's' : ''}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelected([])}>Clear</Button>
+          {error && <p className="w-full text-xs text-destructive" data-testid="text-seat-error">{error.message}</p>}
+        </div>
+      )}
     </div>
   );
 }
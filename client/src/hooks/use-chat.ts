@@ -1,22 +1,23 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@shared/routes";
+import { api, buildUrl } from "@shared/routes";
 import { logger } from "@/lib/logger";
 
-export function useChatHistory() {
+export function useChatHistory(sessionId?: number) {
   return useQuery({
-    queryKey: [api.chat.history.path],
+    queryKey: [api.sessions.chatHistory.path, sessionId],
     queryFn: async () => {
-      const res = await fetch(api.chat.history.path);
+      const res = await fetch(buildUrl(api.sessions.chatHistory.path, { id: sessionId! }));
       if (!res.ok) {
         logger.error('Chat', 'Failed to fetch chat history', { status: res.status });
         throw new Error("Failed to fetch chat history");
       }
-      return api.chat.history.responses[200].parse(await res.json());
+      return api.sessions.chatHistory.responses[200].parse(await res.json());
     },
+    enabled: sessionId !== undefined,
   });
 }
 
-export function useSendMessage() {
+export function useSendMessage(sessionId?: number) {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async (message: string) => {
@@ -27,8 +28,8 @@ export function useSendMessage() {
       const timeoutId = setTimeout(() => controller.abort(), 120000);
       
       try {
-        const res = await fetch(api.chat.send.path, {
-          method: api.chat.send.method,
+        const res = await fetch(buildUrl(api.sessions.chat.path, { id: sessionId! }), {
+          method: api.sessions.chat.method,
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ message }),
           signal: controller.signal,
@@ -38,7 +39,7 @@ export function useSendMessage() {
           logger.error('Chat', 'Failed to send message', { status: res.status });
           throw new Error("Failed to send message");
         }
-        const data = api.chat.send.responses[200].parse(await res.json());
+        const data = api.sessions.chat.responses[200].parse(await res.json());
         logger.info('Chat', 'Message sent successfully', { responseLength: data.response?.length });
         return data;
       } catch (e) {
@@ -52,7 +53,7 @@ export function useSendMessage() {
       }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.chat.history.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.chatHistory.path, sessionId] });
     },
     onError: (error) => {
       logger.error('Chat', 'Mutation failed', error);
@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@shared/routes";
+import { z } from "zod";
+import { api, buildUrl, errorSchemas } from "@shared/routes";
+import type { AgentMode, CompetitorFeed, InventoryMode, PricingPolicy } from "@shared/schema";
 
 // ============================================
 // SCENARIOS
@@ -19,18 +21,158 @@ export function useScenarios() {
 export function useLoadScenario() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (scenarioId: string) => {
+    mutationFn: async ({ scenarioId, agentMode, inventoryMode, routes, aircraft, competitorFeed }: { scenarioId: string; agentMode?: AgentMode; inventoryMode?: InventoryMode; routes?: string[]; aircraft?: Record<string, string>; competitorFeed?: CompetitorFeed }) => {
       const res = await fetch(api.scenarios.load.path, {
         method: api.scenarios.load.method,
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ scenarioId }),
+        body: JSON.stringify({ scenarioId, agentMode, inventoryMode, routes, aircraft, competitorFeed }),
       });
       if (!res.ok) throw new Error("Failed to load scenario");
       return api.scenarios.load.responses[201].parse(await res.json());
     },
+    // Refetch the list before callers switch to the new session
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [api.sessions.list.path] }),
+  });
+}
+
+// Fields of an authored scenario; ids are derived from the name when omitted
+type ScenarioInput = z.infer<typeof api.scenarios.update.input>;
+
+// Scenario writes return 400 with the validation errors, or 403/409 explaining why the
+// change isn't allowed
+async function scenarioResponse<T>(res: Response, schema: z.ZodType<T>, failure: string): Promise<T> {
+  if ([400, 403, 404, 409].includes(res.status)) {
+    throw new Error(errorSchemas.validation.parse(await res.json()).message);
+  }
+  if (!res.ok) throw new Error(failure);
+  return schema.parse(await res.json());
+}
+
+export function useCreateScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (scenario: ScenarioInput & { id?: string }) => {
+      const res = await fetch(api.scenarios.create.path, {
+        method: api.scenarios.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(scenario),
+      });
+      return scenarioResponse(res, api.scenarios.create.responses[201], "Failed to create scenario");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.scenarios.list.path] });
+    },
+  });
+}
+
+export function useUpdateScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...scenario }: ScenarioInput & { id: string }) => {
+      const res = await fetch(buildUrl(api.scenarios.update.path, { id }), {
+        method: api.scenarios.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(scenario),
+      });
+      return scenarioResponse(res, api.scenarios.update.responses[200], "Failed to update scenario");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.scenarios.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path] });
+    },
+  });
+}
+
+export function useDeleteScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(buildUrl(api.scenarios.delete.path, { id }), {
+        method: api.scenarios.delete.method,
+      });
+      return scenarioResponse(res, api.scenarios.delete.responses[200], "Failed to delete scenario");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.scenarios.list.path] });
+    },
+  });
+}
+
+export function useCloneScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sourceId, ...changes }: { sourceId: string; id?: string; name?: string }) => {
+      const res = await fetch(buildUrl(api.scenarios.clone.path, { id: sourceId }), {
+        method: api.scenarios.clone.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      return scenarioResponse(res, api.scenarios.clone.responses[201], "Failed to clone scenario");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.scenarios.list.path] });
+    },
+  });
+}
+
+// Imports a scenario document (JSON or YAML text) as a new custom scenario
+export function useImportScenario() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ document, replace }: { document: string; replace?: boolean }) => {
+      const res = await fetch(`${api.scenarios.import.path}${replace ? "?replace=true" : ""}`, {
+        method: api.scenarios.import.method,
+        headers: { "Content-Type": "text/plain" },
+        body: document,
+      });
+      return scenarioResponse(res, api.scenarios.import.responses[201], "Failed to import scenario");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.scenarios.list.path] });
+    },
+  });
+}
+
+export function useRoutes() {
+  return useQuery({
+    queryKey: [api.network.routes.path],
+    queryFn: async () => {
+      const res = await fetch(api.network.routes.path);
+      if (!res.ok) throw new Error("Failed to fetch routes");
+      return api.network.routes.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+
+// Every hook below is scoped to one session; queries stay idle until a session is selected
+
+export function useSessions() {
+  return useQuery({
+    queryKey: [api.sessions.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.sessions.list.path);
+      if (!res.ok) throw new Error("Failed to fetch sessions");
+      return api.sessions.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCloseSession() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (sessionId: number) => {
+      const res = await fetch(buildUrl(api.sessions.close.path, { id: sessionId }), {
+        method: api.sessions.close.method,
+      });
+      if (!res.ok) throw new Error("Failed to close session");
+      return api.sessions.close.responses[200].parse(await res.json());
+    },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.simulation.state.path] });
-      queryClient.invalidateQueries({ queryKey: [api.chat.history.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.list.path] });
     },
   });
 }
@@ -39,31 +181,194 @@ export function useLoadScenario() {
 // SIMULATION STATE
 // ============================================
 
-export function useSimulationState() {
+// Without a flightId the server picks the session's first flight
+export function useSimulationState(sessionId?: number, flightId?: number) {
   return useQuery({
-    queryKey: [api.simulation.state.path],
+    queryKey: [api.sessions.state.path, sessionId, flightId],
     queryFn: async () => {
-      const res = await fetch(api.simulation.state.path);
+      const query = flightId !== undefined ? `?flightId=${flightId}` : "";
+      const res = await fetch(`${buildUrl(api.sessions.state.path, { id: sessionId! })}${query}`);
       if (res.status === 404) return null;
       if (!res.ok) throw new Error("Failed to fetch simulation state");
-      return api.simulation.state.responses[200].parse(await res.json());
+      return api.sessions.state.responses[200].parse(await res.json());
     },
+    enabled: sessionId !== undefined,
     refetchInterval: 2000, // Poll every 2 seconds for live updates
   });
 }
 
-export function useOrchestrate() {
+export function usePricingHistory(sessionId?: number, flightId?: number, bucketCode?: string) {
+  return useQuery({
+    queryKey: [api.sessions.history.path, sessionId, flightId, bucketCode],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (flightId !== undefined) params.set("flightId", String(flightId));
+      if (bucketCode) params.set("bucketCode", bucketCode);
+      const query = params.toString() ? `?${params}` : "";
+      const res = await fetch(`${buildUrl(api.sessions.history.path, { id: sessionId! })}${query}`);
+      if (res.status === 404) return [];
+      if (!res.ok) throw new Error("Failed to fetch pricing history");
+      return api.sessions.history.responses[200].parse(await res.json());
+    },
+    enabled: sessionId !== undefined,
+    refetchInterval: 2000,
+  });
+}
+
+export function useCompetitorFares(sessionId?: number, flightId?: number) {
+  return useQuery({
+    queryKey: [api.sessions.competitorFares.path, sessionId, flightId],
+    queryFn: async () => {
+      const query = flightId !== undefined ? `?flightId=${flightId}` : "";
+      const res = await fetch(`${buildUrl(api.sessions.competitorFares.path, { id: sessionId! })}${query}`);
+      if (res.status === 404) return [];
+      if (!res.ok) throw new Error("Failed to fetch competitor fares");
+      return api.sessions.competitorFares.responses[200].parse(await res.json());
+    },
+    enabled: sessionId !== undefined,
+    refetchInterval: 2000,
+  });
+}
+
+export function usePricingPolicy(sessionId?: number) {
+  return useQuery({
+    queryKey: [api.sessions.policy.path, sessionId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.sessions.policy.path, { id: sessionId! }));
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch pricing policy");
+      return api.sessions.policy.responses[200].parse(await res.json());
+    },
+    enabled: sessionId !== undefined,
+  });
+}
+
+export function useUpdatePricingPolicy(sessionId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (changes: Partial<PricingPolicy>) => {
+      const res = await fetch(buildUrl(api.sessions.updatePolicy.path, { id: sessionId! }), {
+        method: api.sessions.updatePolicy.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (res.status === 400) {
+        throw new Error(api.sessions.updatePolicy.responses[400].parse(await res.json()).message);
+      }
+      if (!res.ok) throw new Error("Failed to update pricing policy");
+      return api.sessions.updatePolicy.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.sessions.policy.path, sessionId] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path, sessionId] });
+    },
+  });
+}
+
+export type MarketEventInput = z.infer<typeof api.sessions.scheduleEvent.input>;
+
+export function useMarketEvents(sessionId?: number) {
+  return useQuery({
+    queryKey: [api.sessions.events.path, sessionId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.sessions.events.path, { id: sessionId! }));
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch market events");
+      return api.sessions.events.responses[200].parse(await res.json());
+    },
+    enabled: sessionId !== undefined,
+  });
+}
+
+// An event for a day already reached is applied at once and re-prices the session
+export function useScheduleMarketEvent(sessionId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (event: MarketEventInput) => {
+      const res = await fetch(buildUrl(api.sessions.scheduleEvent.path, { id: sessionId! }), {
+        method: api.sessions.scheduleEvent.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(event),
+      });
+      if (res.status === 400) {
+        throw new Error(api.sessions.scheduleEvent.responses[400].parse(await res.json()).message);
+      }
+      if (!res.ok) throw new Error("Failed to schedule market event");
+      return api.sessions.scheduleEvent.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.sessions.events.path, sessionId] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path, sessionId] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.history.path, sessionId] });
+    },
+  });
+}
+
+export function useDeleteMarketEvent(sessionId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (eventId: number) => {
+      const res = await fetch(buildUrl(api.sessions.deleteEvent.path, { id: sessionId!, eventId }), {
+        method: api.sessions.deleteEvent.method,
+      });
+      if (res.status === 409) {
+        throw new Error(api.sessions.deleteEvent.responses[409].parse(await res.json()).message);
+      }
+      if (!res.ok) throw new Error("Failed to delete market event");
+      return api.sessions.deleteEvent.responses[200].parse(await res.json());
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [api.sessions.events.path, sessionId] }),
+  });
+}
+
+// A2A trace of one orchestration; traces never change once written
+export function useA2ATrace(planId?: string) {
+  return useQuery({
+    queryKey: [api.simulation.trace.path, planId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.simulation.trace.path, { planId: planId! }));
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch A2A trace");
+      return api.simulation.trace.responses[200].parse(await res.json());
+    },
+    enabled: !!planId,
+    staleTime: Infinity,
+  });
+}
+
+export function useOrchestrate(sessionId?: number) {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async () => {
-      const res = await fetch(api.simulation.orchestrate.path, {
-        method: api.simulation.orchestrate.method,
+      const res = await fetch(buildUrl(api.sessions.orchestrate.path, { id: sessionId! }), {
+        method: api.sessions.orchestrate.method,
       });
       if (!res.ok) throw new Error("Agent orchestration failed");
-      return api.simulation.orchestrate.responses[200].parse(await res.json());
+      return api.sessions.orchestrate.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path, sessionId] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.history.path, sessionId] });
+    },
+  });
+}
+
+export function useAdvanceSimulation(sessionId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (days: number) => {
+      const res = await fetch(buildUrl(api.sessions.advance.path, { id: sessionId! }), {
+        method: api.sessions.advance.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days }),
+      });
+      if (!res.ok) throw new Error("Failed to advance simulation");
+      return api.sessions.advance.responses[200].parse(await res.json());
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.simulation.state.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path, sessionId] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.history.path, sessionId] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.events.path, sessionId] });
     },
   });
 }
@@ -72,23 +377,23 @@ export function useOrchestrate() {
 // BOOKING
 // ============================================
 
-export function useBookTicket() {
+export function useBookTicket(sessionId?: number) {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async ({ bucketCode, quantity }: { bucketCode: string; quantity: number }) => {
-      const res = await fetch(api.simulation.book.path, {
-        method: api.simulation.book.method,
+    mutationFn: async ({ flightId, bucketCode, quantity, seatNumbers }: { flightId?: number; bucketCode: string; quantity: number; seatNumbers?: string[] }) => {
+      const res = await fetch(buildUrl(api.sessions.book.path, { id: sessionId! }), {
+        method: api.sessions.book.method,
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ bucketCode, quantity }),
+        body: JSON.stringify({ flightId, bucketCode, quantity, seatNumbers }),
       });
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Booking failed");
       }
-      return api.simulation.book.responses[200].parse(await res.json());
+      return api.sessions.book.responses[200].parse(await res.json());
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.simulation.state.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path, sessionId] });
     },
   });
 }
@@ -97,34 +402,34 @@ export function useBookTicket() {
 // CLEAR DATA
 // ============================================
 
-export function useClearLogs() {
+export function useClearLogs(sessionId?: number) {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async () => {
-      const res = await fetch(api.logs.clear.path, {
-        method: api.logs.clear.method,
+      const res = await fetch(buildUrl(api.sessions.clearLogs.path, { id: sessionId! }), {
+        method: api.sessions.clearLogs.method,
       });
       if (!res.ok) throw new Error("Failed to clear logs");
-      return api.logs.clear.responses[200].parse(await res.json());
+      return api.sessions.clearLogs.responses[200].parse(await res.json());
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.simulation.state.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.state.path, sessionId] });
     },
   });
 }
 
-export function useClearChat() {
+export function useClearChat(sessionId?: number) {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async () => {
-      const res = await fetch(api.chat.clear.path, {
-        method: api.chat.clear.method,
+      const res = await fetch(buildUrl(api.sessions.clearChat.path, { id: sessionId! }), {
+        method: api.sessions.clearChat.method,
       });
       if (!res.ok) throw new Error("Failed to clear chat");
-      return api.chat.clear.responses[200].parse(await res.json());
+      return api.sessions.clearChat.responses[200].parse(await res.json());
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.chat.history.path] });
+      queryClient.invalidateQueries({ queryKey: [api.sessions.chatHistory.path, sessionId] });
     },
   });
 }
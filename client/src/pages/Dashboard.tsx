@@ -1,15 +1,21 @@
 import { useEffect, useState, useMemo } from "react";
-import { useScenarios, useLoadScenario, useSimulationState, useOrchestrate, useClearLogs, useClearChat } from "@/hooks/use-simulation";
+import { useScenarios, useRoutes, useLoadScenario, useSessions, useCloseSession, useSimulationState, useOrchestrate, useAdvanceSimulation, usePricingHistory, useClearLogs, useClearChat, useMarketEvents, useCompetitorFares } from "@/hooks/use-simulation";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SeatMap } from "@/components/SeatMap";
 import { AgentLogs } from "@/components/AgentLogs";
 import { BookingChat } from "@/components/BookingChat";
+import { PriceHistoryChart } from "@/components/PriceHistoryChart";
+import { PolicyEditor } from "@/components/PolicyEditor";
+import { ScenarioEditor } from "@/components/ScenarioEditor";
+import { MarketEvents } from "@/components/MarketEvents";
 import { 
   Calendar, Plane, Users, TrendingUp, Play, RefreshCw, AlertCircle, 
   Fuel, Target, CloudSun, Trophy, DollarSign, Percent, Clock, Building2, ArrowUp, ArrowDown, Minus,
-  BrainCircuit, MessageSquare, Trash2
+  BrainCircuit, MessageSquare, Trash2, FastForward, X, UserX
 } from "lucide-react";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
@@ -18,7 +24,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
-import type { DemandForecastPoint } from "@shared/schema";
+import type { DemandForecastPoint, AgentMode, InventoryMode } from "@shared/schema";
+import { AIRCRAFT, getAircraft, totalSeats as aircraftSeats, refundShare, describeRefundShare } from "@shared/aircraft";
+import { availableSeats } from "@shared/inventory";
 
 interface EnvRowProps {
   label: string;
@@ -41,19 +49,54 @@ function EnvRow({ label, value, icon, highlight }: EnvRowProps) {
 
 export default function Dashboard() {
   const { data: scenarios } = useScenarios();
-  const { data: state, isLoading } = useSimulationState();
+  const { data: routes } = useRoutes();
+  const { data: sessionList, isLoading: isLoadingSessions } = useSessions();
+  const [sessionId, setSessionId] = useState<number>();
+  const [flightId, setFlightId] = useState<number>();
+  const { data: state, isLoading: isLoadingState } = useSimulationState(sessionId, flightId);
   const { mutate: loadScenario, isPending: isLoadingScenario } = useLoadScenario();
-  const { mutate: orchestrate, isPending: isOrchestrating } = useOrchestrate();
-  const { mutate: clearLogs, isPending: isClearingLogs } = useClearLogs();
-  const { mutate: clearChat, isPending: isClearingChat } = useClearChat();
+  const { mutate: closeSession, isPending: isClosingSession } = useCloseSession();
+  const { mutate: orchestrate, isPending: isOrchestrating } = useOrchestrate(sessionId);
+  const { mutate: advance, isPending: isAdvancing } = useAdvanceSimulation(sessionId);
+  const { data: pricingHistory = [] } = usePricingHistory(sessionId, state?.flight.id);
+  const { data: competitorFares = [] } = useCompetitorFares(sessionId, state?.flight.id);
+  const { mutate: clearLogs, isPending: isClearingLogs } = useClearLogs(sessionId);
+  const { mutate: clearChat, isPending: isClearingChat } = useClearChat(sessionId);
+  const { data: marketEvents } = useMarketEvents(sessionId);
+  const isLoading = isLoadingSessions || isLoadingState;
   
   const [selectedScenarioId, setSelectedScenarioId] = useState<string>("");
+  const [agentMode, setAgentMode] = useState<AgentMode>("llm");
+  const [inventoryMode, setInventoryMode] = useState<InventoryMode>("partitioned");
+  const [competitorSource, setCompetitorSource] = useState<"simulated" | "feed">("simulated");
+  const [selectedRoutes, setSelectedRoutes] = useState<string[]>(["BLR-DXB"]);
+  // Aircraft overrides per route code; routes not listed fly their default type
+  const [selectedAircraft, setSelectedAircraft] = useState<Record<string, string>>({});
 
   // Get the selected scenario object for preview
   const selectedScenario = useMemo(() => {
     return scenarios?.find(s => s.id === selectedScenarioId);
   }, [scenarios, selectedScenarioId]);
 
+  // Follow the newest session until one is picked, and move off a session once it's closed
+  useEffect(() => {
+    if (!sessionList) return;
+    if (sessionId === undefined || !sessionList.some(s => s.id === sessionId)) {
+      setSessionId(sessionList[0]?.id);
+    }
+  }, [sessionList, sessionId]);
+
+  // Each session has its own flights; start from the first one
+  useEffect(() => {
+    setFlightId(undefined);
+  }, [sessionId]);
+
+  const toggleRoute = (code: string, checked: boolean) => {
+    setSelectedRoutes(current => checked ? [...current, code] : current.filter(c => c !== code));
+  };
+
+  const scenarioName = (scenarioId: string) => scenarios?.find(s => s.id === scenarioId)?.name ?? scenarioId;
+
   useEffect(() => {
     if (scenarios && scenarios.length > 0 && !selectedScenarioId) {
       setSelectedScenarioId(scenarios[0].id);
@@ -77,13 +120,16 @@ export default function Dashboard() {
   const currentDate = state?.session.currentDate ? new Date(state.session.currentDate) : new Date();
   const daysUntilDeparture = Math.ceil((departureDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
   
-  // Get current scenario from loaded session
-  const currentScenario = scenarios?.find(s => s.id === state?.session.scenarioId);
+  // Environment as of the session's simulated clock
+  const environment = state?.environment;
+  const hasDeparted = !!environment && environment.daysToDeparture <= 0;
   
   // Calculate sold seats
   const totalSold = state?.buckets.reduce((acc, b) => acc + (b.sold || 0), 0) || 0;
-  const totalSeats = 192;
-  const loadFactor = ((totalSold / totalSeats) * 100).toFixed(1);
+  const aircraft = state ? getAircraft(state.flight.aircraft) : undefined;
+  const totalSeats = aircraft ? aircraftSeats(aircraft) : state?.buckets.reduce((acc, b) => acc + b.allocated, 0) || 0;
+  const loadFactor = (totalSeats > 0 ? (totalSold / totalSeats) * 100 : 0).toFixed(1);
+  const bucketAvailability = state ? availableSeats(state.buckets, state.session.inventoryMode) : {};
 
   return (
     <div className="h-screen bg-background text-foreground flex flex-col font-sans overflow-hidden">
@@ -96,7 +142,9 @@ export default function Dashboard() {
             </div>
             <div>
               <h1 className="font-display font-bold text-lg leading-tight">Agentic Dynamic Pricing</h1>
-              <p className="text-xs text-muted-foreground font-mono">INDIGO • BLR → DXB</p>
+              <p className="text-xs text-muted-foreground font-mono">
+                {state ? `INDIGO • ${state.flight.flightNumber} • ${state.flight.origin} → ${state.flight.destination}` : "INDIGO"}
+              </p>
             </div>
           </div>
           
@@ -107,9 +155,43 @@ export default function Dashboard() {
                 <span className="text-sm font-mono">{format(currentDate, "MMM dd, yyyy")}</span>
               </div>
             )}
-            <Badge variant="outline" className="font-mono">
-              {state ? `Session #${state.session.id}` : "No Session"}
-            </Badge>
+            {state && (
+              <Badge variant="secondary" className="font-mono" data-testid="badge-agent-mode">
+                {state.session.agentMode === 'heuristic' ? 'RULE-BASED' : 'LLM'}
+              </Badge>
+            )}
+            {state && <PolicyEditor sessionId={state.session.id} buckets={state.buckets} />}
+            {sessionList && sessionList.length > 0 ? (
+              <div className="flex items-center gap-1">
+                <Select value={sessionId?.toString() ?? ""} onValueChange={(value) => setSessionId(Number(value))}>
+                  <SelectTrigger className="h-8 w-[240px] font-mono text-xs" data-testid="select-session">
+                    <SelectValue placeholder="Select session" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sessionList.map(s => (
+                      <SelectItem key={s.id} value={s.id.toString()} className="text-xs" data-testid={`session-option-${s.id}`}>
+                        <span className="font-mono">#{s.id}</span> {scenarioName(s.scenarioId)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {sessionId !== undefined && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => closeSession(sessionId)}
+                    disabled={isClosingSession}
+                    title="Close session"
+                    data-testid="button-close-session"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Badge variant="outline" className="font-mono">No Session</Badge>
+            )}
           </div>
         </div>
       </header>
@@ -139,16 +221,83 @@ export default function Dashboard() {
                     <SelectContent>
                       {scenarios?.map(s => (
                         <SelectItem key={s.id} value={s.id} data-testid={`scenario-${s.id}`}>
-                          {s.name}
+                          {s.name}{!s.builtIn && <span className="text-muted-foreground"> (custom)</span>}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+
+                  {selectedScenario && <ScenarioEditor scenario={selectedScenario} onSelect={setSelectedScenarioId} />}
+
+                  <Select value={agentMode} onValueChange={(v) => setAgentMode(v as AgentMode)}>
+                    <SelectTrigger data-testid="select-agent-mode">
+                      <SelectValue placeholder="Agent Mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="llm" data-testid="agent-mode-llm">LLM Agents</SelectItem>
+                      <SelectItem value="heuristic" data-testid="agent-mode-heuristic">Rule-Based Agents (Offline)</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={inventoryMode} onValueChange={(v) => setInventoryMode(v as InventoryMode)}>
+                    <SelectTrigger data-testid="select-inventory-mode">
+                      <SelectValue placeholder="Inventory" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="partitioned" data-testid="inventory-mode-partitioned">Partitioned Buckets</SelectItem>
+                      <SelectItem value="nested" data-testid="inventory-mode-nested">Nested Inventory (EMSR-b)</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={competitorSource} onValueChange={(v) => setCompetitorSource(v as "simulated" | "feed")}>
+                    <SelectTrigger data-testid="select-competitor-source">
+                      <SelectValue placeholder="Competitor Fares" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="simulated" data-testid="competitor-source-simulated">Simulated Competitor Fares</SelectItem>
+                      <SelectItem value="feed" data-testid="competitor-source-feed">Imported Fare Feed</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {routes && (
+                    <div className="space-y-1.5 rounded-md border p-2" data-testid="route-picker">
+                      <div className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">Flights</div>
+                      {routes.map(route => (
+                        <div key={route.code} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`route-${route.code}`}
+                            checked={selectedRoutes.includes(route.code)}
+                            onCheckedChange={(checked) => toggleRoute(route.code, checked === true)}
+                            data-testid={`checkbox-route-${route.code}`}
+                          />
+                          <Label htmlFor={`route-${route.code}`} className="text-xs font-normal flex-1 flex justify-between">
+                            <span>{route.origin} → {route.destination}</span>
+                            <span className="font-mono text-muted-foreground">{route.flightNumber} • {route.departureTime}</span>
+                          </Label>
+                          <Select
+                            value={selectedAircraft[route.code] ?? route.aircraft}
+                            onValueChange={(code) => setSelectedAircraft(a => ({ ...a, [route.code]: code }))}
+                          >
+                            <SelectTrigger className="h-6 w-[88px] text-[10px] font-mono px-2" data-testid={`select-aircraft-${route.code}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {AIRCRAFT.map(a => (
+                                <SelectItem key={a.code} value={a.code} className="text-xs">
+                                  {a.code} ({aircraftSeats(a)})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   
                   <Button 
                     className="w-full" 
-                    onClick={() => loadScenario(selectedScenarioId)} 
-                    disabled={!selectedScenarioId || isLoadingScenario}
+                    onClick={() => loadScenario({ scenarioId: selectedScenarioId, agentMode, inventoryMode, routes: selectedRoutes, aircraft: selectedAircraft, competitorFeed: competitorSource === "feed" ? {} : undefined }, { onSuccess: (session) => setSessionId(session.id) })} 
+                    disabled={!selectedScenarioId || selectedRoutes.length === 0 || isLoadingScenario}
                     data-testid="button-load-scenario"
                   >
                     {isLoadingScenario ? (
@@ -254,15 +403,39 @@ export default function Dashboard() {
             <div className="flex h-full flex-col overflow-hidden">
             <ScrollArea className="h-full">
               <div className="flex flex-col gap-4 p-4">
+            {/* Flight Selector */}
+            {state && state.flights.length > 1 && (
+              <div className="flex gap-2" data-testid="flight-selector">
+                {state.flights.map(f => (
+                  <Button
+                    key={f.id}
+                    size="sm"
+                    variant={f.id === state.flight.id ? "default" : "outline"}
+                    className="flex-1 font-mono text-xs"
+                    onClick={() => setFlightId(f.id)}
+                    data-testid={`button-flight-${f.id}`}
+                  >
+                    <Plane className="w-3 h-3 mr-1.5" />
+                    {f.flightNumber} {f.origin} → {f.destination}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             {/* Live Stats Bar */}
             {state && (
               <div className="grid grid-cols-4 gap-3">
                 <Card className={`p-3 transition-all duration-300 ${isOrchestrating ? 'ring-2 ring-primary/50 animate-pulse' : ''}`} data-testid="stat-revenue">
                   <div className="text-xs text-muted-foreground flex items-center gap-1">
                     <DollarSign className="w-3 h-3" />
-                    Revenue
+                    {state.flights.length > 1 ? "Network Revenue" : "Revenue"}
                   </div>
                   <div className="text-lg font-bold text-primary">₹{totalRevenue.toLocaleString()}</div>
+                  {!!state.session.ancillaryRevenue && (
+                    <div className="text-[10px] text-muted-foreground" data-testid="text-ancillary-revenue">
+                      + ₹{state.session.ancillaryRevenue.toLocaleString()} seat fees
+                    </div>
+                  )}
                 </Card>
                 <Card className={`p-3 transition-all duration-300 ${isOrchestrating ? 'ring-2 ring-primary/50 animate-pulse' : ''}`} data-testid="stat-load-factor">
                   <div className="text-xs text-muted-foreground flex items-center gap-1">
@@ -289,7 +462,7 @@ export default function Dashboard() {
             )}
 
             {/* Demand Forecast Chart */}
-            {state && currentScenario && currentScenario.environment.demandForecast && (
+            {state && environment && environment.demandForecast && (
               <Card>
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm font-medium flex items-center gap-2">
@@ -297,14 +470,14 @@ export default function Dashboard() {
                     Demand Forecast vs Actual
                   </CardTitle>
                   <CardDescription className="text-xs">
-                    60-day booking window • Day {currentScenario.environment.daysElapsed} of 60
+                    {environment.bookingWindow}-day booking window • Day {environment.daysElapsed} of {environment.bookingWindow}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   {(() => {
-                    const forecast = currentScenario.environment.demandForecast;
-                    const daysElapsed = currentScenario.environment.daysElapsed;
-                    const expectedToday = currentScenario.environment.expectedOccupancyToday;
+                    const forecast = environment.demandForecast;
+                    const daysElapsed = environment.daysElapsed;
+                    const expectedToday = environment.expectedOccupancyToday;
                     const actualOccupancy = parseFloat(loadFactor);
                     const diff = actualOccupancy - expectedToday;
                     const status = diff < -5 ? "below" : diff > 5 ? "above" : "on-track";
@@ -390,6 +563,15 @@ export default function Dashboard() {
                                 strokeDasharray="3 3" 
                                 label={{ value: 'Today', fontSize: 10, fill: 'hsl(var(--primary))' }}
                               />
+                              {marketEvents?.map(event => (
+                                <ReferenceLine
+                                  key={event.id}
+                                  x={event.day}
+                                  stroke="hsl(var(--chart-alert))"
+                                  strokeDasharray="2 4"
+                                  label={{ value: event.title, fontSize: 9, fill: 'hsl(var(--muted-foreground))', position: 'insideTopLeft' }}
+                                />
+                              ))}
                               <Area 
                                 type="monotone" 
                                 dataKey="forecast" 
@@ -407,15 +589,42 @@ export default function Dashboard() {
               </Card>
             )}
 
+            {/* Market Events */}
+            {state && environment && <MarketEvents sessionId={state.session.id} environment={environment} />}
+
+            {/* Price History Chart */}
+            {state && environment && (
+              <PriceHistoryChart
+                history={pricingHistory}
+                buckets={state.buckets}
+                competitors={environment.competitors}
+                competitorFares={competitorFares}
+              />
+            )}
+
             {/* Seat Map */}
-            <SeatMap buckets={state?.buckets || []} />
+            {state && aircraft && (
+              <SeatMap
+                sessionId={state.session.id}
+                flightId={state.flight.id}
+                aircraft={aircraft}
+                buckets={state.buckets}
+                seats={state.seats}
+                inventoryMode={state.session.inventoryMode}
+              />
+            )}
             
             {/* Bucket Pricing Table */}
             {state && (
               <Card>
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
-                    <CardTitle className="text-sm font-medium">Fare Buckets</CardTitle>
+                    <CardTitle className="text-sm font-medium flex items-center gap-2">
+                      Fare Buckets
+                      {state.session.inventoryMode === 'nested' && (
+                        <Badge variant="outline" className="text-[10px]" data-testid="badge-nested-inventory">NESTED</Badge>
+                      )}
+                    </CardTitle>
                     <div className="flex gap-3 text-xs text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <span className="w-2 h-2 rounded-full bg-amber-500" />
@@ -432,8 +641,8 @@ export default function Dashboard() {
                   <div className="space-y-2">
                     {state.buckets.map(bucket => {
                       const sold = bucket.sold || 0;
-                      const available = bucket.allocated - sold;
-                      const fillRate = (sold / bucket.allocated) * 100;
+                      const available = bucketAvailability[bucket.code] ?? 0;
+                      const fillRate = Math.min(100, (sold / bucket.allocated) * 100);
                       const priceChange = bucket.basePrice ? ((bucket.price - bucket.basePrice) / bucket.basePrice) * 100 : 0;
                       const isBusiness = bucket.class === 'BUSINESS';
                       
@@ -478,7 +687,7 @@ export default function Dashboard() {
                                 )}
                               </div>
                               <div className="text-[10px] text-muted-foreground">
-                                Base: ₹{bucket.basePrice?.toLocaleString()}
+                                Base: ₹{bucket.basePrice?.toLocaleString()} • {describeRefundShare(refundShare(state.flight.aircraft, bucket.code))}
                               </div>
                             </div>
                             
@@ -496,6 +705,21 @@ export default function Dashboard() {
                                   {available} left
                                 </span>
                               </div>
+                              {!!bucket.held && (
+                                <div className="text-[10px] text-muted-foreground" data-testid={`text-held-${bucket.code}`}>
+                                  {bucket.held} held by quotes
+                                </div>
+                              )}
+                              {!!bucket.overbooking && (
+                                <div className="text-[10px] text-orange-600 dark:text-orange-400" data-testid={`text-overbooking-${bucket.code}`}>
+                                  +{bucket.overbooking} overbooking
+                                </div>
+                              )}
+                              {bucket.protectionLevel !== null && state.session.inventoryMode === 'nested' && (
+                                <div className="text-[10px] text-muted-foreground" data-testid={`text-protection-${bucket.code}`}>
+                                  Protects {bucket.protectionLevel} for this fare and above
+                                </div>
+                              )}
                               <div className="mt-1.5 w-24 h-1.5 rounded-full bg-muted overflow-hidden">
                                 <div 
                                   className={`h-full rounded-full transition-all ${
@@ -518,13 +742,50 @@ export default function Dashboard() {
               </Card>
             )}
 
+            {/* Overbooking: authorized vs physical capacity per cabin */}
+            {state && state.overbooking.length > 0 && (
+              <Card data-testid="card-overbooking">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <UserX className="w-4 h-4 text-orange-500" />
+                    Overbooking
+                  </CardTitle>
+                  <CardDescription className="text-xs">
+                    {(state.overbooking[0].noShowRate * 100).toFixed(1)}% expected no-shows
+                    {hasDeparted && state.flight.noShows !== null && (
+                      <> • Departed: {state.flight.noShows} no-shows, {state.flight.deniedBoardings ?? 0} denied boardings</>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-2">
+                  {state.overbooking.map(cabin => (
+                    <div key={cabin.cabin} className="flex items-center justify-between rounded-lg border p-2 text-xs" data-testid={`overbooking-${cabin.cabin.toLowerCase()}`}>
+                      <div>
+                        <div className="font-semibold uppercase tracking-wide">{cabin.cabin}</div>
+                        <div className="text-muted-foreground">
+                          {cabin.authorized} authorized / {cabin.capacity} seats
+                          {cabin.authorized > cabin.capacity && (
+                            <span className="text-orange-600 dark:text-orange-400"> (+{cabin.authorized - cabin.capacity})</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-right text-muted-foreground">
+                        <div>{cabin.expectedDeniedBoardings.toFixed(2)} expected denied boardings</div>
+                        <div>{cabin.expectedSpoilage.toFixed(2)} expected empty seats</div>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Run Agent Button */}
             {state && (
               <Button 
                 size="lg" 
                 className="w-full bg-primary hover:bg-primary/90 shadow-lg shadow-primary/25"
                 onClick={() => orchestrate()}
-                disabled={isOrchestrating}
+                disabled={isOrchestrating || isAdvancing}
                 data-testid="button-run-agents"
               >
                 {isOrchestrating ? (
@@ -541,6 +802,28 @@ export default function Dashboard() {
               </Button>
             )}
 
+            {/* Simulated Clock Controls */}
+            {state && (
+              <div className="grid grid-cols-2 gap-3">
+                {[1, 7].map(days => (
+                  <Button
+                    key={days}
+                    variant="outline"
+                    onClick={() => advance(days)}
+                    disabled={isAdvancing || isOrchestrating || hasDeparted}
+                    data-testid={`button-advance-${days}`}
+                  >
+                    {isAdvancing ? (
+                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <FastForward className="w-4 h-4 mr-2" />
+                    )}
+                    {hasDeparted ? "Departed" : `Advance ${days} Day${days > 1 ? 's' : ''}`}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             {!state && (
               <Card className="flex-1 flex items-center justify-center">
                 <div className="text-center p-8">
@@ -605,7 +888,7 @@ export default function Dashboard() {
                     </Button>
                   </div>
                   <div className="flex-1 overflow-hidden">
-                    <BookingChat />
+                    <BookingChat sessionId={sessionId} />
                   </div>
                 </div>
               </TabsContent>
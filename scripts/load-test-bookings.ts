@@ -0,0 +1,132 @@
+import { api, buildUrl } from '../shared/routes';
+import { availableSeats } from '../shared/inventory';
+import type { Booking, Bucket, Session } from '../shared/schema';
+
+// Fires concurrent bookings at a running server (npm run dev against a local Postgres) and
+// checks that none were lost or oversold:
+//   - every confirmed seat shows up in the bucket's sold count and the session's revenue
+//   - no bucket sells past its allocation plus overbooking allowance
+//   - no seat is given to two bookings
+//   - concurrent requests sharing an Idempotency-Key create one booking
+//
+// Usage: BASE_URL=http://localhost:5000 REQUESTS=60 npx tsx scripts/load-test-bookings.ts
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:5000';
+const REQUESTS = parseInt(process.env.REQUESTS || '60', 10);
+const SCENARIO = process.env.SCENARIO || 'ipl-season';
+const INVENTORY_MODE = process.env.INVENTORY_MODE || 'partitioned';
+const DUPLICATES = 10;
+
+interface BookResult {
+  status: number;
+  body: { booking?: Booking; seats?: string[]; message?: string };
+}
+
+async function request<T>(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<{ status: number; body: T }> {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() as T };
+}
+
+async function getState(sessionId: number) {
+  const { body } = await request<{ session: Session; flight: { id: number }; buckets: Bucket[] }>('GET', buildUrl(api.sessions.state.path, { id: sessionId }));
+  return body;
+}
+
+async function book(sessionId: number, flightId: number, bucketCode: string, idempotencyKey?: string): Promise<BookResult> {
+  return request('POST', buildUrl(api.sessions.book.path, { id: sessionId }),
+    { flightId, bucketCode, quantity: 1, passengerName: 'Load Test' },
+    idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {});
+}
+
+async function main() {
+  const failures: string[] = [];
+  const check = (ok: boolean, message: string) => {
+    console.log(`${ok ? 'PASS' : 'FAIL'}  ${message}`);
+    if (!ok) failures.push(message);
+  };
+
+  const { status, body: session } = await request<Session>('POST', api.scenarios.load.path, {
+    scenarioId: SCENARIO, agentMode: 'heuristic', inventoryMode: INVENTORY_MODE,
+  });
+  if (status !== 201) throw new Error(`Failed to load scenario ${SCENARIO}: ${JSON.stringify(session)}`);
+
+  const before = await getState(session.id);
+  const flightId = before.flight.id;
+  const available = availableSeats(before.buckets, before.session.inventoryMode);
+  // The cheapest economy bucket, so requests outnumber its seats
+  const target = before.buckets.filter(b => b.class === 'ECONOMY').sort((a, b) => a.price - b.price)[0];
+  console.log(`Session ${session.id}: ${REQUESTS} concurrent bookings into ${target.code} (${available[target.code]} available)`);
+
+  // === Concurrent bookings ===
+  const results = await Promise.all(Array.from({ length: REQUESTS }, () => book(session.id, flightId, target.code)));
+  const confirmed = results.filter(r => r.status === 200);
+  const unexpected = results.filter(r => r.status !== 200 && r.status !== 400);
+  console.log(`${confirmed.length} confirmed, ${results.length - confirmed.length - unexpected.length} rejected, ${unexpected.length} errors`);
+
+  const after = await getState(session.id);
+  const targetAfter = after.buckets.find(b => b.id === target.id)!;
+  const fares = confirmed.reduce((sum, r) => sum + (r.body.booking?.totalFare ?? 0), 0);
+  const seatFees = confirmed.reduce((sum, r) => sum + (r.body.booking?.seatFees ?? 0), 0);
+
+  check(unexpected.length === 0, `no server errors (${unexpected.map(r => r.status).join(', ') || 'none'})`);
+  check((targetAfter.sold || 0) - (target.sold || 0) === confirmed.length,
+    `${target.code} sold went up by the ${confirmed.length} confirmed seats (${target.sold} -> ${targetAfter.sold})`);
+  check(Math.abs((after.session.totalRevenue || 0) - (before.session.totalRevenue || 0) - fares) < 0.01,
+    `session revenue went up by the confirmed fares (₹${fares.toLocaleString()})`);
+  check(Math.abs((after.session.ancillaryRevenue || 0) - (before.session.ancillaryRevenue || 0) - seatFees) < 0.01,
+    `ancillary revenue went up by the confirmed seat fees`);
+  for (const cabin of ['BUSINESS', 'ECONOMY']) {
+    const cabinBuckets = after.buckets.filter(b => b.class === cabin);
+    const sold = cabinBuckets.reduce((sum, b) => sum + (b.sold || 0), 0);
+    const authorized = cabinBuckets.reduce((sum, b) => sum + b.allocated + (b.overbooking || 0), 0);
+    check(sold <= authorized, `${cabin} sold ${sold} of ${authorized} authorized`);
+  }
+  if (after.session.inventoryMode === 'partitioned') {
+    const oversold = after.buckets.filter(b => (b.sold || 0) > b.allocated + (b.overbooking || 0));
+    check(oversold.length === 0, `no bucket sold past its allocation (${oversold.map(b => b.code).join(', ') || 'none'})`);
+  }
+  const seats = confirmed.flatMap(r => r.body.seats ?? []);
+  check(new Set(seats).size === seats.length, `${seats.length} seats assigned, none twice`);
+
+  const { body: bookings } = await request<Booking[]>('GET', `${buildUrl(api.sessions.bookings.path, { id: session.id })}?flightId=${flightId}`);
+  const references = new Set(confirmed.map(r => r.body.booking?.referenceCode));
+  check(bookings.filter(b => references.has(b.referenceCode)).length === confirmed.length,
+    `every confirmed booking has a record with a unique reference`);
+
+  // === Duplicate requests with one Idempotency-Key ===
+  const key = `load-test-${session.id}-${Date.now()}`;
+  const availableAfter = availableSeats(after.buckets, after.session.inventoryMode);
+  const bucket = after.buckets.filter(b => b.class === 'ECONOMY').sort((a, b) => availableAfter[b.code] - availableAfter[a.code])[0];
+  const duplicates = await Promise.all(Array.from({ length: DUPLICATES }, () => book(session.id, flightId, bucket.code, key)));
+  const replay = await book(session.id, flightId, bucket.code, key);
+  const duplicateReferences = new Set(
+    [...duplicates, replay].filter(r => r.status === 200).map(r => r.body.booking?.referenceCode)
+  );
+  const { body: bookingsAfter } = await request<Booking[]>('GET', `${buildUrl(api.sessions.bookings.path, { id: session.id })}?flightId=${flightId}`);
+
+  check(duplicates.every(r => r.status === 200 || r.status === 409),
+    `${DUPLICATES} concurrent requests with one key: ${duplicates.filter(r => r.status === 200).length} answered, ${duplicates.filter(r => r.status === 409).length} told to retry`);
+  check(replay.status === 200 && duplicateReferences.size === 1, `a retry replays the same booking (${Array.from(duplicateReferences).join(', ')})`);
+  check(bookingsAfter.length === bookings.length + 1, `the key created exactly one booking`);
+
+  const { status: mismatch } = await request('POST', buildUrl(api.sessions.book.path, { id: session.id }),
+    { flightId, bucketCode: bucket.code, quantity: 2 }, { 'Idempotency-Key': key });
+  check(mismatch === 422, `reusing the key for a different request is rejected (${mismatch})`);
+
+  await request('POST', buildUrl(api.sessions.close.path, { id: session.id }));
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll checks passed');
+}
+
+main().catch(error => {
+  console.error('Load test failed:', error);
+  process.exit(1);
+});
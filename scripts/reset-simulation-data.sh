@@ -0,0 +1,37 @@
+#!/bin/bash
+
+# Clears simulation data saved before sessions had flights, so `npm run db:push` can add
+# the new flight_id, cause and simulated_date columns. Those columns are NOT NULL and can't
+# be backfilled: old sessions have no flights, seats or price history causes to derive
+# them from. Run it before `npm run db:push` when upgrading; on an up-to-date (or empty)
+# database it changes nothing.
+
+set -e
+
+if [ -z "$DATABASE_URL" ]; then
+    echo "DATABASE_URL is not set. Add it to your .env file or export it first."
+    exit 1
+fi
+
+echo "=== Agentic Dynamic Pricing Platform - Reset Pre-Network Simulation Data ==="
+echo ""
+
+psql "$DATABASE_URL" -v ON_ERROR_STOP=1 <<'EOF'
+DO $$
+BEGIN
+    -- Buckets without flight_id mean the schema predates flights
+    IF EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'buckets')
+       AND NOT EXISTS (SELECT FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'buckets' AND column_name = 'flight_id') THEN
+        TRUNCATE sessions, buckets, reasoning_logs, pricing_history, session_chat_messages, bookings RESTART IDENTITY;
+        RAISE NOTICE 'Cleared sessions saved before flights were added.';
+    ELSE
+        RAISE NOTICE 'No pre-network simulation data found; nothing to clear.';
+    END IF;
+END
+$$;
+EOF
+
+echo ""
+echo "Now run:"
+echo "  npm run db:push"
+echo ""
@@ -0,0 +1,92 @@
+import type {
+  ScenarioEnvironment,
+  Bucket,
+  OrchestratorPlan,
+  SubAgentResult,
+  SubAgentType,
+  AgentTask,
+  AgentMode,
+  InventoryMode,
+  PricingPolicy,
+  CompetitorFare
+} from "@shared/schema";
+import { placeOverbooking, type CabinOverbooking, type OverbookingAllowance } from "../overbooking";
+
+export interface BookingContext {
+  requestedPassengers: number;
+  preferredClass?: string;
+  targetBucketCode?: string;
+}
+
+// Everything a backend may read when producing a plan or a sub-agent decision
+export interface AgentContext {
+  environment: ScenarioEnvironment;
+  buckets: Bucket[];
+  bookingContext?: BookingContext;
+  policy: PricingPolicy; // Guardrails the proposed fares will be held to
+  inventoryMode: InventoryMode; // Nested: the seat allocation agent sets protection levels instead of moving seats
+  competitorFares: CompetitorFare[]; // Each competitor's latest fare change; environment.competitors holds the current fares
+  results: Map<SubAgentType, SubAgentResult>; // Outputs of sub-agents that already ran
+}
+
+// Produces the orchestrator's plan and each sub-agent's decision.
+// The OrchestratorAgent owns scheduling, the A2A trace and logging.
+export interface AgentBackend {
+  readonly mode: AgentMode;
+  generatePlan(context: AgentContext): Promise<OrchestratorPlan>;
+  runObjectiveAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult>;
+  runForecastAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult>;
+  runPricingAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult>;
+  runSeatAllocationAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult>;
+  runCompetitorAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult>;
+  runOverbookingAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult>;
+}
+
+// The Overbooking Agent's authorized capacity as per-bucket allowances for the seat allocation
+// step, on the group's bucket when one is given; empty when the agent didn't run
+export function overbookingAllowances(context: AgentContext, groupBucketCode?: string): OverbookingAllowance[] {
+  const cabins = (context.results.get('overbooking')?.output as { authorizedCapacity?: CabinOverbooking[] } | undefined)?.authorizedCapacity;
+  return cabins && cabins.length > 0 ? placeOverbooking(context.buckets, cabins, groupBucketCode) : [];
+}
+
+// Competitor fare changes made on the environment's current day, other than opening fares
+// and drift back to base
+export function todaysCompetitorMoves(context: AgentContext): CompetitorFare[] {
+  return context.competitorFares.filter(f =>
+    f.simulatedDate.toISOString().split('T')[0] === context.environment.currentDate &&
+    f.previousFare !== null && f.cause !== 'INITIAL' && f.cause !== 'DRIFT'
+  );
+}
+
+export function generatePlanId(): string {
+  return `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function getCurrentOccupancy(buckets: Bucket[]): number {
+  const allocated = buckets.reduce((sum, b) => sum + b.allocated, 0);
+  return allocated > 0 ? buckets.reduce((sum, b) => sum + (b.sold || 0), 0) / allocated : 0;
+}
+
+// Standard task list: objective and competitor in parallel → forecast → pricing and overbooking
+// → seat allocation
+export function getStandardTasks(): AgentTask[] {
+  return [
+    { agentType: 'objective', priority: 1, reason: "Set pricing strategy", dependsOn: [], inputContext: ["environment"] },
+    { agentType: 'forecast', priority: 2, reason: "Analyze demand", dependsOn: ['objective'], inputContext: ["environment", "objective"] },
+    { agentType: 'competitor', priority: 2, reason: "Check competition", dependsOn: [], inputContext: ["environment"] },
+    { agentType: 'pricing', priority: 3, reason: "Calculate prices", dependsOn: ['objective', 'forecast', 'competitor'], inputContext: ["objective", "forecast", "competitor"] },
+    { agentType: 'overbooking', priority: 3, reason: "Set authorized capacity", dependsOn: ['forecast'], inputContext: ["forecast", "buckets"] },
+    { agentType: 'seat_allocation', priority: 4, reason: "Adjust allocation", dependsOn: ['pricing', 'overbooking'], inputContext: ["pricing", "overbooking", "buckets"] }
+  ];
+}
+
+export function getDefaultPlan(): OrchestratorPlan {
+  return {
+    planId: generatePlanId(),
+    objective: "Standard pricing optimization",
+    strategy: "BALANCED",
+    reasoning: "Fallback plan due to planning error - executing all agents in standard order",
+    estimatedImpact: "Standard pricing adjustments",
+    tasks: getStandardTasks()
+  };
+}
@@ -0,0 +1,392 @@
+import type {
+  Bucket,
+  OrchestratorPlan,
+  SubAgentResult,
+  AgentTask,
+  AgentMode,
+  InventoryMode
+} from "@shared/schema";
+import { availableSeats } from "@shared/inventory";
+import { type AgentBackend, type AgentContext, generatePlanId, getCurrentOccupancy, getStandardTasks, overbookingAllowances, todaysCompetitorMoves } from "./backend";
+import { priceBuckets, averageMultiplier } from "./pricing";
+import { protectionLevels, forecastFareClassDemand, accommodateGroup, describeProtectionLevels } from "../inventory";
+import { planOverbooking, currentAuthorized, describeOverbooking, type OverbookingAllowance } from "../overbooking";
+
+// Deterministic rule-based sub-agents. Given the same environment and buckets
+// every agent returns the same decision, so runs are reproducible and need no API key.
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function finalForecastOccupancy(context: AgentContext): number {
+  const forecast = context.environment.demandForecast;
+  return forecast.length > 0 ? forecast[forecast.length - 1].expectedOccupancy : context.environment.occupancyTarget;
+}
+
+function marketEconomyPrice(context: AgentContext): number {
+  const prices = context.environment.competitors.map(c => c.basePrice);
+  return prices.length > 0 ? prices.reduce((sum, p) => sum + p, 0) / prices.length : 0;
+}
+
+function averageEconomyPrice(buckets: Bucket[]): number {
+  const economy = buckets.filter(b => b.class === 'ECONOMY');
+  return economy.length > 0 ? economy.reduce((sum, b) => sum + b.price, 0) / economy.length : 0;
+}
+
+// Occupancy vs forecast, in percentage points
+function occupancyGap(context: AgentContext): number {
+  return getCurrentOccupancy(context.buckets) * 100 - context.environment.expectedOccupancyToday;
+}
+
+// e.g. " Overbooking allowance: ECO_4 +10."
+function describeAllowances(allowances: OverbookingAllowance[]): string {
+  const placed = allowances.filter(a => a.seats > 0);
+  return placed.length > 0 ? ` Overbooking allowance: ${placed.map(a => `${a.bucketCode} +${a.seats}`).join(', ')}.` : '';
+}
+
+function urgencyLevel(daysToDeparture: number): 'HIGH' | 'MEDIUM' | 'LOW' {
+  return daysToDeparture <= 7 ? 'HIGH' : daysToDeparture <= 21 ? 'MEDIUM' : 'LOW';
+}
+
+// Pickup forecast: remaining bookings follow the forecast curve, scaled by how
+// far ahead of or behind the curve the flight is today.
+export function pickupForecast(context: AgentContext) {
+  const env = context.environment;
+  const totalSeats = context.buckets.reduce((sum, b) => sum + b.allocated, 0);
+  const soldSeats = context.buckets.reduce((sum, b) => sum + (b.sold || 0), 0);
+  const currentPct = totalSeats > 0 ? (soldSeats / totalSeats) * 100 : 0;
+  const expectedPct = env.expectedOccupancyToday;
+  const paceRatio = expectedPct > 0 ? clamp(currentPct / expectedPct, 0.25, 2) : 1;
+  const remainingPickupPct = Math.max(0, finalForecastOccupancy(context) - expectedPct) * paceRatio;
+  const projectedLoadFactor = clamp(currentPct + remainingPickupPct, 0, 100);
+  const remainingDemand = Math.round((remainingPickupPct / 100) * totalSeats);
+  return { paceRatio, projectedLoadFactor, remainingDemand, remainingCapacity: totalSeats - soldSeats };
+}
+
+// EMSR-style bid price: split the remaining demand across the open fare classes
+// (cheaper classes attract proportionally more of it), then walk the ladder from the
+// top fare down. The bid price is the fare of the class at which cumulative demand
+// from higher classes fills the remaining cabin.
+export function bidPrice(buckets: Bucket[], remainingDemand: number, mode: InventoryMode = 'partitioned'): number {
+  const available = availableSeats(buckets, mode);
+  const open = buckets.filter(b => available[b.code] > 0).sort((a, b) => b.basePrice - a.basePrice);
+  const capacity = Math.max(0, buckets.reduce((sum, b) => sum + b.allocated - (b.sold || 0), 0));
+  if (open.length === 0 || capacity === 0) return 0;
+
+  const attraction = open.reduce((sum, b) => sum + 1 / b.basePrice, 0);
+  let cumulativeDemand = 0;
+  for (const bucket of open) {
+    cumulativeDemand += remainingDemand * ((1 / bucket.basePrice) / attraction);
+    if (cumulativeDemand >= capacity) return bucket.basePrice;
+  }
+  // Demand never fills the cabin: the marginal seat is worth a fraction of the lowest fare
+  const lowest = open[open.length - 1].basePrice;
+  return lowest * clamp(remainingDemand / capacity, 0.5, 1);
+}
+
+export class HeuristicAgentBackend implements AgentBackend {
+  readonly mode: AgentMode = 'heuristic';
+
+  async generatePlan(context: AgentContext): Promise<OrchestratorPlan> {
+    const env = context.environment;
+    const gap = occupancyGap(context);
+    const strategy = env.competitorAggressiveness >= 0.85 ? 'DEFENSIVE'
+      : gap < -10 ? 'AGGRESSIVE'
+      : gap > 10 ? 'CONSERVATIVE'
+      : 'BALANCED';
+
+    return {
+      planId: generatePlanId(),
+      objective: gap < -5 ? "Recover bookings to forecast" : "Protect yield while tracking forecast",
+      strategy,
+      reasoning: `Rule-based plan: occupancy is ${gap >= 0 ? '+' : ''}${gap.toFixed(1)}pts vs forecast with ${env.daysToDeparture} days to departure and competitor aggressiveness ${env.competitorAggressiveness}.`,
+      estimatedImpact: strategy === 'AGGRESSIVE' ? "Lower fares to stimulate demand"
+        : strategy === 'CONSERVATIVE' ? "Raise fares on strong pickup"
+        : strategy === 'DEFENSIVE' ? "Hold position against competitor discounting"
+        : "Incremental fare adjustments",
+      tasks: getStandardTasks()
+    };
+  }
+
+  async runObjectiveAgent(_task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const env = context.environment;
+    const gap = occupancyGap(context);
+    const market = marketEconomyPrice(context);
+    const premium = market > 0 ? averageEconomyPrice(context.buckets) / market - 1 : 0;
+
+    let objective: string;
+    let reasoning: string;
+    if (gap < -5) {
+      objective = 'OCCUPANCY_MAXIMIZATION';
+      reasoning = `Occupancy is ${Math.abs(gap).toFixed(1)}pts behind forecast; prioritise filling seats.`;
+    } else if (env.competitorAggressiveness >= 0.85 && premium > 0.05) {
+      objective = 'COMPETITIVE_MATCHING';
+      reasoning = `Competitors are aggressive (${env.competitorAggressiveness}) and our economy fares sit ${(premium * 100).toFixed(0)}% above market.`;
+    } else {
+      objective = 'REVENUE_MAXIMIZATION';
+      reasoning = `Occupancy is on or ahead of forecast (${gap >= 0 ? '+' : ''}${gap.toFixed(1)}pts); protect yield.`;
+    }
+    const confidence = Math.abs(gap) >= 10 ? 'HIGH' : Math.abs(gap) >= 5 ? 'MEDIUM' : 'LOW';
+    const urgency = urgencyLevel(env.daysToDeparture);
+
+    return {
+      agentType: 'objective',
+      success: true,
+      decision: `[${confidence}] ${objective}`,
+      reasoning,
+      output: { objective, confidence, urgency },
+      a2aMessages: []
+    };
+  }
+
+  async runForecastAgent(_task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const env = context.environment;
+    const { paceRatio, projectedLoadFactor, remainingDemand } = pickupForecast(context);
+    const demandScore = round2(clamp(0.5 * clamp(paceRatio, 0, 1.5) / 1.5 + 0.5 * env.baseDemand, 0, 1));
+    const bookingVelocity = paceRatio > 1.1 ? 'ACCELERATING' : paceRatio < 0.9 ? 'DECELERATING' : 'STEADY';
+    const peakProbability = round2(clamp(env.seasonalityIndex * (env.eventImpact ? 1.2 : 1), 0, 1));
+
+    return {
+      agentType: 'forecast',
+      success: true,
+      decision: `Demand Score: ${demandScore.toFixed(2)}`,
+      reasoning: `Booking pace is ${(paceRatio * 100).toFixed(0)}% of the forecast curve. Pickup projects ${projectedLoadFactor.toFixed(1)}% final load factor (${remainingDemand} more seats).`,
+      output: {
+        demandScore,
+        bookingVelocity,
+        peakProbability,
+        projectedLoadFactor: round2(projectedLoadFactor),
+        remainingDemand
+      },
+      a2aMessages: []
+    };
+  }
+
+  async runPricingAgent(_task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const env = context.environment;
+    const objective = (context.results.get('objective')?.output as { objective?: string })?.objective || 'REVENUE_MAXIMIZATION';
+    const forecastOutput = context.results.get('forecast')?.output as { remainingDemand?: number } | undefined;
+    const competitorOutput = context.results.get('competitor')?.output as { priceGap?: number } | undefined;
+
+    const remainingDemand = forecastOutput?.remainingDemand ?? pickupForecast(context).remainingDemand;
+    const bid = bidPrice(context.buckets, remainingDemand, context.inventoryMode);
+    const available = availableSeats(context.buckets, context.inventoryMode);
+    const openFares = context.buckets.filter(b => available[b.code] > 0).map(b => b.basePrice);
+    const lowestOpenFare = openFares.length > 0 ? Math.min(...openFares) : 0;
+
+    // Bid price above the cheapest open fare means the cheap seats are worth more than they sell for
+    const demand = lowestOpenFare > 0 ? round2(clamp(bid / lowestOpenFare - 1, -0.15, 0.15)) : 0;
+    const objectiveFactor = objective === 'REVENUE_MAXIMIZATION' ? 0.03 : objective === 'OCCUPANCY_MAXIMIZATION' ? -0.05 : 0;
+    const fuel = round2(clamp((env.fuelCostIndex - 1) * 0.25, -0.1, 0.1));
+    const priceGap = competitorOutput?.priceGap ?? 0;
+    const competitionWeight = objective === 'COMPETITIVE_MATCHING' ? 0.8 : 0.4;
+    const competition = round2(clamp(-priceGap * env.competitorAggressiveness * competitionWeight, -0.15, 0.1));
+
+    const flightMultiplier = (1 + demand) * (1 + objectiveFactor) * (1 + fuel) * (1 + competition);
+
+    // Buckets selling faster than the rest of their cabin move up, slower ones move down
+    const bucketPrices = priceBuckets(context.buckets, context.buckets.map(bucket => {
+      const cabin = context.buckets.filter(b => b.class === bucket.class);
+      const cabinSellThrough = cabin.reduce((sum, b) => sum + (b.sold || 0), 0) / Math.max(1, cabin.reduce((sum, b) => sum + b.allocated, 0));
+      const sellThrough = (bucket.sold || 0) / Math.max(1, bucket.allocated);
+      const pace = clamp((sellThrough - cabinSellThrough) * 0.2, -0.05, 0.05);
+      return {
+        bucketCode: bucket.code,
+        multiplier: round2(flightMultiplier * (1 + pace)),
+        reasoning: `${(sellThrough * 100).toFixed(0)}% sold vs ${(cabinSellThrough * 100).toFixed(0)}% cabin (${pace >= 0 ? '+' : ''}${(pace * 100).toFixed(1)}%)`
+      };
+    }));
+    const multiplier = averageMultiplier(context.buckets, bucketPrices);
+    const adjustmentType = multiplier > 1.01 ? 'INCREASE' : multiplier < 0.99 ? 'DECREASE' : 'HOLD';
+
+    return {
+      agentType: 'pricing',
+      success: true,
+      decision: `${objective} | Multiplier: ${multiplier.toFixed(2)}x`,
+      reasoning: `Bid price ₹${Math.round(bid).toLocaleString()} vs lowest open fare ₹${lowestOpenFare.toLocaleString()} for ${remainingDemand} expected bookings. Fuel index ${env.fuelCostIndex}, competitor gap ${(priceGap * 100).toFixed(0)}%. Flight-wide ${flightMultiplier.toFixed(2)}x, adjusted per bucket by sell-through.`,
+      output: {
+        multiplier,
+        adjustmentType,
+        bidPrice: Math.round(bid),
+        breakdownFactors: { objective: objectiveFactor, demand, fuel, competition },
+        bucketPrices
+      },
+      a2aMessages: []
+    };
+  }
+
+  async runSeatAllocationAgent(_task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    if (context.inventoryMode === 'nested') return this.setProtectionLevels(context);
+
+    const objective = (context.results.get('objective')?.output as { objective?: string })?.objective;
+    const velocity = (context.results.get('forecast')?.output as { bookingVelocity?: string })?.bookingVelocity;
+    const available = (b: Bucket) => b.allocated - (b.sold || 0);
+    let overbooking = overbookingAllowances(context);
+    // What a bucket can sell including its overbooking allowance
+    const sellable = (b: Bucket) => available(b) + (overbooking.find(a => a.bucketCode === b.code)?.seats ?? 0);
+    const suggestedChanges: Array<{ bucketCode: string; change: number }> = [];
+    let action = 'HOLD';
+    let reasoning = "Allocation matches current demand; no changes.";
+    let groupBookingAccommodated: boolean | undefined;
+
+    const booking = context.bookingContext;
+    if (booking) {
+      const cabin = (booking.preferredClass || 'ECONOMY').toUpperCase();
+      const inCabin = context.buckets.filter(b => b.class === cabin).sort((a, b) => available(b) - available(a));
+      const target = context.buckets.find(b => b.code === booking.targetBucketCode) || inCabin[0];
+      if (target) overbooking = overbookingAllowances(context, target.code);
+      let shortage = target ? booking.requestedPassengers - sellable(target) : 0;
+
+      if (target && shortage > 0) {
+        // Pull unsold seats from the other buckets in the cabin, most available first
+        for (const donor of inCabin.filter(b => b.code !== target.code)) {
+          const give = Math.min(shortage, available(donor));
+          if (give <= 0) continue;
+          suggestedChanges.push({ bucketCode: donor.code, change: -give });
+          shortage -= give;
+          if (shortage === 0) break;
+        }
+        const moved = -suggestedChanges.reduce((sum, c) => sum + c.change, 0);
+        if (moved > 0) suggestedChanges.push({ bucketCode: target.code, change: moved });
+        action = 'REALLOCATE_UP';
+        reasoning = `Moved ${moved} seats into ${target.code} for a group of ${booking.requestedPassengers}.`;
+      } else if (target) {
+        reasoning = `${target.code} already has ${sellable(target)} seats for a group of ${booking.requestedPassengers}.`;
+      }
+      groupBookingAccommodated = shortage <= 0;
+    } else {
+      for (const cabin of ['ECONOMY', 'BUSINESS']) {
+        const ladder = context.buckets.filter(b => b.class === cabin).sort((a, b) => a.basePrice - b.basePrice);
+        if (ladder.length < 2) continue;
+        const lowest = ladder[0];
+        const highest = ladder[ladder.length - 1];
+
+        if (objective === 'OCCUPANCY_MAXIMIZATION' && available(lowest) === 0 && available(highest) > 0) {
+          // Open more cheap seats when we need volume
+          const move = Math.min(4, available(highest));
+          suggestedChanges.push({ bucketCode: highest.code, change: -move }, { bucketCode: lowest.code, change: move });
+          action = 'REALLOCATE_DOWN';
+        } else if (objective === 'REVENUE_MAXIMIZATION' && velocity === 'ACCELERATING' && available(lowest) > 0) {
+          // Close cheap seats when demand is running ahead
+          const move = Math.min(4, available(lowest));
+          suggestedChanges.push({ bucketCode: lowest.code, change: -move }, { bucketCode: highest.code, change: move });
+          action = 'REALLOCATE_UP';
+        }
+      }
+      if (suggestedChanges.length > 0) {
+        reasoning = action === 'REALLOCATE_DOWN'
+          ? "Lowest fare buckets are sold out while behind forecast; shifting seats down the ladder."
+          : "Demand is accelerating; shifting unsold seats up the fare ladder.";
+      }
+    }
+
+    const confidence = suggestedChanges.length > 0 ? 'HIGH' : 'MEDIUM';
+    return {
+      agentType: 'seat_allocation',
+      success: true,
+      decision: `[${confidence}] ${action}`,
+      reasoning: reasoning + describeAllowances(overbooking),
+      output: {
+        action,
+        confidence,
+        suggestedChanges,
+        overbooking,
+        ...(groupBookingAccommodated !== undefined ? { groupBookingAccommodated } : {})
+      },
+      a2aMessages: []
+    };
+  }
+
+  // Nested inventory: EMSR-b protection levels, lowered above a pending group's bucket
+  private setProtectionLevels(context: AgentContext): SubAgentResult {
+    const env = context.environment;
+    let levels = protectionLevels(env, context.buckets);
+    const forecast = ['BUSINESS', 'ECONOMY'].flatMap(cabin => forecastFareClassDemand(env, context.buckets, cabin));
+    let reasoning = `EMSR-b on remaining demand (${forecast.map(f => `${f.bucketCode} ${f.mean.toFixed(1)}`).join(', ')}). ` +
+      `Protecting ${describeProtectionLevels(levels)}.`;
+    let groupBookingAccommodated: boolean | undefined;
+    let overbooking = overbookingAllowances(context);
+
+    const booking = context.bookingContext;
+    if (booking) {
+      const cabin = (booking.preferredClass || 'ECONOMY').toUpperCase();
+      const group = accommodateGroup(context.buckets, levels, cabin, booking.requestedPassengers, booking.targetBucketCode);
+      levels = group.levels;
+      overbooking = overbookingAllowances(context, group.target);
+      groupBookingAccommodated = group.accommodated;
+      reasoning += group.accommodated
+        ? ` Capped protection above ${group.target} so a group of ${booking.requestedPassengers} fits.`
+        : ` ${cabin} has fewer unsold seats than the group of ${booking.requestedPassengers}.`;
+    }
+
+    const changed = levels.some(l => context.buckets.find(b => b.code === l.bucketCode)?.protectionLevel !== l.protectionLevel);
+    const action = changed ? 'SET_PROTECTION' : 'HOLD';
+    return {
+      agentType: 'seat_allocation',
+      success: true,
+      decision: `[HIGH] ${action}`,
+      reasoning: reasoning + describeAllowances(overbooking),
+      output: {
+        action,
+        confidence: 'HIGH',
+        protectionLevels: levels,
+        overbooking,
+        ...(groupBookingAccommodated !== undefined ? { groupBookingAccommodated } : {})
+      },
+      a2aMessages: []
+    };
+  }
+
+  // Authorized capacity per cabin: accept bookings while each one's fare outweighs its
+  // expected denied-boarding cost under the scenario's no-show rate
+  async runOverbookingAgent(_task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const cabins = planOverbooking(context.environment, context.buckets);
+    const current = currentAuthorized(context.buckets);
+    const action = cabins.some(c => current[c.cabin] !== c.authorized) ? 'SET_AUTHORIZED' : 'HOLD';
+
+    return {
+      agentType: 'overbooking',
+      success: true,
+      decision: `[HIGH] ${action} | ${describeOverbooking(cabins)}`,
+      reasoning: `No-show rate ${((cabins[0]?.noShowRate ?? 0) * 100).toFixed(1)}%. ` + cabins.map(c =>
+        `${c.cabin}: ${c.authorized} bookings for ${c.capacity} seats (denied boarding ₹${c.deniedBoardingCost.toLocaleString()}); ` +
+        `at ${c.expectedBookings} expected bookings, ${c.expectedDeniedBoardings.toFixed(2)} denied boardings and ${c.expectedSpoilage.toFixed(2)} empty seats`
+      ).join('. ') + '.',
+      output: { action, confidence: 'HIGH', authorizedCapacity: cabins },
+      a2aMessages: []
+    };
+  }
+
+  async runCompetitorAgent(_task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const env = context.environment;
+    const market = marketEconomyPrice(context);
+    const ours = averageEconomyPrice(context.buckets);
+    const priceGap = market > 0 ? round2(ours / market - 1) : 0;
+
+    // A competitor that undercut us today is a threat whatever the market's aggressiveness
+    const moves = todaysCompetitorMoves(context);
+    const undercutting = moves.filter(m => m.cause === 'UNDERCUT');
+
+    const marketPosition = priceGap > 0.1 ? 'PREMIUM' : priceGap < -0.1 ? 'UNDERCUT' : 'COMPETITIVE';
+    const threatLevel = (env.competitorAggressiveness >= 0.8 || undercutting.length > 0) && priceGap > 0 ? 'HIGH'
+      : env.competitorAggressiveness >= 0.5 ? 'MEDIUM'
+      : 'LOW';
+    const recommendedResponse = marketPosition === 'PREMIUM' && threatLevel === 'HIGH'
+      ? "Close the gap to market on economy fares"
+      : marketPosition === 'UNDERCUT'
+        ? "Room to raise economy fares toward market"
+        : "Hold current positioning";
+    const cheapest = [...env.competitors].sort((a, b) => a.basePrice - b.basePrice)[0];
+    const threat = undercutting[0]?.competitor ?? cheapest?.name ?? 'Market';
+
+    return {
+      agentType: 'competitor',
+      success: true,
+      decision: `[${threatLevel} THREAT] Position: ${marketPosition} | Threat: ${threat}`,
+      reasoning: `Our average economy fare ₹${Math.round(ours).toLocaleString()} is ${priceGap >= 0 ? '+' : ''}${(priceGap * 100).toFixed(0)}% vs market average ₹${Math.round(market).toLocaleString()}.` +
+        (moves.length > 0 ? ` Competitor moves today: ${moves.map(m => `${m.competitor} ${m.cause.toLowerCase()} to ₹${m.fare.toLocaleString()}`).join(', ')}.` : ''),
+      output: { threatLevel, marketPosition, recommendedResponse, priceGap, competitorMoves: moves.map(m => ({ competitor: m.competitor, fare: m.fare, previousFare: m.previousFare, cause: m.cause })) },
+      a2aMessages: []
+    };
+  }
+}
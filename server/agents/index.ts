@@ -0,0 +1,13 @@
+import type { AgentMode } from "@shared/schema";
+import type { AgentBackend } from "./backend";
+import { LlmAgentBackend } from "./llm";
+import { HeuristicAgentBackend } from "./heuristic";
+
+export * from "./backend";
+export * from "./pricing";
+export { LlmAgentBackend } from "./llm";
+export { HeuristicAgentBackend } from "./heuristic";
+
+export function createAgentBackend(mode: AgentMode): AgentBackend {
+  return mode === 'heuristic' ? new HeuristicAgentBackend() : new LlmAgentBackend();
+}
@@ -0,0 +1,679 @@
+import { z } from "zod";
+import type {
+  OrchestratorPlan,
+  SubAgentResult,
+  AgentTask,
+  AgentMode,
+  AgentOutputValidation
+} from "@shared/schema";
+import { getLlmProvider, type LlmMessage, type LlmPurpose } from "../llm";
+import { logger } from "../logger";
+import { type AgentBackend, type AgentContext, generatePlanId, getDefaultPlan, overbookingAllowances, todaysCompetitorMoves } from "./backend";
+import { priceBuckets, averageMultiplier } from "./pricing";
+import {
+  planResponseSchema,
+  objectiveResponseSchema,
+  forecastResponseSchema,
+  pricingResponseSchema,
+  competitorResponseSchema,
+  seatAllocationResponseSchema,
+  protectionLevelResponseSchema,
+  overbookingResponseSchema
+} from "./schemas";
+import { protectionLevels, forecastFareClassDemand, describeProtectionLevels } from "../inventory";
+import { planOverbooking, currentAuthorized, describeOverbooking, OVERBOOKING_MODEL, type CabinOverbooking } from "../overbooking";
+import { availableSeats, nestingOrder } from "@shared/inventory";
+
+// Model calls per response, including repairs
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.LLM_MAX_ATTEMPTS || "3", 10));
+
+interface ValidatedResponse<T> {
+  data: T | null; // null when every attempt failed validation
+  validation: AgentOutputValidation;
+}
+
+// Ask the model for JSON matching `schema`. Parse and validation errors are fed back as a
+// follow-up turn so the model can correct its answer, up to MAX_ATTEMPTS calls.
+async function generateValidated<T extends z.ZodTypeAny>(
+  purpose: LlmPurpose,
+  prompt: string,
+  schema: T
+): Promise<ValidatedResponse<z.infer<T>>> {
+  const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+  const errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const text = await getLlmProvider().generate({ purpose, input: messages, json: true });
+
+    let attemptErrors: string[];
+    try {
+      const result = schema.safeParse(JSON.parse(text || "{}"));
+      if (result.success) {
+        return {
+          data: result.data,
+          validation: { status: attempt === 1 ? 'valid' : 'repaired', attempts: attempt, errors }
+        };
+      }
+      attemptErrors = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    } catch (e) {
+      attemptErrors = [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`];
+    }
+
+    logger.warn('LLM', `${purpose} response failed validation (attempt ${attempt}/${MAX_ATTEMPTS})`, attemptErrors);
+    errors.push(...attemptErrors.map(err => `[${attempt}] ${err}`));
+    messages.push(
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: `Your response failed validation:\n${attemptErrors.map(err => `- ${err}`).join('\n')}\n\n` +
+          `Respond again with corrected JSON only, in the format requested above.`
+      }
+    );
+  }
+
+  return { data: null, validation: { status: 'invalid', attempts: MAX_ATTEMPTS, errors } };
+}
+
+// Neutral default for an agent whose responses never passed validation
+function invalidResult(fallback: SubAgentResult, validation: AgentOutputValidation): SubAgentResult {
+  return {
+    ...fallback,
+    reasoning: `Default ${fallback.agentType} output: response failed validation after ${validation.attempts} attempts`,
+    validation
+  };
+}
+
+// LLM-backed sub-agents, using the configured LlmProvider. Every response is validated against
+// its schema in ./schemas; each agent falls back to a neutral default when the model call fails
+// or no attempt produces a valid response.
+export class LlmAgentBackend implements AgentBackend {
+  readonly mode: AgentMode = 'llm';
+
+  async generatePlan(context: AgentContext): Promise<OrchestratorPlan> {
+    const currentOccupancy = context.buckets.reduce((sum, b) => sum + (b.sold || 0), 0) / 
+                             context.buckets.reduce((sum, b) => sum + b.allocated, 0);
+    
+    const prompt = `You are the Orchestrator Agent for an airline dynamic pricing system.
+Analyze the current situation and create an execution plan for the sub-agents.
+
+CURRENT ENVIRONMENT:
+- Route: ${context.environment.route}
+- Days to Departure: ${context.environment.daysToDeparture}
+- Current Occupancy: ${(currentOccupancy * 100).toFixed(1)}%
+- Expected Occupancy: ${context.environment.expectedOccupancyToday.toFixed(1)}%
+- Fuel Cost Index: ${context.environment.fuelCostIndex}
+- Seasonality: ${context.environment.seasonalityIndex}
+- Competitor Aggressiveness: ${context.environment.competitorAggressiveness}
+- Event Impact: ${context.environment.eventImpact || 'None'}
+
+AVAILABLE SUB-AGENTS:
+1. objective - Determines the pricing objective (REVENUE_MAXIMIZATION, OCCUPANCY_MAXIMIZATION, COMPETITIVE_MATCHING)
+2. forecast - Analyzes demand patterns and predicts booking velocity
+3. pricing - Calculates price multipliers based on objectives and forecasts
+4. seat_allocation - Manages seat bucket allocation and rebalancing
+5. competitor - Monitors competitor pricing and market position
+6. overbooking - Sets each cabin's authorized capacity from the no-show forecast and denied-boarding cost
+
+RESPOND WITH JSON ONLY:
+{
+  "objective": "High-level goal for this orchestration",
+  "strategy": "AGGRESSIVE|BALANCED|CONSERVATIVE|DEFENSIVE",
+  "reasoning": "Why this plan was chosen based on the situation",
+  "estimatedImpact": "Expected outcome of executing this plan",
+  "tasks": [
+    {
+      "agentType": "objective|forecast|pricing|seat_allocation|competitor|overbooking",
+      "priority": 1,
+      "reason": "Why this agent is needed",
+      "dependsOn": [],
+      "inputContext": ["What data this agent needs"]
+    }
+  ]
+}
+
+PLANNING RULES:
+- Always include objective agent first (priority 1) to set the strategy
+- Forecast agent should run after objective (priority 2)
+- Pricing agent depends on objective, forecast and competitor (priority 3)
+- Seat allocation may run in parallel with pricing or after
+- Overbooking runs after forecast; seat allocation depends on it to place the authorized capacity
+- Competitor analysis can run in parallel with forecast
+- Agents whose dependencies are complete run in parallel; dependsOn may only name agents in the plan and must not form a cycle
+- Adapt the plan based on urgency (days to departure) and situation`;
+
+    try {
+      const { data, validation } = await generateValidated('orchestrator', prompt, planResponseSchema);
+      if (!data) {
+        return { ...getDefaultPlan(), validation };
+      }
+
+      return {
+        planId: generatePlanId(),
+        objective: data.objective,
+        strategy: data.strategy,
+        tasks: data.tasks,
+        reasoning: data.reasoning,
+        estimatedImpact: data.estimatedImpact || "Standard optimization",
+        validation
+      };
+    } catch (e) {
+      console.error("Plan generation error:", e);
+      return getDefaultPlan();
+    }
+  }
+
+  async runObjectiveAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const currentOccupancy = context.buckets.reduce((sum, b) => sum + (b.sold || 0), 0) / 
+                             context.buckets.reduce((sum, b) => sum + b.allocated, 0);
+    // expectedOccupancyToday is already a percentage
+    const occupancyGap = currentOccupancy * 100 - context.environment.expectedOccupancyToday;
+
+    const prompt = `You are the Objective Agent. Determine the pricing objective.
+
+ENVIRONMENT:
+- Days to Departure: ${context.environment.daysToDeparture}
+- Current Occupancy: ${(currentOccupancy * 100).toFixed(1)}%
+- Expected Occupancy: ${context.environment.expectedOccupancyToday.toFixed(1)}%
+- Occupancy Gap: ${occupancyGap.toFixed(1)}%
+- Fuel Cost Index: ${context.environment.fuelCostIndex}
+- Competitor Aggressiveness: ${context.environment.competitorAggressiveness}
+
+OBJECTIVES TO CHOOSE FROM:
+- REVENUE_MAXIMIZATION: When demand is high, focus on maximizing revenue
+- OCCUPANCY_MAXIMIZATION: When seats need to be filled, focus on volume
+- COMPETITIVE_MATCHING: When competitors are aggressive, match market prices
+
+RESPOND WITH JSON:
+{
+  "objective": "REVENUE_MAXIMIZATION|OCCUPANCY_MAXIMIZATION|COMPETITIVE_MATCHING",
+  "confidence": "HIGH|MEDIUM|LOW",
+  "reasoning": "Why this objective was chosen",
+  "urgency": "HIGH|MEDIUM|LOW"
+}`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'objective',
+      success: false,
+      decision: "[MEDIUM] REVENUE_MAXIMIZATION",
+      reasoning: "Default objective due to error",
+      output: { objective: 'REVENUE_MAXIMIZATION', confidence: 'MEDIUM', urgency: 'MEDIUM' },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated('objective', prompt, objectiveResponseSchema);
+      if (!data) return invalidResult(fallback, validation);
+      
+      return {
+        agentType: 'objective',
+        success: true,
+        decision: `[${data.confidence}] ${data.objective}`,
+        reasoning: data.reasoning,
+        output: {
+          objective: data.objective,
+          confidence: data.confidence,
+          urgency: data.urgency
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  async runForecastAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const objectiveResult = context.results.get('objective');
+    const currentOccupancy = context.buckets.reduce((sum, b) => sum + (b.sold || 0), 0) / 
+                             context.buckets.reduce((sum, b) => sum + b.allocated, 0);
+
+    const prompt = `You are the Forecast Agent. Analyze demand patterns.
+
+CONTEXT FROM OBJECTIVE AGENT:
+${JSON.stringify(objectiveResult?.output || {})}
+
+ENVIRONMENT:
+- Days to Departure: ${context.environment.daysToDeparture}
+- Current Occupancy: ${(currentOccupancy * 100).toFixed(1)}%
+- Base Demand: ${context.environment.baseDemand}
+- Seasonality: ${context.environment.seasonalityIndex}
+- Event Impact: ${context.environment.eventImpact || 'None'}
+
+RESPOND WITH JSON:
+{
+  "demandScore": 0.0 to 1.0,
+  "bookingVelocity": "ACCELERATING|STEADY|DECELERATING",
+  "peakProbability": 0.0 to 1.0,
+  "reasoning": "Analysis of demand patterns"
+}`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'forecast',
+      success: false,
+      decision: "Demand Score: 0.50",
+      reasoning: "Default forecast due to error",
+      output: { demandScore: 0.5, bookingVelocity: 'STEADY', peakProbability: 0.3 },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated('forecast', prompt, forecastResponseSchema);
+      if (!data) return invalidResult(fallback, validation);
+      
+      return {
+        agentType: 'forecast',
+        success: true,
+        decision: `Demand Score: ${data.demandScore.toFixed(2)}`,
+        reasoning: data.reasoning,
+        output: {
+          demandScore: data.demandScore,
+          bookingVelocity: data.bookingVelocity,
+          peakProbability: data.peakProbability
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  async runPricingAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const objectiveResult = context.results.get('objective');
+    const forecastResult = context.results.get('forecast');
+    const competitorResult = context.results.get('competitor');
+
+    const prompt = `You are the Pricing Agent. Calculate a price multiplier for each fare bucket.
+
+CONTEXT FROM OTHER AGENTS:
+Objective: ${JSON.stringify(objectiveResult?.output || {})}
+Forecast: ${JSON.stringify(forecastResult?.output || {})}
+Competitor: ${JSON.stringify(competitorResult?.output || {})}
+
+ENVIRONMENT:
+- Fuel Cost Index: ${context.environment.fuelCostIndex}
+- Days to Departure: ${context.environment.daysToDeparture}
+
+CURRENT BUCKETS:
+${context.buckets.map(b => `${b.code} (${b.class}): Base ₹${b.basePrice}, Current ₹${b.price}, ${b.sold || 0}/${b.allocated} sold`).join('\n')}
+
+RESPOND WITH JSON:
+{
+  "adjustmentType": "INCREASE|DECREASE|HOLD",
+  "reasoning": "Why this pricing decision overall",
+  "breakdownFactors": {
+    "objective": 0.0 to 0.3,
+    "demand": 0.0 to 0.3,
+    "fuel": 0.0 to 0.2,
+    "competition": 0.0 to 0.2
+  },
+  "bucketPrices": [
+    {"bucketCode": "${context.buckets[0]?.code || 'ECO_1'}", "multiplier": ${context.policy.minMultiplier} to ${context.policy.maxMultiplier}, "reasoning": "Why this bucket's fare"}
+  ]
+}
+
+PRICING RULES:
+- Include exactly one bucketPrices entry for every bucket listed above
+- Each multiplier applies to that bucket's base fare
+- Within a class, fares must rise up the ladder (e.g. ECO_1 < ECO_2 < ECO_3); out-of-order fares are lifted
+- Guardrails clip any fare that moves more than ${(context.policy.maxChangePerReprice * 100).toFixed(0)}% from its current price in one reprice`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'pricing',
+      success: false,
+      decision: "REVENUE_MAXIMIZATION | Multiplier: 1.00x",
+      reasoning: "Default pricing due to error",
+      output: { multiplier: 1.0, adjustmentType: 'HOLD', breakdownFactors: {} },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated('pricing', prompt, pricingResponseSchema(context.buckets, context.policy));
+      if (!data) return invalidResult(fallback, validation);
+      const objective = (objectiveResult?.output as { objective?: string })?.objective || 'REVENUE_MAXIMIZATION';
+      const bucketPrices = priceBuckets(context.buckets, data.bucketPrices);
+      const multiplier = averageMultiplier(context.buckets, bucketPrices);
+      
+      return {
+        agentType: 'pricing',
+        success: true,
+        decision: `${objective} | Multiplier: ${multiplier.toFixed(2)}x`,
+        reasoning: data.reasoning,
+        output: {
+          multiplier,
+          adjustmentType: data.adjustmentType,
+          breakdownFactors: data.breakdownFactors,
+          bucketPrices
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  async runSeatAllocationAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    if (context.inventoryMode === 'nested') return this.runProtectionLevelAgent(context);
+
+    const pricingResult = context.results.get('pricing');
+    const forecastResult = context.results.get('forecast');
+    
+    const totalSeats = context.buckets.reduce((sum, b) => sum + b.allocated, 0);
+    const soldSeats = context.buckets.reduce((sum, b) => sum + (b.sold || 0), 0);
+    
+    // Build pending booking context
+    let bookingContextStr = "";
+    if (context.bookingContext) {
+      const targetBucket = context.buckets.find(b => 
+        b.code === context.bookingContext?.targetBucketCode || 
+        b.class?.toLowerCase() === context.bookingContext?.preferredClass?.toLowerCase()
+      );
+      const available = targetBucket ? targetBucket.allocated - (targetBucket.sold || 0) : 0;
+      const shortage = context.bookingContext.requestedPassengers - available;
+      
+      bookingContextStr = `
+PENDING GROUP BOOKING REQUEST:
+- Passengers requested: ${context.bookingContext.requestedPassengers}
+- Preferred class: ${context.bookingContext.preferredClass || 'Economy'}
+- Target bucket: ${targetBucket?.code || 'Best available'}
+- Currently available: ${available}
+- SHORTAGE: ${shortage > 0 ? shortage : 0} seats
+
+${shortage > 0 ? `CRITICAL: Need to reallocate ${shortage} additional seats to ${targetBucket?.code || 'economy buckets'} to fulfill this group booking. Consider moving seats from lower-demand buckets.` : ''}
+`;
+    }
+
+    const prompt = `You are the Seat Allocation Agent. Manage bucket allocation to maximize revenue while meeting demand.
+
+CONTEXT FROM OTHER AGENTS:
+Pricing: ${JSON.stringify(pricingResult?.output || {})}
+Forecast: ${JSON.stringify(forecastResult?.output || {})}
+${bookingContextStr}
+AUTHORIZED CAPACITY (Overbooking Agent, placed on the fare buckets automatically): ${describeOverbooking(this.authorizedCapacity(context))}
+CURRENT ALLOCATION:
+Total Seats: ${totalSeats}
+Sold: ${soldSeats}
+${context.buckets.map(b => {
+  const avail = b.allocated - (b.sold || 0);
+  return `${b.code} (${b.class}): ${b.allocated} allocated, ${b.sold || 0} sold, ${avail} available`;
+}).join('\n')}
+
+REALLOCATION RULES:
+1. Never reduce allocation below sold count for any bucket
+2. For group bookings, prioritize making enough seats available
+3. Move seats from low-demand/high-price buckets to fulfill group requests
+4. Maintain business class allocation unless urgent
+
+RESPOND WITH JSON:
+{
+  "action": "REALLOCATE_UP|REALLOCATE_DOWN|HOLD",
+  "confidence": "HIGH|MEDIUM|LOW",
+  "reasoning": "Why this allocation decision",
+  "suggestedChanges": [
+    {"bucketCode": "ECO_1", "change": -5},
+    {"bucketCode": "ECO_2", "change": 5}
+  ],
+  "groupBookingAccommodated": true/false
+}`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'seat_allocation',
+      success: false,
+      decision: "[MEDIUM] HOLD",
+      reasoning: "Default allocation due to error",
+      output: { action: 'HOLD', confidence: 'MEDIUM', suggestedChanges: [] },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated(
+        'seat_allocation', prompt, seatAllocationResponseSchema(context.buckets)
+      );
+      if (!data) return invalidResult(fallback, validation);
+      
+      return {
+        agentType: 'seat_allocation',
+        success: true,
+        decision: `[${data.confidence}] ${data.action}`,
+        reasoning: data.reasoning,
+        output: {
+          action: data.action,
+          confidence: data.confidence,
+          suggestedChanges: data.suggestedChanges,
+          overbooking: overbookingAllowances(context, context.bookingContext?.targetBucketCode),
+          groupBookingAccommodated: data.groupBookingAccommodated
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  // Nested inventory: the agent sets protection levels, starting from the EMSR-b recommendation
+  private async runProtectionLevelAgent(context: AgentContext): Promise<SubAgentResult> {
+    const env = context.environment;
+    const forecastResult = context.results.get('forecast');
+    const recommended = protectionLevels(env, context.buckets);
+    const available = availableSeats(context.buckets, 'nested');
+
+    const cabins = ['BUSINESS', 'ECONOMY'].map(cabin => {
+      const ladder = nestingOrder(context.buckets, cabin);
+      if (ladder.length === 0) return '';
+      const unsold = ladder.reduce((sum, b) => sum + b.allocated - (b.sold || 0), 0);
+      const demand = forecastFareClassDemand(env, context.buckets, cabin);
+      return `${cabin} (${unsold} unsold seats), priciest first:
+${ladder.map((b, i) => `${b.code}: ₹${b.price}, ${b.sold || 0} sold, ${available[b.code]} available, protection ${b.protectionLevel ?? 'none'}, forecast demand ${demand[i].mean.toFixed(1)}`).join('\n')}`;
+    }).filter(Boolean).join('\n\n');
+
+    let bookingContextStr = "";
+    if (context.bookingContext) {
+      bookingContextStr = `
+PENDING GROUP BOOKING REQUEST:
+- Passengers requested: ${context.bookingContext.requestedPassengers}
+- Preferred class: ${context.bookingContext.preferredClass || 'Economy'}
+Lower the protection levels above the group's bucket if it cannot take the whole group.
+`;
+    }
+
+    const prompt = `You are the Seat Allocation Agent for a nested fare-class inventory. Buckets share each cabin's unsold seats. A bucket's protection level is the number of seats held back for it and every pricier bucket in its cabin; the next cheaper bucket can only sell unsold seats beyond that.
+
+Forecast: ${JSON.stringify(forecastResult?.output || {})}
+${bookingContextStr}
+CURRENT INVENTORY:
+${cabins}
+
+EMSR-b RECOMMENDATION (from the forecast and fare ladder): ${describeProtectionLevels(recommended)}
+AUTHORIZED CAPACITY (Overbooking Agent; extra seats join the cabin's shared pool): ${describeOverbooking(this.authorizedCapacity(context))}
+
+RULES:
+1. Set a level only for buckets that have a cheaper bucket below them in the same cabin
+2. A level cannot exceed the cabin's unsold seats
+3. Levels must not decrease going down the ladder (a cheaper bucket protects at least as much as a pricier one)
+4. Start from the EMSR-b recommendation; deviate only with a reason
+
+RESPOND WITH JSON:
+{
+  "action": "SET_PROTECTION|HOLD",
+  "confidence": "HIGH|MEDIUM|LOW",
+  "reasoning": "Why these protection levels",
+  "protectionLevels": [
+    ${recommended.map(l => `{"bucketCode": "${l.bucketCode}", "protectionLevel": ${l.protectionLevel}}`).join(',\n    ')}
+  ],
+  "groupBookingAccommodated": true/false
+}`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'seat_allocation',
+      success: false,
+      decision: "[MEDIUM] HOLD",
+      reasoning: "Default allocation due to error",
+      output: { action: 'HOLD', confidence: 'MEDIUM', protectionLevels: [] },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated(
+        'seat_allocation', prompt, protectionLevelResponseSchema(context.buckets)
+      );
+      if (!data) return invalidResult(fallback, validation);
+
+      return {
+        agentType: 'seat_allocation',
+        success: true,
+        decision: `[${data.confidence}] ${data.action}`,
+        reasoning: data.reasoning,
+        output: {
+          action: data.action,
+          confidence: data.confidence,
+          protectionLevels: data.action === 'HOLD' ? [] : data.protectionLevels,
+          overbooking: overbookingAllowances(context, context.bookingContext?.targetBucketCode),
+          groupBookingAccommodated: data.groupBookingAccommodated
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  // Authorized capacity chosen by the Overbooking Agent in this orchestration, or in force
+  private authorizedCapacity(context: AgentContext): CabinOverbooking[] {
+    const cabins = (context.results.get('overbooking')?.output as { authorizedCapacity?: CabinOverbooking[] } | undefined)?.authorizedCapacity;
+    return cabins && cabins.length > 0 ? cabins : planOverbooking(context.environment, context.buckets, currentAuthorized(context.buckets));
+  }
+
+  async runOverbookingAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const env = context.environment;
+    const forecastResult = context.results.get('forecast');
+    const recommended = planOverbooking(env, context.buckets);
+    const inForce = planOverbooking(env, context.buckets, currentAuthorized(context.buckets));
+    const capacities = Object.fromEntries(recommended.map(c => [c.cabin, c.capacity]));
+
+    const prompt = `You are the Overbooking Agent. Set each cabin's authorized capacity: how many bookings to accept for its physical seats, knowing some passengers won't show up. Passengers who show up beyond the seats are denied boarding and compensated; seats left empty by no-shows earn nothing more.
+
+Forecast: ${JSON.stringify(forecastResult?.output || {})}
+
+CABINS:
+${inForce.map(c => {
+  const lowest = nestingOrder(context.buckets, c.cabin).slice(-1)[0];
+  return `${c.cabin}: ${c.capacity} seats, ${c.sold} sold, authorized ${c.authorized}, lowest fare ₹${lowest?.price ?? 0}, denied boarding cost ₹${c.deniedBoardingCost}`;
+}).join('\n')}
+No-show rate: ${((recommended[0]?.noShowRate ?? 0) * 100).toFixed(1)}% of passengers
+Days to Departure: ${env.daysToDeparture}
+
+RECOMMENDATION (accept a booking while its fare outweighs its expected denied-boarding cost):
+${recommended.map(c => `${c.cabin}: authorize ${c.authorized}; at ${c.expectedBookings} expected bookings, ${c.expectedDeniedBoardings.toFixed(2)} denied boardings and ${c.expectedSpoilage.toFixed(2)} empty seats`).join('\n')}
+
+RULES:
+1. Authorized capacity is at least the cabin's seats and at most ${Math.round(OVERBOOKING_MODEL.maxOverbookingShare * 100)}% above them
+2. Start from the recommendation; deviate only with a reason
+
+RESPOND WITH JSON:
+{
+  "action": "SET_AUTHORIZED|HOLD",
+  "confidence": "HIGH|MEDIUM|LOW",
+  "reasoning": "Why these authorized capacities",
+  "authorizedCapacity": [
+    ${recommended.map(c => `{"cabin": "${c.cabin}", "authorized": ${c.authorized}}`).join(',\n    ')}
+  ]
+}`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'overbooking',
+      success: false,
+      decision: "[MEDIUM] HOLD",
+      reasoning: "Default overbooking due to error",
+      output: { action: 'HOLD', confidence: 'MEDIUM', authorizedCapacity: [] },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated(
+        'overbooking', prompt, overbookingResponseSchema(capacities, OVERBOOKING_MODEL.maxOverbookingShare)
+      );
+      if (!data) return invalidResult(fallback, validation);
+
+      const chosen = data.action === 'HOLD'
+        ? inForce
+        : planOverbooking(env, context.buckets, {
+            ...Object.fromEntries(inForce.map(c => [c.cabin, c.authorized])),
+            ...Object.fromEntries(data.authorizedCapacity.map(c => [c.cabin, c.authorized]))
+          });
+
+      return {
+        agentType: 'overbooking',
+        success: true,
+        decision: `[${data.confidence}] ${data.action} | ${describeOverbooking(chosen)}`,
+        reasoning: data.reasoning,
+        output: {
+          action: data.action,
+          confidence: data.confidence,
+          authorizedCapacity: chosen
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  async runCompetitorAgent(task: AgentTask, context: AgentContext): Promise<SubAgentResult> {
+    const moves = todaysCompetitorMoves(context);
+    const prompt = `You are the Competitor Agent. Analyze market positioning.
+
+COMPETITORS (current economy fares):
+${context.environment.competitors.map(c => `${c.name}: ₹${c.basePrice}`).join('\n')}
+
+COMPETITOR MOVES TODAY:
+${moves.length > 0 ? moves.map(m => `${m.competitor}: ₹${m.previousFare} → ₹${m.fare} (${m.cause}) - ${m.reasoning}`).join('\n') : 'None'}
+
+MARKET CONDITIONS:
+- Competitor Aggressiveness: ${context.environment.competitorAggressiveness}
+- Our Base Prices: ${context.buckets.map(b => `${b.code}: ₹${b.basePrice}`).join(', ')}
+- Our Current Prices: ${context.buckets.map(b => `${b.code}: ₹${b.price}`).join(', ')}
+
+RESPOND WITH JSON:
+{
+  "threatLevel": "HIGH|MEDIUM|LOW",
+  "marketPosition": "PREMIUM|COMPETITIVE|UNDERCUT",
+  "reasoning": "Analysis of competitive landscape",
+  "recommendedResponse": "Description of how to respond"
+}`;
+
+    const fallback: SubAgentResult = {
+      agentType: 'competitor',
+      success: false,
+      decision: "[MEDIUM THREAT] Position: COMPETITIVE",
+      reasoning: "Default analysis due to error",
+      output: { threatLevel: 'MEDIUM', marketPosition: 'COMPETITIVE', recommendedResponse: '' },
+      a2aMessages: []
+    };
+
+    try {
+      const { data, validation } = await generateValidated('competitor', prompt, competitorResponseSchema);
+      if (!data) return invalidResult(fallback, validation);
+      const topCompetitor = context.environment.competitors[0]?.name || 'Market';
+      
+      return {
+        agentType: 'competitor',
+        success: true,
+        decision: `[${data.threatLevel} THREAT] Position: ${data.marketPosition} | Threat: ${topCompetitor}`,
+        reasoning: data.reasoning,
+        output: {
+          threatLevel: data.threatLevel,
+          marketPosition: data.marketPosition,
+          recommendedResponse: data.recommendedResponse
+        },
+        a2aMessages: [],
+        validation
+      };
+    } catch (e) {
+      return fallback;
+    }
+  }
+}
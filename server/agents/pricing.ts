@@ -0,0 +1,125 @@
+import type { Bucket } from "@shared/schema";
+
+// Per-bucket fare proposal from a pricing backend
+export interface BucketPriceProposal {
+  bucketCode: string;
+  multiplier: number; // Applied to the bucket's basePrice
+  reasoning: string;
+}
+
+// Final fare for one bucket, as applied by runOrchestration
+export interface BucketPrice extends BucketPriceProposal {
+  class: string;
+  previousPrice: number;
+  price: number;
+  adjustment?: string; // Why the proposed fare was lifted to keep the ladder in order
+}
+
+// Smallest gap between adjacent fares in a class ladder, in rupees
+export const MIN_LADDER_STEP = 100;
+
+// Fare ladder order within a class: cheapest base fare first (ECO_1 < ECO_2 < ...)
+function ladderOrder(a: Bucket, b: Bucket): number {
+  return a.basePrice - b.basePrice || a.code.localeCompare(b.code, undefined, { numeric: true });
+}
+
+// A fare moved to keep its class ladder in order: raised above the next cheaper bucket,
+// or lowered below the next pricier one
+export interface LadderMove {
+  bucketCode: string;
+  neighbour: string; // Bucket it was moved to clear
+  from: number;
+  to: number;
+}
+
+// Adjacent buckets whose fares couldn't be put in order within their limits
+export interface LadderConflict {
+  bucketCode: string;
+  below: string; // Cheaper bucket whose fare it doesn't clear by MIN_LADDER_STEP
+  price: number;
+  belowPrice: number;
+}
+
+// Range a fare may be moved within; the guardrails' limits when called from server/policy.ts
+export type FareLimits = (bucket: Bucket, price: number) => { min: number; max: number };
+
+const UNLIMITED: FareLimits = () => ({ min: 0, max: Infinity });
+
+// Walk every class ladder from the bottom and put each fare at least MIN_LADDER_STEP above
+// the one below it: raise it as far as its limits allow, then lower the cheaper fare as far
+// as its own limits (and the fare below that) allow. Pairs still out of order are conflicts.
+// Buckets without a fare in `prices` are skipped.
+export function orderFareLadder(
+  buckets: Bucket[],
+  prices: BucketPrice[],
+  limits: FareLimits = UNLIMITED
+): { prices: BucketPrice[]; moves: LadderMove[]; conflicts: LadderConflict[] } {
+  const byCode = new Map(prices.map(p => [p.bucketCode, p]));
+  const moves: LadderMove[] = [];
+  const conflicts: LadderConflict[] = [];
+  const move = (bucket: Bucket, neighbour: string, to: number) => {
+    const current = byCode.get(bucket.code)!;
+    moves.push({ bucketCode: bucket.code, neighbour, from: current.price, to });
+    byCode.set(bucket.code, { ...current, price: to, multiplier: Math.round((to / bucket.basePrice) * 100) / 100 });
+  };
+
+  for (const cabin of Array.from(new Set(buckets.map(b => b.class)))) {
+    const ladder = buckets.filter(b => b.class === cabin && byCode.has(b.code)).sort(ladderOrder);
+    for (let i = 1; i < ladder.length; i++) {
+      const needed = byCode.get(ladder[i - 1].code)!.price + MIN_LADDER_STEP;
+      const price = byCode.get(ladder[i].code)!.price;
+      if (price >= needed) continue;
+
+      const raised = Math.min(needed, Math.floor(limits(ladder[i], price).max));
+      if (raised > price) move(ladder[i], ladder[i - 1].code, raised);
+
+      const current = byCode.get(ladder[i].code)!.price;
+      const belowPrice = byCode.get(ladder[i - 1].code)!.price;
+      if (current >= belowPrice + MIN_LADDER_STEP) continue;
+      const lowest = Math.max(
+        Math.ceil(limits(ladder[i - 1], belowPrice).min),
+        i >= 2 ? byCode.get(ladder[i - 2].code)!.price + MIN_LADDER_STEP : 0
+      );
+      const lowered = Math.max(current - MIN_LADDER_STEP, lowest);
+      if (lowered < belowPrice) move(ladder[i - 1], ladder[i].code, lowered);
+
+      const finalBelow = byCode.get(ladder[i - 1].code)!.price;
+      if (current < finalBelow + MIN_LADDER_STEP) {
+        conflicts.push({ bucketCode: ladder[i].code, below: ladder[i - 1].code, price: current, belowPrice: finalBelow });
+      }
+    }
+  }
+
+  return { prices: prices.map(p => byCode.get(p.bucketCode)!), moves, conflicts };
+}
+
+// Turn proposals into fares and put each class ladder in order. Buckets without a proposal
+// keep their base fare. Guardrails (server/policy.ts) are applied to the result afterwards,
+// and the ladder is put back in order within their limits.
+export function priceBuckets(buckets: Bucket[], proposals: BucketPriceProposal[]): BucketPrice[] {
+  const proposed = buckets.map(bucket => {
+    const proposal = proposals.find(p => p.bucketCode === bucket.code)
+      ?? { bucketCode: bucket.code, multiplier: 1, reasoning: "No proposal; base fare" };
+    return {
+      ...proposal,
+      class: bucket.class,
+      previousPrice: bucket.price,
+      price: Math.round(bucket.basePrice * proposal.multiplier)
+    };
+  });
+
+  // Unlimited, fares are only ever raised
+  const { prices, moves } = orderFareLadder(buckets, proposed);
+  return prices.map(price => {
+    const lift = moves.find(m => m.bucketCode === price.bucketCode);
+    return lift ? { ...price, adjustment: `Raised from ₹${lift.from.toLocaleString()} to stay above ${lift.neighbour}` } : price;
+  });
+}
+
+// Seat-weighted average multiplier across the cabin, for summaries
+export function averageMultiplier(buckets: Bucket[], prices: BucketPrice[]): number {
+  const seats = buckets.reduce((sum, b) => sum + b.allocated, 0);
+  if (seats === 0) return 1;
+  const weighted = buckets.reduce((sum, b) => sum + b.allocated * (prices.find(p => p.bucketCode === b.code)?.multiplier ?? 1), 0);
+  return Math.round((weighted / seats) * 100) / 100;
+}
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import type { Bucket, PricingPolicy } from "@shared/schema";
+import { nestingOrder } from "@shared/inventory";
+
+// Expected JSON shape of each model response. These mirror the formats requested in the
+// prompts, so a validation error can be fed back to the model verbatim.
+
+const subAgentTypeSchema = z.enum(['objective', 'forecast', 'pricing', 'seat_allocation', 'competitor', 'overbooking']);
+const confidenceSchema = z.enum(['HIGH', 'MEDIUM', 'LOW']);
+
+export const planResponseSchema = z.object({
+  objective: z.string().min(1),
+  strategy: z.enum(['AGGRESSIVE', 'BALANCED', 'CONSERVATIVE', 'DEFENSIVE']),
+  reasoning: z.string().min(1),
+  estimatedImpact: z.string().default(""),
+  tasks: z.array(z.object({
+    agentType: subAgentTypeSchema,
+    priority: z.number().int().min(1),
+    reason: z.string().default(""),
+    dependsOn: z.array(subAgentTypeSchema).default([]),
+    inputContext: z.array(z.string()).default([])
+  })).min(1)
+});
+
+export const objectiveResponseSchema = z.object({
+  objective: z.enum(['REVENUE_MAXIMIZATION', 'OCCUPANCY_MAXIMIZATION', 'COMPETITIVE_MATCHING']),
+  confidence: confidenceSchema,
+  reasoning: z.string().min(1),
+  urgency: confidenceSchema
+});
+
+export const forecastResponseSchema = z.object({
+  demandScore: z.number().min(0).max(1),
+  bookingVelocity: z.enum(['ACCELERATING', 'STEADY', 'DECELERATING']),
+  peakProbability: z.number().min(0).max(1),
+  reasoning: z.string().min(1)
+});
+
+// One fare per bucket: every live bucket must be priced exactly once, at a multiplier within
+// the session's guardrails. Ladder order is enforced afterwards by priceBuckets rather than
+// rejected here.
+export function pricingResponseSchema(buckets: Bucket[], policy: PricingPolicy) {
+  return z.object({
+    adjustmentType: z.enum(['INCREASE', 'DECREASE', 'HOLD']),
+    reasoning: z.string().min(1),
+    breakdownFactors: z.object({
+      objective: z.number(),
+      demand: z.number(),
+      fuel: z.number(),
+      competition: z.number()
+    }).partial().default({}),
+    bucketPrices: z.array(z.object({
+      bucketCode: z.string(),
+      multiplier: z.number().min(policy.minMultiplier).max(policy.maxMultiplier),
+      reasoning: z.string().default("")
+    }))
+  }).superRefine((value, ctx) => {
+    value.bucketPrices.forEach((entry, i) => {
+      if (!buckets.some(b => b.code === entry.bucketCode)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['bucketPrices', i, 'bucketCode'],
+          message: `Unknown bucket '${entry.bucketCode}'. Valid codes: ${buckets.map(b => b.code).join(', ')}`
+        });
+      }
+    });
+    for (const bucket of buckets) {
+      const count = value.bucketPrices.filter(p => p.bucketCode === bucket.code).length;
+      if (count !== 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['bucketPrices'],
+          message: `${bucket.code} must be priced exactly once (found ${count})`
+        });
+      }
+    }
+  });
+}
+
+export const competitorResponseSchema = z.object({
+  threatLevel: confidenceSchema,
+  marketPosition: z.enum(['PREMIUM', 'COMPETITIVE', 'UNDERCUT']),
+  reasoning: z.string().min(1),
+  recommendedResponse: z.string().default("")
+});
+
+// Seat changes are checked against the live buckets: unknown codes and allocations below
+// the sold count are rejected rather than silently dropped or clamped.
+export function seatAllocationResponseSchema(buckets: Bucket[]) {
+  return z.object({
+    action: z.enum(['REALLOCATE_UP', 'REALLOCATE_DOWN', 'HOLD']),
+    confidence: confidenceSchema,
+    reasoning: z.string().min(1),
+    suggestedChanges: z.array(z.object({
+      bucketCode: z.string(),
+      change: z.number().int()
+    })).default([]),
+    groupBookingAccommodated: z.boolean().default(false)
+  }).superRefine((value, ctx) => {
+    value.suggestedChanges.forEach((change, i) => {
+      const bucket = buckets.find(b => b.code === change.bucketCode);
+      if (!bucket) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['suggestedChanges', i, 'bucketCode'],
+          message: `Unknown bucket '${change.bucketCode}'. Valid codes: ${buckets.map(b => b.code).join(', ')}`
+        });
+      } else if (bucket.allocated + change.change < (bucket.sold || 0)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['suggestedChanges', i, 'change'],
+          message: `${bucket.code} has ${bucket.sold || 0} seats sold; allocation cannot drop to ${bucket.allocated + change.change}`
+        });
+      }
+    });
+  });
+}
+
+// Nested inventory: protection levels for the live buckets. Each must leave a cheaper bucket
+// below it, fit in the cabin's unsold seats and not drop going down the fare ladder.
+export function protectionLevelResponseSchema(buckets: Bucket[]) {
+  return z.object({
+    action: z.enum(['SET_PROTECTION', 'HOLD']),
+    confidence: confidenceSchema,
+    reasoning: z.string().min(1),
+    protectionLevels: z.array(z.object({
+      bucketCode: z.string(),
+      protectionLevel: z.number().int().min(0)
+    })).default([]),
+    groupBookingAccommodated: z.boolean().default(false)
+  }).superRefine((value, ctx) => {
+    value.protectionLevels.forEach((entry, i) => {
+      const bucket = buckets.find(b => b.code === entry.bucketCode);
+      if (!bucket) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['protectionLevels', i, 'bucketCode'],
+          message: `Unknown bucket '${entry.bucketCode}'. Valid codes: ${buckets.map(b => b.code).join(', ')}`
+        });
+        return;
+      }
+      const ladder = nestingOrder(buckets, bucket.class);
+      const position = ladder.indexOf(bucket);
+      const unsold = Math.max(0, ladder.reduce((sum, b) => sum + b.allocated - (b.sold || 0), 0));
+      if (position === ladder.length - 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['protectionLevels', i, 'bucketCode'],
+          message: `${bucket.code} is the cheapest ${bucket.class} bucket; there is nothing below it to protect against`
+        });
+      } else if (entry.protectionLevel > unsold) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['protectionLevels', i, 'protectionLevel'],
+          message: `${bucket.class} has ${unsold} unsold seats; ${bucket.code} cannot protect ${entry.protectionLevel}`
+        });
+      }
+      const pricier = ladder[position - 1] && value.protectionLevels.find(p => p.bucketCode === ladder[position - 1].code);
+      if (pricier && pricier.protectionLevel > entry.protectionLevel) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['protectionLevels', i, 'protectionLevel'],
+          message: `${bucket.code} protects ${entry.protectionLevel}, less than ${pricier.bucketCode} above it (${pricier.protectionLevel}); levels cannot drop down the ladder`
+        });
+      }
+    });
+  });
+}
+
+// Authorized capacity per cabin: at least the cabin's seats, at most the overbooking limit
+export function overbookingResponseSchema(capacities: Record<string, number>, maxShare: number) {
+  return z.object({
+    action: z.enum(['SET_AUTHORIZED', 'HOLD']),
+    confidence: confidenceSchema,
+    reasoning: z.string().min(1),
+    authorizedCapacity: z.array(z.object({
+      cabin: z.string(),
+      authorized: z.number().int()
+    })).default([])
+  }).superRefine((value, ctx) => {
+    value.authorizedCapacity.forEach((entry, i) => {
+      const capacity = capacities[entry.cabin];
+      if (capacity === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['authorizedCapacity', i, 'cabin'],
+          message: `Unknown cabin '${entry.cabin}'. Valid cabins: ${Object.keys(capacities).join(', ')}`
+        });
+        return;
+      }
+      const limit = Math.floor(capacity * (1 + maxShare));
+      if (entry.authorized < capacity || entry.authorized > limit) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['authorizedCapacity', i, 'authorized'],
+          message: `${entry.cabin} has ${capacity} seats; authorized capacity must be between ${capacity} and ${limit}`
+        });
+      }
+    });
+  });
+}
@@ -0,0 +1,401 @@
+import { db } from "./db";
+import {
+  sessions, flights, buckets, seats, bookings, quotes,
+  type Bucket, type Seat, type Flight, type Booking, type Quote, type Session
+} from "@shared/schema";
+import { eq, and, asc, desc, inArray, isNull, lt, sql } from "drizzle-orm";
+import { availableSeats } from "@shared/inventory";
+import { seatNumber } from "@shared/aircraft";
+import { pickSeats, findSeats, randomSeats } from "./seating";
+import { computeRefund, type Refund } from "./cancellation";
+import { logger } from "./logger";
+
+// === BOOKING SERVICE ===
+// The one path that sells seats. The book endpoint, the booking assistant and the demand
+// simulator all sell through it: a sale seats its passengers, adds them to the bucket and
+// adds its fare and seat fees to session revenue in one transaction. Customer bookings
+// also get a booking record with a reference code; simulated passengers are anonymous.
+// A sale locks its flight's bucket rows first, so concurrent sales on one flight take turns
+// checking availability and picking seats, and can't oversell a bucket or share a seat.
+// Cancellations take the same lock to give seats back.
+//
+// A fare quote holds seats at the bucket's current price for QUOTE_TTL_MS: they count as
+// taken until the quote is confirmed, at the quoted price, or lapses. Lapsed holds are
+// released whenever their flight is locked, and by a periodic sweep.
+
+export const QUOTE_TTL_MS = 10 * 60 * 1000;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface BookingOrder {
+  sessionId: number;
+  flightId: number;
+  bucketCode: string;
+  quantity: number;
+  seatNumbers?: string[]; // One per passenger, charged their seat fee; free seats are assigned when omitted
+  passengerName?: string;
+}
+
+// Seats taken by a booking, and what the passenger pays for choosing them
+export interface SeatAssignment {
+  seats: Seat[];
+  seatFees: number; // Zero when seats were assigned automatically
+  unseated: number; // Overbooked passengers without a seat until check-in
+}
+
+export interface Sale extends SeatAssignment {
+  flight: Flight;
+  bucket: Bucket; // As it was before the sale
+  pricePerSeat: number;
+  totalFare: number; // Excluding seat fees
+}
+
+export interface BookingConfirmation extends Sale {
+  booking: Booking;
+}
+
+export interface BookingFilter {
+  flightId?: number;
+  status?: string;
+}
+
+// e.g. IND-K7M2QX; no 0/O or 1/I, so references read back unambiguously
+function generateCode(prefix: string, length: number): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = prefix;
+  for (let i = 0; i < length; i++) {
+    code += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return code;
+}
+
+interface LockedFlight {
+  session: Session;
+  flight: Flight;
+  buckets: Bucket[];
+}
+
+export class BookingService {
+  // A customer booking with its record. Null when the bucket can't take the passengers
+  // or a requested seat is unknown or taken.
+  async book(order: BookingOrder): Promise<BookingConfirmation | null> {
+    return db.transaction(async tx => {
+      const sale = await this.sell(tx, order);
+      return sale && this.record(tx, sale, order);
+    });
+  }
+
+  // Hold seats in a bucket at its current price. Null when the bucket can't take the
+  // passengers or a requested seat is unknown or taken.
+  async quote(order: Omit<BookingOrder, 'passengerName'>): Promise<Quote | null> {
+    return db.transaction(async tx => {
+      const locked = await this.lockFlight(tx, order.sessionId, order.flightId);
+      const bucket = locked?.buckets.find(b => b.code === order.bucketCode);
+      if (!locked || !bucket || availableSeats(locked.buckets, locked.session.inventoryMode)[bucket.code] < order.quantity) {
+        return null;
+      }
+
+      const requested = order.seatNumbers && order.seatNumbers.length > 0 ? order.seatNumbers : undefined;
+      let held: Seat[] = [];
+      if (requested) {
+        const cabinSeats = await tx.select().from(seats).where(and(eq(seats.flightId, order.flightId), eq(seats.cabin, bucket.class)));
+        const found = requested.length === order.quantity ? findSeats(cabinSeats, requested) : null;
+        if (!found) return null;
+        held = found;
+        await tx.update(seats).set({ status: "HELD" }).where(inArray(seats.id, held.map(seat => seat.id)));
+      }
+
+      await tx.update(buckets)
+        .set({ held: sql`${buckets.held} + ${order.quantity}` })
+        .where(eq(buckets.id, bucket.id));
+      const [quote] = await tx.insert(quotes).values({
+        id: await this.uniqueQuoteId(tx),
+        sessionId: order.sessionId,
+        flightId: order.flightId,
+        bucketId: bucket.id,
+        quantity: order.quantity,
+        pricePerSeat: bucket.price,
+        seatNumbers: held.map(seatNumber),
+        seatFees: held.reduce((sum, seat) => sum + seat.fee, 0),
+        expiresAt: new Date(Date.now() + QUOTE_TTL_MS)
+      }).returning();
+      return quote;
+    });
+  }
+
+  // Book a held quote at its quoted price. The hold already reserved the seats, so
+  // availability isn't checked again. Null when the quote is no longer held.
+  async confirmQuote(quoteId: string, passengerName?: string): Promise<BookingConfirmation | null> {
+    const existing = await this.getQuote(quoteId);
+    if (!existing) return null;
+
+    return db.transaction(async tx => {
+      const locked = await this.lockFlight(tx, existing.sessionId, existing.flightId);
+      const [quote] = await tx.select().from(quotes).where(eq(quotes.id, existing.id));
+      const bucket = locked?.buckets.find(b => b.id === quote?.bucketId);
+      if (!locked || !quote || !bucket || quote.status !== "HELD") return null;
+
+      await this.release(tx, quote, "CONFIRMED");
+      const order: BookingOrder = {
+        sessionId: quote.sessionId,
+        flightId: quote.flightId,
+        bucketCode: bucket.code,
+        quantity: quote.quantity,
+        seatNumbers: quote.seatNumbers.length > 0 ? quote.seatNumbers : undefined,
+        passengerName
+      };
+      const sale = await this.complete(tx, locked, bucket, order, quote.pricePerSeat);
+      if (!sale) throw new Error(`Held seats for quote ${quote.id} could not be assigned`);
+
+      const confirmation = await this.record(tx, sale, order);
+      await tx.update(quotes).set({ bookingId: confirmation.booking.id }).where(eq(quotes.id, quote.id));
+      return confirmation;
+    });
+  }
+
+  // Cancel a confirmed booking under its flight's lock, so concurrent sales see its seats and
+  // bucket places come back: its seats are released, its passengers come off the bucket and
+  // the refund comes off session revenue, all in one transaction. Null when the booking is
+  // no longer confirmed.
+  async cancel(booking: Booking, flightId: number, refund: Refund, cancelledAt: Date): Promise<{ booking: Booking; releasedSeats: Seat[] } | null> {
+    return db.transaction(async tx => {
+      if (!await this.lockFlight(tx, booking.sessionId, flightId)) return null;
+      const [cancelled] = await tx.update(bookings)
+        .set({ status: "CANCELLED", refundAmount: refund.total, cancelledAt })
+        .where(and(eq(bookings.id, booking.id), eq(bookings.status, "CONFIRMED")))
+        .returning();
+      if (!cancelled) return null;
+
+      const releasedSeats = await tx.update(seats)
+        .set({ status: "AVAILABLE", bookingId: null })
+        .where(eq(seats.bookingId, booking.id))
+        .returning();
+      await tx.update(buckets)
+        .set({
+          sold: sql`greatest(coalesce(${buckets.sold}, 0) - ${booking.passengerCount}, 0)`,
+          revenue: sql`${buckets.revenue} - ${refund.fare}`
+        })
+        .where(eq(buckets.id, booking.bucketId));
+      await tx.update(sessions)
+        .set({
+          totalRevenue: sql`coalesce(${sessions.totalRevenue}, 0) - ${refund.fare}`,
+          ancillaryRevenue: sql`coalesce(${sessions.ancillaryRevenue}, 0) - ${refund.seatFees}`
+        })
+        .where(eq(sessions.id, booking.sessionId));
+      return { booking: cancelled, releasedSeats };
+    });
+  }
+
+  async getQuote(quoteId: string): Promise<Quote | undefined> {
+    const [quote] = await db.select().from(quotes).where(eq(quotes.id, quoteId.trim().toUpperCase()));
+    return quote;
+  }
+
+  // Release every lapsed hold, flight by flight. Returns the quotes that expired.
+  async expireHolds(): Promise<Quote[]> {
+    const lapsed = await db.selectDistinct({ sessionId: quotes.sessionId, flightId: quotes.flightId }).from(quotes)
+      .where(and(eq(quotes.status, "HELD"), lt(quotes.expiresAt, new Date())));
+    const expired: Quote[] = [];
+    for (const { sessionId, flightId } of lapsed) {
+      expired.push(...await db.transaction(async tx => (await this.lockFlight(tx, sessionId, flightId))?.expired ?? []));
+    }
+    return expired;
+  }
+
+  // Seats sold without a booking record, for simulated demand. Their fares are kept on the
+  // bucket, as there is no booking to refund them from.
+  async sellAnonymous(order: Omit<BookingOrder, 'passengerName'>): Promise<Sale | null> {
+    return db.transaction(async tx => {
+      const sale = await this.sell(tx, order);
+      if (sale) {
+        await tx.update(buckets)
+          .set({ anonymousFares: sql`${buckets.anonymousFares} + ${sale.totalFare}` })
+          .where(eq(buckets.id, sale.bucket.id));
+      }
+      return sale;
+    });
+  }
+
+  // Cancel seats sold without a booking record, for simulated cancellations. Each refunds
+  // `share` of the average fare the bucket's anonymous seats were sold at. Null when the
+  // bucket has fewer anonymous seats sold.
+  async cancelAnonymous(order: Omit<BookingOrder, 'passengerName' | 'seatNumbers'>, share: number): Promise<Refund | null> {
+    return db.transaction(async tx => {
+      const locked = await this.lockFlight(tx, order.sessionId, order.flightId);
+      const bucket = locked?.buckets.find(b => b.code === order.bucketCode);
+      if (!locked || !bucket) return null;
+      const booked = (await tx.select().from(bookings).where(and(eq(bookings.bucketId, bucket.id), eq(bookings.status, "CONFIRMED"))))
+        .reduce((sum, b) => sum + b.passengerCount, 0);
+      const anonymous = (bucket.sold || 0) - booked;
+      if (anonymous < order.quantity) return null;
+
+      const fares = Math.round(bucket.anonymousFares / anonymous * order.quantity);
+      const refund = computeRefund({ totalFare: fares, seatFees: 0 }, share);
+      const occupied = await tx.select().from(seats).where(and(
+        eq(seats.flightId, order.flightId), eq(seats.cabin, bucket.class), eq(seats.status, "OCCUPIED"), isNull(seats.bookingId)
+      ));
+      const released = Array.from(randomSeats(occupied, order.quantity));
+      if (released.length > 0) {
+        await tx.update(seats).set({ status: "AVAILABLE" }).where(inArray(seats.id, released.map(seat => seat.id)));
+      }
+      await tx.update(buckets)
+        .set({
+          sold: sql`greatest(coalesce(${buckets.sold}, 0) - ${order.quantity}, 0)`,
+          anonymousFares: sql`greatest(${buckets.anonymousFares} - ${fares}, 0)`,
+          revenue: sql`${buckets.revenue} - ${refund.fare}`
+        })
+        .where(eq(buckets.id, bucket.id));
+      await tx.update(sessions)
+        .set({ totalRevenue: sql`coalesce(${sessions.totalRevenue}, 0) - ${refund.fare}` })
+        .where(eq(sessions.id, order.sessionId));
+      return refund;
+    });
+  }
+
+  async getBooking(referenceCode: string): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.referenceCode, referenceCode.trim().toUpperCase()));
+    return booking;
+  }
+
+  // A session's bookings, newest first
+  async listBookings(sessionId: number, filter: BookingFilter = {}): Promise<Booking[]> {
+    const conditions = [eq(bookings.sessionId, sessionId)];
+    if (filter.status) conditions.push(eq(bookings.status, filter.status));
+    if (filter.flightId !== undefined) {
+      const flightBuckets = await db.select({ id: buckets.id }).from(buckets).where(eq(buckets.flightId, filter.flightId));
+      if (flightBuckets.length === 0) return [];
+      conditions.push(inArray(bookings.bucketId, flightBuckets.map(b => b.id)));
+    }
+    return db.select().from(bookings).where(and(...conditions)).orderBy(desc(bookings.createdAt), desc(bookings.id));
+  }
+
+  // Every bucket of the flight is locked: in nested inventory a bucket's availability depends
+  // on its whole cabin. Lapsed holds on the flight are released first.
+  private async lockFlight(tx: Transaction, sessionId: number, flightId: number): Promise<LockedFlight & { expired: Quote[] } | null> {
+    const [session] = await tx.select().from(sessions).where(eq(sessions.id, sessionId));
+    const [flight] = await tx.select().from(flights).where(and(eq(flights.id, flightId), eq(flights.sessionId, sessionId)));
+    if (!session || !flight) return null;
+
+    let flightBuckets = await tx.select().from(buckets)
+      .where(eq(buckets.flightId, flightId))
+      .orderBy(asc(buckets.id))
+      .for('update');
+    const expired = await tx.select().from(quotes)
+      .where(and(eq(quotes.flightId, flightId), eq(quotes.status, "HELD"), lt(quotes.expiresAt, new Date())));
+    if (expired.length > 0) {
+      for (const quote of expired) await this.release(tx, quote, "EXPIRED");
+      flightBuckets = await tx.select().from(buckets).where(eq(buckets.flightId, flightId)).orderBy(asc(buckets.id));
+      logger.info('Booking', `Released ${expired.length} lapsed hold(s) on flight ${flightId}`);
+    }
+    return { session, flight, buckets: flightBuckets, expired };
+  }
+
+  // Give a quote's seats back to its bucket and cabin and close it
+  private async release(tx: Transaction, quote: Quote, status: "CONFIRMED" | "EXPIRED"): Promise<void> {
+    await tx.update(buckets)
+      .set({ held: sql`greatest(${buckets.held} - ${quote.quantity}, 0)` })
+      .where(eq(buckets.id, quote.bucketId));
+    if (quote.seatNumbers.length > 0) {
+      const heldSeats = (await tx.select().from(seats).where(and(eq(seats.flightId, quote.flightId), eq(seats.status, "HELD"))))
+        .filter(seat => quote.seatNumbers.includes(seatNumber(seat)));
+      if (heldSeats.length > 0) {
+        await tx.update(seats).set({ status: "AVAILABLE" }).where(inArray(seats.id, heldSeats.map(seat => seat.id)));
+      }
+    }
+    await tx.update(quotes).set({ status }).where(eq(quotes.id, quote.id));
+  }
+
+  private async sell(tx: Transaction, order: BookingOrder): Promise<Sale | null> {
+    const locked = await this.lockFlight(tx, order.sessionId, order.flightId);
+    // Bucket codes repeat across flights, so the flight is part of the key
+    const bucket = locked?.buckets.find(b => b.code === order.bucketCode);
+    if (!locked || !bucket || availableSeats(locked.buckets, locked.session.inventoryMode)[bucket.code] < order.quantity) {
+      return null;
+    }
+    return this.complete(tx, locked, bucket, order, bucket.price);
+  }
+
+  // Seat the passengers, add them to the bucket and their fare to session revenue
+  private async complete(tx: Transaction, locked: LockedFlight, bucket: Bucket, order: BookingOrder, pricePerSeat: number): Promise<Sale | null> {
+    const { sessionId, flightId, quantity, seatNumbers } = order;
+    const assignment = await this.assignSeats(tx, flightId, bucket.class, quantity, seatNumbers);
+    if (!assignment) return null;
+
+    // Added to the stored totals, so concurrent sales don't overwrite each other's revenue
+    const totalFare = pricePerSeat * quantity;
+    await tx.update(buckets)
+      .set({
+        sold: sql`coalesce(${buckets.sold}, 0) + ${quantity}`,
+        revenue: sql`${buckets.revenue} + ${totalFare}`
+      })
+      .where(eq(buckets.id, bucket.id));
+
+    await tx.update(sessions)
+      .set({
+        totalRevenue: sql`coalesce(${sessions.totalRevenue}, 0) + ${totalFare}`,
+        ancillaryRevenue: sql`coalesce(${sessions.ancillaryRevenue}, 0) + ${assignment.seatFees}`
+      })
+      .where(eq(sessions.id, sessionId));
+
+    return { ...assignment, flight: locked.flight, bucket, pricePerSeat, totalFare };
+  }
+
+  private async record(tx: Transaction, sale: Sale, order: BookingOrder): Promise<BookingConfirmation> {
+    const [booking] = await tx.insert(bookings).values({
+      sessionId: order.sessionId,
+      bucketId: sale.bucket.id,
+      referenceCode: await this.uniqueCode(tx, 'IND-', 6, code => tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.referenceCode, code))),
+      passengerCount: order.quantity,
+      pricePerSeat: sale.pricePerSeat,
+      totalFare: sale.totalFare,
+      seatFees: sale.seatFees,
+      passengerName: order.passengerName || "Guest",
+      status: "CONFIRMED"
+    }).returning();
+    if (sale.seats.length > 0) {
+      await tx.update(seats)
+        .set({ bookingId: booking.id })
+        .where(inArray(seats.id, sale.seats.map(seat => seat.id)));
+    }
+    return { ...sale, seats: sale.seats.map(seat => ({ ...seat, bookingId: booking.id })), booking };
+  }
+
+  // Occupy seats in a cabin. Null when a requested seat is unknown or taken. Automatic
+  // assignment seats as many passengers as the cabin has free seats: an overbooked cabin
+  // sells more bookings than seats, and the rest are seated at check-in if others no-show.
+  private async assignSeats(tx: Transaction, flightId: number, cabin: string, quantity: number, seatNumbers?: string[]): Promise<SeatAssignment | null> {
+    const cabinSeats = await tx.select().from(seats).where(and(eq(seats.flightId, flightId), eq(seats.cabin, cabin)));
+    const free = cabinSeats.filter(s => s.status === "AVAILABLE").length;
+    const selected = seatNumbers && seatNumbers.length > 0
+      ? (seatNumbers.length === quantity ? findSeats(cabinSeats, seatNumbers) : null)
+      : pickSeats(cabinSeats, Math.min(quantity, free));
+    if (!selected) {
+      logger.warn('Booking', `Seat assignment failed on flight ${flightId}: ${seatNumbers?.join(', ') || `${quantity} seats`} in ${cabin}`);
+      return null;
+    }
+
+    if (selected.length > 0) {
+      await tx.update(seats)
+        .set({ status: "OCCUPIED" })
+        .where(inArray(seats.id, selected.map(seat => seat.id)));
+    }
+    return {
+      seats: selected.map(seat => ({ ...seat, status: "OCCUPIED" })),
+      seatFees: seatNumbers && seatNumbers.length > 0 ? selected.reduce((sum, seat) => sum + seat.fee, 0) : 0,
+      unseated: quantity - selected.length
+    };
+  }
+
+  private async uniqueCode(tx: Transaction, prefix: string, length: number, lookup: (code: string) => Promise<unknown[]>): Promise<string> {
+    for (;;) {
+      const code = generateCode(prefix, length);
+      if ((await lookup(code)).length === 0) return code;
+    }
+  }
+
+  private async uniqueQuoteId(tx: Transaction): Promise<string> {
+    return this.uniqueCode(tx, 'Q-', 8, code => tx.select({ id: quotes.id }).from(quotes).where(eq(quotes.id, code)));
+  }
+}
+
+export const bookingService = new BookingService();
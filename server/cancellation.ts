@@ -0,0 +1,17 @@
+import type { Booking } from "@shared/schema";
+
+// === REFUNDS ===
+// Each fare class refunds a share of its fare on cancellation (refundShare in
+// shared/aircraft.ts). Seat fees are only returned with fully refundable fares.
+
+export interface Refund {
+  fare: number;
+  seatFees: number;
+  total: number;
+}
+
+export function computeRefund(booking: Pick<Booking, 'totalFare' | 'seatFees'>, share: number): Refund {
+  const fare = Math.round(booking.totalFare * share);
+  const seatFees = share >= 1 ? booking.seatFees : 0;
+  return { fare, seatFees, total: fare + seatFees };
+}
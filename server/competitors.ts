@@ -0,0 +1,130 @@
+import type { CompetitorFare, ScenarioEnvironment } from "@shared/schema";
+
+// === COMPETITOR FARES ===
+// Each competitor on a flight's route quotes one economy fare, recorded in competitor_fares
+// whenever it changes. Competitors react to our economy fare moves after a lag: the more
+// aggressive the market (competitorAggressiveness), the sooner they react and the further
+// they follow, and past UNDERCUT_AGGRESSIVENESS they answer our cuts by going lower still.
+// With nothing to react to, fares drift back toward the competitor's base fare. A change to
+// the base fare itself (a market event or scenario edit) carries straight through.
+// Reactions are deterministic, like the rule-based agents.
+
+export type CompetitorFareCause =
+  | 'INITIAL'  // The competitor's base fare when the session starts
+  | 'MATCH'    // Followed our fare cut
+  | 'UNDERCUT' // Cut deeper than we did
+  | 'FOLLOW'   // Followed our fare rise part of the way
+  | 'DRIFT'    // Moved back toward its base fare
+  | 'MARKET'   // Its base fare changed
+  | 'FEED';    // Replayed from ingested fare observations (server/fare-feed.ts)
+
+export interface CompetitorMove {
+  competitor: string;
+  fare: number;
+  previousFare: number | null;
+  basePrice: number;
+  cause: CompetitorFareCause;
+  reasoning: string;
+}
+
+const UNDERCUT_AGGRESSIVENESS = 0.7;
+const UNDERCUT_DEPTH = 0.25;  // At aggressiveness 0.9, cuts go 5% deeper than ours
+const FOLLOW_SHARE = 0.5;     // Share of an aggressive response given to our fare rises
+const DRIFT_RATE = 0.2;       // Share of the gap to base fare closed per day
+const MIN_MOVE = 0.01;        // Smaller moves are ignored
+const FARE_FLOOR = 0.5;       // Fares stay within these multiples of the base fare
+const FARE_CEILING = 1.6;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const percent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(0)}%`;
+
+// Days before competitors answer one of our fare moves: 1 in a fierce market, 4 in a calm one
+export function reactionLagDays(aggressiveness: number): number {
+  return Math.round(1 + (1 - clamp(aggressiveness, 0, 1)) * 3);
+}
+
+export function initialCompetitorFares(env: ScenarioEnvironment): CompetitorMove[] {
+  return env.competitors.map(c => ({
+    competitor: c.name,
+    fare: c.basePrice,
+    previousFare: null,
+    basePrice: c.basePrice,
+    cause: 'INITIAL',
+    reasoning: `Base fare ₹${c.basePrice.toLocaleString()}`,
+  }));
+}
+
+// Each competitor's fare change for the day, given the relative move of our economy fares on
+// the day they are reacting to (0 for none). Competitors whose fare doesn't change are left out.
+export function reactToOurFares(env: ScenarioEnvironment, latest: CompetitorFare[], ourMove: number, lagDays: number): CompetitorMove[] {
+  const aggressiveness = env.competitorAggressiveness;
+  const moves: CompetitorMove[] = [];
+
+  for (const competitor of env.competitors) {
+    const base = competitor.basePrice;
+    const current = latest.find(f => f.competitor === competitor.name);
+    if (!current) {
+      moves.push(...initialCompetitorFares({ ...env, competitors: [competitor] }));
+      continue;
+    }
+
+    let fare = current.fare;
+    let cause: CompetitorFareCause | null = null;
+    const reasons: string[] = [];
+    if (current.basePrice !== base) {
+      fare = fare * base / current.basePrice;
+      cause = 'MARKET';
+      reasons.push(`Base fare moved ₹${current.basePrice.toLocaleString()} → ₹${base.toLocaleString()}`);
+    }
+
+    if (Math.abs(ourMove) >= MIN_MOVE) {
+      const undercut = ourMove < 0 && aggressiveness >= UNDERCUT_AGGRESSIVENESS;
+      const response = ourMove < 0
+        ? ourMove * aggressiveness - (undercut ? (aggressiveness - UNDERCUT_AGGRESSIVENESS) * UNDERCUT_DEPTH : 0)
+        : ourMove * aggressiveness * FOLLOW_SHARE;
+      fare *= 1 + response;
+      cause = undercut ? 'UNDERCUT' : ourMove < 0 ? 'MATCH' : 'FOLLOW';
+      reasons.push(`Our economy fares moved ${percent(ourMove)} ${lagDays} day(s) ago; responded ${percent(response)} at aggressiveness ${aggressiveness}`);
+    } else if (!cause && Math.abs(base - fare) / base >= MIN_MOVE) {
+      fare += (base - fare) * DRIFT_RATE;
+      cause = 'DRIFT';
+      reasons.push(`Drifting back toward base fare ₹${base.toLocaleString()}`);
+    }
+
+    fare = Math.round(clamp(fare, base * FARE_FLOOR, base * FARE_CEILING));
+    if (!cause || (fare === current.fare && current.basePrice === base)) continue;
+    moves.push({
+      competitor: competitor.name,
+      fare,
+      previousFare: current.fare,
+      basePrice: base,
+      cause,
+      reasoning: reasons.join('. '),
+    });
+  }
+  return moves;
+}
+
+// The flight environment with each competitor at its current fare, as shoppers, guardrails
+// and agents see the market. A base fare changed since the fare was recorded carries through.
+// Replayed feed fares stand in for the scenario's competitors altogether.
+export function applyCompetitorFares(env: ScenarioEnvironment, latest: CompetitorFare[]): ScenarioEnvironment {
+  const feed = latest.filter(f => f.cause === 'FEED');
+  if (feed.length > 0) {
+    return { ...env, competitors: feed.map(f => ({ name: f.competitor, basePrice: f.fare })) };
+  }
+  return {
+    ...env,
+    competitors: env.competitors.map(c => {
+      const current = latest.find(f => f.competitor === c.name);
+      return current ? { ...c, basePrice: Math.round(current.fare * c.basePrice / current.basePrice) } : c;
+    }),
+  };
+}
+
+// e.g. "Akasa Air ₹8,100 → ₹7,400 (UNDERCUT)"
+export function describeCompetitorMove(move: Pick<CompetitorMove, 'competitor' | 'fare' | 'previousFare' | 'cause'>): string {
+  return move.previousFare === null
+    ? `${move.competitor} ₹${move.fare.toLocaleString()}`
+    : `${move.competitor} ₹${move.previousFare.toLocaleString()} → ₹${move.fare.toLocaleString()} (${move.cause})`;
+}
@@ -0,0 +1,190 @@
+import type { Bucket, InventoryMode, ScenarioEnvironment } from "@shared/schema";
+import { availableSeats } from "@shared/inventory";
+
+// === STOCHASTIC DEMAND MODEL ===
+// Shoppers arrive each simulated day as a Poisson process. The arrival rate follows the
+// scenario's booking curve, scaled by base demand, seasonality and any active event.
+// Each shopper then decides whether to buy by comparing our fare with the market.
+
+export const DEMAND_MODEL = {
+  baselineConversion: 0.5, // Share of shoppers who buy when our fare equals the market reference
+  elasticity: 4,           // Steepness of the purchase curve against relative price
+  businessShare: 0.12,     // Share of shoppers looking for Business class
+  maxPartySize: 4,
+  minDailyArrivals: 0.5,   // Floor so the tail of the booking curve still sees some traffic
+  cancellationRate: 0.002, // Daily chance a sold seat is cancelled, unless the scenario sets one
+  noShowRate: 0.05,        // Share of passengers who don't turn up, unless the scenario sets one
+};
+
+export interface BookingRequest {
+  bucketCode: string;
+  quantity: number;
+}
+
+export interface DailyDemand {
+  shoppers: number;
+  requests: BookingRequest[];
+  lostToPrice: number;     // Shoppers who saw a fare but declined it
+  lostToCapacity: number;  // Shoppers who found no bucket with enough seats
+}
+
+// Rough demand adjustment for the scenario's free-text event description
+export function eventDemandFactor(eventImpact: string | null): number {
+  if (!eventImpact) return 1.0;
+  const text = eventImpact.toLowerCase();
+  if (text.includes('cancel')) return 0.6;
+  if (text.includes('weather') || text.includes('warning')) return 0.85;
+  if (text.includes('high demand') || text.includes('peak') || text.includes('expo')) return 1.25;
+  return 1.0;
+}
+
+// Knuth's method for small rates, normal approximation for large ones
+export function samplePoisson(lambda: number, rng: () => number = Math.random): number {
+  if (lambda <= 0) return 0;
+  if (lambda > 30) {
+    const u1 = Math.max(rng(), Number.EPSILON);
+    const u2 = rng();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * z));
+  }
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = 1;
+  do {
+    k++;
+    p *= rng();
+  } while (p > limit);
+  return k - 1;
+}
+
+// Successes in n trials with probability p each
+export function sampleBinomial(n: number, p: number, rng: () => number = Math.random): number {
+  let k = 0;
+  for (let i = 0; i < n; i++) {
+    if (rng() < p) k++;
+  }
+  return k;
+}
+
+// Probability that a shopper buys at `price` when the market reference is `referencePrice`
+export function purchaseProbability(price: number, referencePrice: number): number {
+  if (referencePrice <= 0) return DEMAND_MODEL.baselineConversion;
+  const relative = price / referencePrice - 1;
+  const logistic = 1 / (1 + Math.exp(DEMAND_MODEL.elasticity * relative));
+  return Math.min(1, 2 * DEMAND_MODEL.baselineConversion * logistic);
+}
+
+function expectedOccupancyAt(env: ScenarioEnvironment, day: number): number {
+  const forecast = env.demandForecast;
+  const before = forecast.filter(p => p.day <= day).pop() || forecast[0];
+  const after = forecast.find(p => p.day > day) || forecast[forecast.length - 1];
+  if (!before || !after) return 0;
+  if (before.day === after.day) return before.expectedOccupancy;
+  const ratio = (day - before.day) / (after.day - before.day);
+  return before.expectedOccupancy + ratio * (after.expectedOccupancy - before.expectedOccupancy);
+}
+
+// Market conditions relative to the booking curve: 1.0 for a neutral scenario
+function demandIntensity(env: ScenarioEnvironment): number {
+  return (0.5 + env.baseDemand) * (0.5 + env.seasonalityIndex) * eventDemandFactor(env.eventImpact);
+}
+
+// Expected shopper arrivals on the environment's current day
+export function expectedArrivals(env: ScenarioEnvironment): number {
+  const day = env.daysElapsed;
+  const forecastSeats = (expectedOccupancyAt(env, day) - expectedOccupancyAt(env, day - 1)) / 100 * env.totalSeats;
+  const avgPartySize = (1 + DEMAND_MODEL.maxPartySize) / 2;
+  const baseline = Math.max(DEMAND_MODEL.minDailyArrivals, forecastSeats / avgPartySize / DEMAND_MODEL.baselineConversion);
+  return baseline * demandIntensity(env);
+}
+
+// Seats of a `seats`-seat cabin the booking curve still expects to sell before departure
+export function expectedRemainingBookings(env: ScenarioEnvironment, seats: number): number {
+  const remaining = expectedOccupancyAt(env, env.bookingWindow) - expectedOccupancyAt(env, env.daysElapsed);
+  return Math.max(0, remaining / 100 * seats * demandIntensity(env));
+}
+
+// Fare a shopper compares ours against: the competitors' average economy fare, scaled by
+// our own business premium for business shoppers
+export function referenceFare(env: ScenarioEnvironment, buckets: Bucket[], cabin: string): number {
+  const competitorPrices = env.competitors.map(c => c.basePrice);
+  const marketEconomy = competitorPrices.length > 0
+    ? competitorPrices.reduce((sum, p) => sum + p, 0) / competitorPrices.length
+    : 0;
+  if (cabin !== 'BUSINESS') return marketEconomy;
+
+  const avgBase = (inCabin: Bucket[]) => inCabin.length > 0 ? inCabin.reduce((sum, b) => sum + b.basePrice, 0) / inCabin.length : 0;
+  const economyBase = avgBase(buckets.filter(b => b.class === 'ECONOMY'));
+  return economyBase > 0 ? marketEconomy * avgBase(buckets.filter(b => b.class === 'BUSINESS')) / economyBase : marketEconomy;
+}
+
+// Generate one simulated day of booking requests against the current fare ladder.
+// Buckets are not modified; sales are tracked on a local copy so requests never oversell.
+export function generateDailyDemand(
+  env: ScenarioEnvironment,
+  buckets: Bucket[],
+  mode: InventoryMode = 'partitioned',
+  rng: () => number = Math.random
+): DailyDemand {
+  const shoppers = samplePoisson(expectedArrivals(env), rng);
+  const local = buckets.map(b => ({ ...b }));
+  const references = {
+    ECONOMY: referenceFare(env, buckets, 'ECONOMY'),
+    BUSINESS: referenceFare(env, buckets, 'BUSINESS'),
+  };
+
+  const requests: BookingRequest[] = [];
+  let lostToPrice = 0;
+  let lostToCapacity = 0;
+
+  for (let i = 0; i < shoppers; i++) {
+    const cabin = rng() < DEMAND_MODEL.businessShare ? 'BUSINESS' : 'ECONOMY';
+    const partySize = 1 + Math.floor(rng() * DEMAND_MODEL.maxPartySize);
+    const referencePrice = references[cabin];
+
+    // Shoppers see the cheapest open fare in their cabin that fits the whole party
+    const available = availableSeats(local, mode);
+    const offer = local
+      .filter(b => b.class === cabin && (available[b.code] || 0) >= partySize)
+      .sort((a, b) => a.price - b.price)[0];
+
+    if (!offer) {
+      lostToCapacity++;
+      continue;
+    }
+    if (rng() >= purchaseProbability(offer.price, referencePrice)) {
+      lostToPrice++;
+      continue;
+    }
+
+    offer.sold = (offer.sold || 0) + partySize;
+    requests.push({ bucketCode: offer.code, quantity: partySize });
+  }
+
+  return { shoppers, requests, lostToPrice, lostToCapacity };
+}
+
+export function cancellationRate(env: ScenarioEnvironment): number {
+  return env.cancellationRate ?? DEMAND_MODEL.cancellationRate;
+}
+
+// One simulated day of cancellations: each sold seat cancels with the scenario's daily rate.
+// `buckets` carries the seats that can be cancelled this way in `sold`.
+export function generateDailyCancellations(
+  env: ScenarioEnvironment,
+  buckets: Bucket[],
+  rng: () => number = Math.random
+): BookingRequest[] {
+  return buckets
+    .map(b => ({ bucketCode: b.code, quantity: sampleBinomial(Math.max(0, b.sold || 0), cancellationRate(env), rng) }))
+    .filter(c => c.quantity > 0);
+}
+
+export function noShowRate(env: ScenarioEnvironment): number {
+  return env.noShowRate ?? DEMAND_MODEL.noShowRate;
+}
+
+// Passengers of `passengers` who don't turn up at departure
+export function sampleNoShows(env: ScenarioEnvironment, passengers: number, rng: () => number = Math.random): number {
+  return sampleBinomial(passengers, noShowRate(env), rng);
+}
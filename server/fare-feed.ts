@@ -0,0 +1,176 @@
+import type { CompetitorFare, FareObservation } from "@shared/schema";
+import type { ScenarioIssue } from "./scenarios";
+import type { CompetitorMove } from "./competitors";
+
+// === COMPETITOR FARE FEED ===
+// Analysts' scraped fare snapshots, one row per { carrier, route, departureDate, cabin, fare,
+// observedAt }, as CSV with a header row or as JSON. Rows are normalized before they are
+// stored in fare_observations: route codes like 'blr/dxb' become 'BLR-DXB', cabins like 'Y'
+// or 'economy' become ECONOMY, fares like '₹12,450' become numbers. A session with a
+// competitor feed replays the economy observations of its departure day by day in place of
+// the simulated competitor fares (server/competitors.ts).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NewFareObservation = Omit<FareObservation, 'id' | 'importedAt'>;
+
+const FIELDS = ['carrier', 'route', 'departureDate', 'cabin', 'fare', 'observedAt'] as const;
+
+const CABINS: Record<string, 'ECONOMY' | 'BUSINESS'> = {
+  economy: 'ECONOMY', eco: 'ECONOMY', y: 'ECONOMY', m: 'ECONOMY', coach: 'ECONOMY',
+  business: 'BUSINESS', bus: 'BUSINESS', j: 'BUSINESS', c: 'BUSINESS',
+};
+
+// Minimal RFC 4180 reader: quoted fields may hold commas, quotes ("") and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// 'departure_date', 'Departure Date' and 'departureDate' all name the same column
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// Raw rows from a request body: CSV text, JSON text, a JSON array, or { observations: [...] }
+export function readFareFeed(body: unknown): unknown[] {
+  if (typeof body === 'string') {
+    const text = body.replace(/^﻿/, '').trim();
+    if (text.startsWith('[') || text.startsWith('{')) return readFareFeed(JSON.parse(text));
+
+    const [header, ...lines] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map(name => FIELDS.find(f => columnKey(f) === columnKey(name)));
+    return lines.map(values => Object.fromEntries(
+      columns.flatMap((field, i) => field ? [[field, values[i]?.trim() ?? '']] : [])
+    ));
+  }
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === 'object' && Array.isArray((body as { observations?: unknown }).observations)) {
+    return (body as { observations: unknown[] }).observations;
+  }
+  throw new Error("expected CSV, a JSON array of observations, or { observations: [...] }");
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Normalizes each row, or lists every problem with its path, e.g. 'rows.3.fare' (rows count from 1)
+export function normalizeFareFeed(rows: unknown[], source?: string): { observations: NewFareObservation[]; issues: ScenarioIssue[] } {
+  const observations: NewFareObservation[] = [];
+  const issues: ScenarioIssue[] = [];
+  if (rows.length === 0) issues.push({ path: 'rows', message: "the feed has no rows" });
+
+  rows.forEach((raw, i) => {
+    const path = `rows.${i + 1}`;
+    const issue = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message });
+    if (!raw || typeof raw !== 'object') {
+      issues.push({ path, message: "must be an object" });
+      return;
+    }
+    const row = raw as Record<string, unknown>;
+
+    const carrier = typeof row.carrier === 'string' ? row.carrier.trim() : '';
+    if (!carrier) issue('carrier', "is required");
+
+    const routeMatch = typeof row.route === 'string' ? row.route.trim().match(/^([a-z]{3})\s*[-–/ ]?\s*([a-z]{3})$/i) : null;
+    if (!routeMatch) issue('route', `must be an origin and destination code like BLR-DXB (got ${JSON.stringify(row.route)})`);
+
+    const departure = toDate(row.departureDate);
+    if (!departure) issue('departureDate', `must be a date (got ${JSON.stringify(row.departureDate)})`);
+
+    const cabin = typeof row.cabin === 'string' ? CABINS[row.cabin.trim().toLowerCase()] : undefined;
+    if (!cabin) issue('cabin', `must be economy or business (got ${JSON.stringify(row.cabin)})`);
+
+    const fare = typeof row.fare === 'number' ? row.fare
+      : typeof row.fare === 'string' ? Number(row.fare.replace(/₹|INR|Rs\.?|,|\s/gi, ''))
+      : NaN;
+    if (!(fare > 0)) issue('fare', `must be a positive amount (got ${JSON.stringify(row.fare)})`);
+
+    const observedAt = toDate(row.observedAt);
+    if (!observedAt) issue('observedAt', `must be a date and time (got ${JSON.stringify(row.observedAt)})`);
+
+    if (!carrier || !routeMatch || !departure || !cabin || !(fare > 0) || !observedAt) return;
+    const departureDate = departure.toISOString().split('T')[0];
+    if (observedAt.getTime() >= new Date(departureDate).getTime() + DAY_MS) {
+      issue('observedAt', `is after the departure date ${departureDate}`);
+      return;
+    }
+    observations.push({
+      carrier,
+      route: `${routeMatch[1]}-${routeMatch[2]}`.toUpperCase(),
+      departureDate,
+      cabin,
+      fare: Math.round(fare),
+      observedAt,
+      source: source ?? null,
+    });
+  });
+  return { observations, issues };
+}
+
+// Days before departure a fare was observed
+function daysBefore(observation: FareObservation): number {
+  return Math.floor((new Date(observation.departureDate).getTime() - observation.observedAt.getTime()) / DAY_MS);
+}
+
+// Each carrier's fare at the same point of the booking window as the session: its last
+// observation at least `daysToDeparture` days out, or its first one if the feed starts later.
+// `observations` are one route, cabin and departure date. Carriers whose fare is unchanged are left out.
+export function replayFareFeed(observations: FareObservation[], daysToDeparture: number, latest: CompetitorFare[]): CompetitorMove[] {
+  const carriers = Array.from(new Set(observations.map(o => o.carrier))).sort();
+  const moves: CompetitorMove[] = [];
+  for (const carrier of carriers) {
+    const series = observations
+      .filter(o => o.carrier === carrier)
+      .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+    const observation = [...series].reverse().find(o => daysBefore(o) >= daysToDeparture) ?? series[0];
+    const current = latest.find(f => f.competitor === carrier);
+    if (current?.cause === 'FEED' && current.fare === observation.fare) continue;
+    moves.push({
+      competitor: carrier,
+      fare: observation.fare,
+      previousFare: current?.fare ?? null,
+      basePrice: observation.fare,
+      cause: 'FEED',
+      reasoning: `Observed ₹${observation.fare.toLocaleString()} on ${observation.observedAt.toISOString().split('T')[0]}, ` +
+        `${daysBefore(observation)} days before its ${observation.departureDate} departure` +
+        (observation.source ? ` (${observation.source})` : ''),
+    });
+  }
+  return moves;
+}
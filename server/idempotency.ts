@@ -0,0 +1,74 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { eq, and, lt } from "drizzle-orm";
+import { db } from "./db";
+import { idempotencyKeys } from "@shared/schema";
+import { logger } from "./logger";
+
+// === IDEMPOTENT REQUESTS ===
+// A client that retries a request with the same Idempotency-Key header gets the first
+// response back instead of a second booking. The first request claims the key by inserting
+// its row, so of two concurrent requests with one key only one is handled; the other gets
+// 409. Keys expire after a day. A request that fails with a server error releases its key,
+// so the client can retry it.
+
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// Reusing a key for a different request is a client error, not a retry
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.path}\n${JSON.stringify(req.body ?? {})}`)
+    .digest('hex');
+}
+
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) return next();
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` });
+  }
+
+  try {
+    const requestFingerprint = fingerprint(req);
+    await db.delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.key, key), lt(idempotencyKeys.createdAt, new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS))));
+    const [claimed] = await db.insert(idempotencyKeys)
+      .values({ key, fingerprint: requestFingerprint })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!claimed) {
+      const [existing] = await db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, key));
+      if (existing && existing.fingerprint !== requestFingerprint) {
+        return res.status(422).json({ message: "Idempotency-Key was already used for a different request" });
+      }
+      if (!existing || existing.statusCode === null) {
+        return res.status(409).json({ message: "A request with this Idempotency-Key is still being processed" });
+      }
+      logger.info('Idempotency', `Replaying ${existing.statusCode} response for key ${key}`);
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(existing.statusCode).json(existing.response);
+    }
+  } catch (e) {
+    logger.error('Idempotency', `Failed to claim key ${key}`, e);
+    return res.status(500).json({ message: "Failed to check Idempotency-Key" });
+  }
+
+  // Store the response before sending it, so a retry never finds the key unanswered
+  const send = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    const store = res.statusCode >= 500
+      ? db.delete(idempotencyKeys).where(eq(idempotencyKeys.key, key))
+      : db.update(idempotencyKeys).set({ statusCode: res.statusCode, response: body }).where(eq(idempotencyKeys.key, key));
+    store.then(
+      () => send(body),
+      e => {
+        logger.error('Idempotency', `Failed to store response for key ${key}`, e);
+        send(body);
+      }
+    );
+    return res;
+  }) as Response['json'];
+  next();
+}
@@ -0,0 +1,127 @@
+import type { Bucket, ScenarioEnvironment } from "@shared/schema";
+import { nestingOrder } from "@shared/inventory";
+import { expectedRemainingBookings, purchaseProbability, referenceFare } from "./demand";
+
+// === EMSR-b PROTECTION LEVELS ===
+// Protection levels for nested inventory (shared/inventory.ts), from the remaining demand
+// forecast and the current fare ladder.
+
+export interface FareClassDemand {
+  bucketCode: string;
+  fare: number;
+  mean: number; // Expected remaining bookings that would buy this fare but not the one above
+  sd: number;
+}
+
+export interface ProtectionLevel {
+  bucketCode: string;
+  protectionLevel: number;
+}
+
+// Inverse of the standard normal CDF (Acklam's rational approximation)
+export function inverseNormal(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858589208, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Split the cabin's remaining demand forecast across its fare ladder, priciest first.
+// A shopper buys the cheapest open fare they accept, so each class gets the shoppers who
+// accept its fare but not the next pricier one (purchase curve from server/demand.ts).
+// Arrivals are Poisson, so each class's standard deviation is the root of its mean.
+export function forecastFareClassDemand(env: ScenarioEnvironment, buckets: Bucket[], cabin: string): FareClassDemand[] {
+  const ladder = nestingOrder(buckets, cabin);
+  const capacity = ladder.reduce((sum, b) => sum + b.allocated, 0);
+  const total = expectedRemainingBookings(env, capacity);
+  const reference = referenceFare(env, buckets, cabin);
+  const acceptance = ladder.map(b => purchaseProbability(b.price, reference));
+  const lowest = acceptance[acceptance.length - 1] || 0;
+
+  return ladder.map((bucket, i) => {
+    const share = lowest > 0 ? Math.max(0, acceptance[i] - (i > 0 ? acceptance[i - 1] : 0)) / lowest : 0;
+    const mean = total * share;
+    return { bucketCode: bucket.code, fare: bucket.price, mean, sd: Math.sqrt(mean) };
+  });
+}
+
+// EMSR-b: for each class j (priciest first), treat classes 1..j as one class with their
+// summed demand and demand-weighted fare, and protect y_j seats where
+// P(aggregate demand > y_j) = fare of class j+1 / aggregate fare.
+// Returns one level per class except the cheapest, capped at `capacity` and non-decreasing.
+export function emsrb(classes: FareClassDemand[], capacity: number): number[] {
+  const levels: number[] = [];
+  let mean = 0;
+  let variance = 0;
+  let revenue = 0;
+
+  for (let j = 0; j < classes.length - 1; j++) {
+    mean += classes[j].mean;
+    variance += classes[j].sd ** 2;
+    revenue += classes[j].fare * classes[j].mean;
+
+    let level = 0;
+    if (mean > 0) {
+      const ratio = classes[j + 1].fare / (revenue / mean);
+      level = ratio >= 1 ? 0 : mean + Math.sqrt(variance) * inverseNormal(1 - ratio);
+    }
+    const previous = levels[j - 1] ?? 0;
+    levels.push(Math.min(capacity, Math.max(previous, Math.round(level))));
+  }
+  return levels;
+}
+
+// Protection levels for every cabin of a flight, on the seats each cabin has left
+export function protectionLevels(env: ScenarioEnvironment, buckets: Bucket[]): ProtectionLevel[] {
+  const result: ProtectionLevel[] = [];
+  for (const cabin of Array.from(new Set(buckets.map(b => b.class)))) {
+    const ladder = nestingOrder(buckets, cabin);
+    const remaining = Math.max(0, ladder.reduce((sum, b) => sum + b.allocated - (b.sold || 0), 0));
+    const levels = emsrb(forecastFareClassDemand(env, buckets, cabin), remaining);
+    levels.forEach((protectionLevel, i) => result.push({ bucketCode: ladder[i].code, protectionLevel }));
+  }
+  return result;
+}
+
+// Lower the protection above a group's bucket until the group fits. Every level above the
+// target is capped at the cabin's remaining seats minus the group size.
+export function accommodateGroup(
+  buckets: Bucket[],
+  levels: ProtectionLevel[],
+  cabin: string,
+  passengers: number,
+  targetBucketCode?: string
+): { levels: ProtectionLevel[]; accommodated: boolean; target?: string } {
+  const ladder = nestingOrder(buckets, cabin);
+  const target = ladder.find(b => b.code === targetBucketCode) ?? ladder[ladder.length - 1];
+  if (!target) return { levels, accommodated: false };
+
+  const remaining = Math.max(0, ladder.reduce((sum, b) => sum + b.allocated - (b.sold || 0), 0));
+  const above = new Set(ladder.slice(0, ladder.indexOf(target)).map(b => b.code));
+  const cap = Math.max(0, remaining - passengers);
+  return {
+    levels: levels.map(l => above.has(l.bucketCode) ? { ...l, protectionLevel: Math.min(l.protectionLevel, cap) } : l),
+    accommodated: remaining >= passengers,
+    target: target.code
+  };
+}
+
+// e.g. "BUS_2 4, ECO_4 9, ECO_3 21"
+export function describeProtectionLevels(levels: ProtectionLevel[]): string {
+  return levels.length > 0 ? levels.map(l => `${l.bucketCode} ${l.protectionLevel}`).join(', ') : "none";
+}
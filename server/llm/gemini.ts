@@ -0,0 +1,56 @@
+import { GoogleGenAI } from "@google/genai";
+import { type LlmProvider, type LlmProviderName, type LlmRequest, resolveModel, toMessages, withTimeout, streamWithTimeout } from "./provider";
+
+// Supports both Replit AI Integrations and standalone .env configuration
+const geminiApiKey = process.env.AI_INTEGRATIONS_GEMINI_API_KEY || process.env.GEMINI_API_KEY || "dummy";
+const geminiBaseUrl = process.env.AI_INTEGRATIONS_GEMINI_BASE_URL;
+
+// Shared client, also used directly for Gemini-only features such as image generation
+export const geminiClient = new GoogleGenAI({
+  apiKey: geminiApiKey,
+  httpOptions: geminiBaseUrl ? {
+    apiVersion: "",
+    baseUrl: geminiBaseUrl,
+  } : undefined,
+});
+
+function toContents(request: LlmRequest) {
+  return toMessages(request.input).map(m => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: m.content }],
+  }));
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'gemini';
+
+  async generate(request: LlmRequest): Promise<string> {
+    return withTimeout(request, async (abortSignal) => {
+      const response = await geminiClient.models.generateContent({
+        model: resolveModel(this.name, request.purpose),
+        contents: toContents(request),
+        config: {
+          abortSignal,
+          ...(request.json ? { responseMimeType: "application/json" } : {}),
+        },
+      });
+      return response.text || "";
+    });
+  }
+
+  stream(request: LlmRequest): AsyncIterable<string> {
+    return streamWithTimeout(request, async function* (abortSignal) {
+      const stream = await geminiClient.models.generateContentStream({
+        model: resolveModel('gemini', request.purpose),
+        contents: toContents(request),
+        config: {
+          abortSignal,
+          ...(request.json ? { responseMimeType: "application/json" } : {}),
+        },
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { logger } from "../logger";
+import type { LlmProvider, LlmProviderName } from "./provider";
+import { GeminiProvider } from "./gemini";
+import { OpenAiCompatibleProvider } from "./openai";
+import { ScriptedProvider } from "./scripted";
+
+export * from "./provider";
+export { GeminiProvider, geminiClient } from "./gemini";
+export { OpenAiCompatibleProvider } from "./openai";
+export { ScriptedProvider, DEFAULT_SCRIPT, type LlmScript, type ScriptedResponse } from "./scripted";
+
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAiCompatibleProvider();
+    case 'scripted':
+      return new ScriptedProvider();
+    default:
+      return new GeminiProvider();
+  }
+}
+
+let provider: LlmProvider | undefined;
+
+// Process-wide provider chosen by LLM_PROVIDER (gemini | openai | scripted)
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const name = (process.env.LLM_PROVIDER || 'gemini') as LlmProviderName;
+    provider = createLlmProvider(name);
+    logger.info('LLM', `Using ${provider.name} provider`);
+  }
+  return provider;
+}
+
+// Swap the provider at runtime, e.g. to a ScriptedProvider with a custom script
+export function setLlmProvider(next: LlmProvider): void {
+  provider = next;
+}
@@ -0,0 +1,78 @@
+import { type LlmProvider, type LlmProviderName, type LlmRequest, resolveModel, toMessages, withTimeout, streamWithTimeout } from "./provider";
+
+// Any server exposing the OpenAI Chat Completions API (OpenAI, Azure-compatible gateways,
+// vLLM, Ollama, LM Studio, ...)
+const openaiApiKey = process.env.OPENAI_API_KEY || "";
+const openaiBaseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+function buildBody(provider: LlmProviderName, request: LlmRequest, stream: boolean) {
+  return JSON.stringify({
+    model: resolveModel(provider, request.purpose),
+    messages: toMessages(request.input),
+    stream,
+    ...(request.json ? { response_format: { type: "json_object" } } : {}),
+  });
+}
+
+async function post(body: string, signal: AbortSignal): Promise<Response> {
+  const res = await fetch(`${openaiBaseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(openaiApiKey ? { Authorization: `Bearer ${openaiApiKey}` } : {}),
+    },
+    body,
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`OpenAI-compatible request failed: ${res.status} ${await res.text()}`);
+  }
+  return res;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'openai';
+
+  async generate(request: LlmRequest): Promise<string> {
+    return withTimeout(request, async (signal) => {
+      const res = await post(buildBody(this.name, request, false), signal);
+      const data = await res.json() as ChatCompletionResponse;
+      return data.choices?.[0]?.message?.content || "";
+    });
+  }
+
+  stream(request: LlmRequest): AsyncIterable<string> {
+    const body = buildBody(this.name, request, true);
+    return streamWithTimeout(request, async function* (signal) {
+      const res = await post(body, signal);
+      if (!res.body) return;
+
+      // Server-sent events: one `data: {...}` line per chunk, terminated by `data: [DONE]`
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) yield content;
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import type { SubAgentType } from "@shared/schema";
+
+// What a model call is for. Each purpose can be pointed at its own model via
+// LLM_MODEL_<PURPOSE> (e.g. LLM_MODEL_PRICING=gemini-2.5-pro).
+export type LlmPurpose =
+  | 'orchestrator'
+  | SubAgentType
+  | 'booking_chat'
+  | 'chat'
+  | 'batch'
+  | 'image';
+
+export type LlmProviderName = 'gemini' | 'openai' | 'scripted';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  purpose: LlmPurpose;
+  input: string | LlmMessage[]; // A single prompt, or a conversation
+  json?: boolean;               // Ask the model for a JSON-only response
+  timeoutMs?: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  generate(request: LlmRequest): Promise<string>;
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(purpose: LlmPurpose, timeoutMs: number) {
+    super(`LLM call for '${purpose}' timed out after ${timeoutMs}ms`);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  scripted: "scripted",
+};
+
+export const DEFAULT_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || "30000", 10);
+
+// Per-purpose override, then LLM_MODEL, then the provider's default
+export function resolveModel(provider: LlmProviderName, purpose: LlmPurpose, fallback?: string): string {
+  return process.env[`LLM_MODEL_${purpose.toUpperCase()}`]
+    || (purpose === 'image' ? undefined : process.env.LLM_MODEL)
+    || fallback
+    || DEFAULT_MODELS[provider];
+}
+
+export function toMessages(input: string | LlmMessage[]): LlmMessage[] {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+}
+
+// Run `fn` with an AbortSignal that fires after the request's timeout
+export async function withTimeout<T>(request: LlmRequest, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fn(controller.signal);
+  } catch (e) {
+    if (controller.signal.aborted) throw new LlmTimeoutError(request.purpose, timeoutMs);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Streaming counterpart of withTimeout; the deadline covers the whole stream
+export async function* streamWithTimeout(
+  request: LlmRequest,
+  fn: (signal: AbortSignal) => AsyncIterable<string>
+): AsyncIterable<string> {
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    for await (const chunk of fn(controller.signal)) {
+      yield chunk;
+    }
+  } catch (e) {
+    if (controller.signal.aborted) throw new LlmTimeoutError(request.purpose, timeoutMs);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
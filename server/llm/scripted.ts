@@ -0,0 +1,91 @@
+import fs from "fs";
+import { type LlmProvider, type LlmProviderName, type LlmPurpose, type LlmRequest } from "./provider";
+
+// A canned response is raw text, a JSON value (serialized on replay) or, in the default
+// script, built from the request. A list is replayed in order, repeating its last entry
+// once exhausted.
+export type ScriptedResponse = string | Record<string, unknown> | ((request: LlmRequest) => string | Record<string, unknown>);
+export type LlmScript = Partial<Record<LlmPurpose, ScriptedResponse | ScriptedResponse[]>>;
+
+// Bucket codes from the "ECO_1 (ECONOMY): Base ₹..." lines of the Pricing Agent's prompt
+function promptBucketCodes(request: LlmRequest): string[] {
+  const text = typeof request.input === 'string' ? request.input : request.input.map(m => m.content).join('\n');
+  return Array.from(new Set(Array.from(text.matchAll(/^(\w+) \(\w+\): Base ₹/gm), m => m[1])));
+}
+
+// Multiplier range the Pricing Agent's prompt asks for ("multiplier": 0.8 to 1.2)
+function promptMultiplierRange(request: LlmRequest): [number, number] {
+  const text = typeof request.input === 'string' ? request.input : request.input.map(m => m.content).join('\n');
+  const match = text.match(/"multiplier": ([\d.]+) to ([\d.]+)/);
+  return match ? [Number(match[1]), Number(match[2])] : [0, Infinity];
+}
+
+// Responses shaped like each agent's expected JSON so the whole pipeline runs offline.
+// Pricing covers whichever buckets the flight's aircraft has, within the guardrails' multipliers.
+export const DEFAULT_SCRIPT: LlmScript = {
+  orchestrator: {
+    objective: "Scripted pricing optimization",
+    strategy: "BALANCED",
+    reasoning: "Scripted plan for offline runs",
+    estimatedImpact: "Standard pricing adjustments",
+    tasks: [
+      { agentType: "objective", priority: 1, reason: "Set pricing strategy", dependsOn: [], inputContext: ["environment"] },
+      { agentType: "forecast", priority: 2, reason: "Analyze demand", dependsOn: ["objective"], inputContext: ["environment", "objective"] },
+      { agentType: "competitor", priority: 2, reason: "Check competition", dependsOn: [], inputContext: ["environment"] },
+      { agentType: "pricing", priority: 3, reason: "Calculate prices", dependsOn: ["objective", "forecast", "competitor"], inputContext: ["objective", "forecast", "competitor"] },
+      { agentType: "overbooking", priority: 3, reason: "Set authorized capacity", dependsOn: ["forecast"], inputContext: ["forecast", "buckets"] },
+      { agentType: "seat_allocation", priority: 4, reason: "Adjust allocation", dependsOn: ["pricing", "overbooking"], inputContext: ["pricing", "overbooking", "buckets"] }
+    ]
+  },
+  objective: { objective: "REVENUE_MAXIMIZATION", confidence: "MEDIUM", reasoning: "Scripted objective", urgency: "MEDIUM" },
+  forecast: { demandScore: 0.6, bookingVelocity: "STEADY", peakProbability: 0.3, reasoning: "Scripted forecast" },
+  pricing: (request) => {
+    const [min, max] = promptMultiplierRange(request);
+    const within = (multiplier: number) => Math.min(max, Math.max(min, multiplier));
+    return {
+      adjustmentType: "INCREASE",
+      reasoning: "Scripted pricing",
+      breakdownFactors: { objective: 0.02, demand: 0.02, fuel: 0.01, competition: 0 },
+      bucketPrices: promptBucketCodes(request).map(bucketCode => bucketCode === "ECO_1"
+        ? { bucketCode, multiplier: within(1.06), reasoning: "Lowest fare selling fastest" }
+        : { bucketCode, multiplier: within(1.04), reasoning: "Scripted" })
+    };
+  },
+  seat_allocation: { action: "HOLD", confidence: "MEDIUM", reasoning: "Scripted allocation", suggestedChanges: [], protectionLevels: [], groupBookingAccommodated: false },
+  overbooking: { action: "HOLD", confidence: "MEDIUM", reasoning: "Scripted overbooking", authorizedCapacity: [] },
+  competitor: { threatLevel: "MEDIUM", marketPosition: "COMPETITIVE", reasoning: "Scripted competitor analysis", recommendedResponse: "Hold current positioning" },
+  booking_chat: "This is a scripted booking assistant. Which class would you like to book, Economy or Business?",
+  chat: "This is a scripted response.",
+  batch: "Scripted batch result.",
+};
+
+// Replays canned responses per purpose. Load a custom script with LLM_SCRIPT_PATH.
+export class ScriptedProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'scripted';
+  private cursors = new Map<LlmPurpose, number>();
+
+  constructor(private script: LlmScript = ScriptedProvider.loadScript()) {}
+
+  static loadScript(): LlmScript {
+    const scriptPath = process.env.LLM_SCRIPT_PATH;
+    if (!scriptPath) return DEFAULT_SCRIPT;
+    return { ...DEFAULT_SCRIPT, ...JSON.parse(fs.readFileSync(scriptPath, "utf-8")) as LlmScript };
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    const entry = this.script[request.purpose];
+    if (entry === undefined) {
+      throw new Error(`No scripted response for '${request.purpose}'`);
+    }
+    const responses = Array.isArray(entry) ? entry : [entry];
+    const cursor = this.cursors.get(request.purpose) || 0;
+    this.cursors.set(request.purpose, cursor + 1);
+    const entryResponse = responses[Math.min(cursor, responses.length - 1)];
+    const response = typeof entryResponse === 'function' ? entryResponse(request) : entryResponse;
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    yield await this.generate(request);
+  }
+}
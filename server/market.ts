@@ -0,0 +1,47 @@
+import type { MarketChange, MarketConditions, ScenarioEnvironment } from "@shared/schema";
+
+// === MARKET EVENTS ===
+// A session's market starts as its scenario's environment. Market events on the session's
+// timeline (e.g. "day 32: IPL cancelled, baseDemand → 0.28") change it when the simulated
+// clock reaches their day; the changed fields are kept on the session (sessions.market).
+
+const NUMERIC_FIELDS = ['baseDemand', 'seasonalityIndex', 'fuelCostIndex', 'competitorAggressiveness'] as const;
+
+// The session's market after the change, from the environment it's applied to
+export function applyMarketChange(env: ScenarioEnvironment, change: MarketChange): MarketConditions {
+  const { competitorFares, ...conditions } = change;
+  if (!competitorFares) return conditions;
+  return {
+    ...conditions,
+    competitors: env.competitors.map(c => {
+      const move = competitorFares.find(f => f.name === c.name);
+      return move ? { ...c, basePrice: Math.round(c.basePrice * (1 + move.change)) } : c;
+    }),
+  };
+}
+
+// Competitor fare moves must name a competitor in the session's market
+export function validateMarketChange(env: ScenarioEnvironment, change: MarketChange): string[] {
+  return (change.competitorFares ?? [])
+    .filter(f => !env.competitors.some(c => c.name === f.name))
+    .map(f => `unknown competitor ${f.name} (known: ${env.competitors.map(c => c.name).join(', ') || 'none'})`);
+}
+
+// e.g. "baseDemand 0.85 → 0.28, Akasa Air fare -40% (₹16,900 → ₹10,140)"
+export function describeMarketChange(env: ScenarioEnvironment, change: MarketChange): string {
+  const parts: string[] = [];
+  for (const field of NUMERIC_FIELDS) {
+    const value = change[field];
+    if (value !== undefined) parts.push(`${field} ${env[field]} → ${value}`);
+  }
+  if (change.eventImpact !== undefined) parts.push(change.eventImpact ? `event: ${change.eventImpact}` : `event cleared`);
+  if (change.weatherForecast !== undefined) parts.push(`weather: ${change.weatherForecast}`);
+  for (const move of change.competitorFares ?? []) {
+    const competitor = env.competitors.find(c => c.name === move.name);
+    const percent = `${move.change > 0 ? '+' : ''}${Math.round(move.change * 100)}%`;
+    parts.push(competitor
+      ? `${move.name} fare ${percent} (₹${competitor.basePrice.toLocaleString()} → ₹${Math.round(competitor.basePrice * (1 + move.change)).toLocaleString()})`
+      : `${move.name} fare ${percent}`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,118 @@
+import type { Flight, RouteDef, ScenarioDef, ScenarioEnvironment } from "@shared/schema";
+import { DEFAULT_AIRCRAFT_CODE, getAircraft, totalSeats, type AircraftConfig } from "@shared/aircraft";
+import { getExpectedOccupancy } from "./scenarios";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// === ROUTE NETWORK ===
+// Scenario environments are written for BLR-DXB; the other routes reuse the scenario's
+// market conditions with their own fare level and demand.
+
+export const DEFAULT_ROUTE_CODE = "BLR-DXB";
+
+export const ROUTES: RouteDef[] = [
+  {
+    code: "BLR-DXB",
+    origin: "BLR",
+    originCity: "Bangalore",
+    destination: "DXB",
+    destinationCity: "Dubai",
+    flightNumber: "6E 1481",
+    departureTime: "04:30",
+    aircraft: "A321neo",
+    fareScale: 1.0,
+    demandScale: 1.0
+  },
+  {
+    code: "DEL-DXB",
+    origin: "DEL",
+    originCity: "Delhi",
+    destination: "DXB",
+    destinationCity: "Dubai",
+    flightNumber: "6E 1461",
+    departureTime: "09:15",
+    aircraft: "A320",
+    fareScale: 0.95,
+    demandScale: 1.15
+  },
+  {
+    code: "BOM-SIN",
+    origin: "BOM",
+    originCity: "Mumbai",
+    destination: "SIN",
+    destinationCity: "Singapore",
+    flightNumber: "6E 1011",
+    departureTime: "23:40",
+    aircraft: "737MAX8",
+    fareScale: 1.3,
+    demandScale: 0.9
+  }
+];
+
+// Routes and aircraft requested when a session is created
+export interface NetworkSelection {
+  routes?: string[];                  // Route codes; the scenario's network when omitted
+  aircraft?: Record<string, string>;  // Aircraft code per route code; the route's default when omitted
+}
+
+export function getRoute(code: string): RouteDef | undefined {
+  return ROUTES.find(r => r.code === code);
+}
+
+// Routes for a new session: the requested codes, else the scenario's own, else BLR-DXB.
+// Unknown codes are dropped.
+export function resolveRoutes(scenario: ScenarioDef, requested?: string[]): RouteDef[] {
+  const codes = requested && requested.length > 0 ? requested : scenario.routes ?? [DEFAULT_ROUTE_CODE];
+  const routes = Array.from(new Set(codes)).map(getRoute).filter((r): r is RouteDef => !!r);
+  return routes.length > 0 ? routes : [getRoute(DEFAULT_ROUTE_CODE)!];
+}
+
+// Aircraft for a route: the requested type when it exists, else the route's default
+export function resolveAircraft(route: RouteDef, requested?: Record<string, string>): AircraftConfig {
+  const code = requested?.[route.code];
+  return (code && getAircraft(code)) || getAircraft(route.aircraft) || getAircraft(DEFAULT_AIRCRAFT_CODE)!;
+}
+
+// Scheduled departure at the route's local slot, on the session's departure day moved by
+// the scenario's departure offset for the route (ScenarioDef.departureOffsets)
+export function scheduleDeparture(departureDay: Date, route: RouteDef, scenario: ScenarioDef): Date {
+  const [hours, minutes] = route.departureTime.split(':').map(Number);
+  const departure = new Date(departureDay.getTime() + (scenario.departureOffsets?.[route.code] ?? 0) * DAY_MS);
+  departure.setUTCHours(hours, minutes, 0, 0);
+  return departure;
+}
+
+// Whole days from the session's departure day to the flight's (0 or less)
+function departureOffset(env: ScenarioEnvironment, flight: Flight): number {
+  return Math.round((Date.parse(flight.departureDate.toISOString().split('T')[0]) - Date.parse(env.departureDate)) / DAY_MS);
+}
+
+// Flight label for logs and prompts, e.g. "6E 1481 BLR → DXB"
+export function describeFlight(flight: Flight): string {
+  return `${flight.flightNumber} ${flight.origin} → ${flight.destination}`;
+}
+
+// The session environment as seen by one flight: its own route, aircraft, fare level and
+// departure date. A flight leaving before the session's departure day is further into its
+// booking window, so its days to departure and expected occupancy are its own.
+export function flightEnvironment(env: ScenarioEnvironment, flight: Flight): ScenarioEnvironment {
+  const route = getRoute(flight.routeCode);
+  const aircraft = getAircraft(flight.aircraft);
+  const fareScale = route?.fareScale ?? 1;
+  const offset = departureOffset(env, flight);
+  const daysToDeparture = Math.max(0, env.daysToDeparture + offset);
+  const daysElapsed = Math.max(0, env.bookingWindow - daysToDeparture);
+  return {
+    ...env,
+    daysToDeparture,
+    daysElapsed,
+    departureDate: flight.departureDate.toISOString().split('T')[0],
+    expectedOccupancyToday: offset === 0 ? env.expectedOccupancyToday : getExpectedOccupancy(env.demandForecast, daysElapsed),
+    route: `${flight.origin} → ${flight.destination}`,
+    aircraft: aircraft?.name ?? flight.aircraft,
+    totalSeats: aircraft ? totalSeats(aircraft) : env.totalSeats,
+    baseDemand: Math.min(1, env.baseDemand * (route?.demandScale ?? 1)),
+    competitors: env.competitors.map(c => ({ ...c, basePrice: Math.round(c.basePrice * fareScale) })),
+    revenueTarget: Math.round(env.revenueTarget * fareScale),
+  };
+}
@@ -0,0 +1,123 @@
+import type { Bucket, ScenarioEnvironment } from "@shared/schema";
+import { nestingOrder } from "@shared/inventory";
+import { expectedRemainingBookings, noShowRate } from "./demand";
+
+// === OVERBOOKING ===
+// Authorized capacity per cabin: how many bookings to accept for its physical seats, given
+// that a share of passengers don't turn up. Shows are Binomial(bookings, 1 - no-show rate).
+
+export const OVERBOOKING_MODEL = {
+  deniedBoardingCost: { ECONOMY: 20000, BUSINESS: 60000 } as Record<string, number>, // Compensation, rebooking and goodwill per denied passenger
+  maxOverbookingShare: 0.15, // Authorized capacity never exceeds the cabin by more than this share
+};
+
+export interface CabinOverbooking {
+  cabin: string;
+  capacity: number;           // Physical seats
+  sold: number;
+  authorized: number;         // Bookings the cabin accepts before it closes
+  noShowRate: number;
+  deniedBoardingCost: number;
+  expectedBookings: number;   // Final bookings if the forecast materialises, up to authorized
+  expectedDeniedBoardings: number;
+  expectedSpoilage: number;   // Seats expected to fly empty
+}
+
+export interface OverbookingAllowance {
+  bucketCode: string;
+  seats: number; // Seats the bucket may sell beyond its allocation
+}
+
+// Probability of each number of shows among `bookings` passengers
+function showDistribution(bookings: number, showRate: number): number[] {
+  const n = Math.max(0, Math.round(bookings));
+  if (showRate >= 1) return Array.from({ length: n + 1 }, (_, k) => (k === n ? 1 : 0));
+  if (showRate <= 0) return Array.from({ length: n + 1 }, (_, k) => (k === 0 ? 1 : 0));
+
+  // Log space, so large cabins don't underflow
+  const logFactorial = [0];
+  for (let k = 1; k <= n; k++) logFactorial.push(logFactorial[k - 1] + Math.log(k));
+  return Array.from({ length: n + 1 }, (_, k) => Math.exp(
+    logFactorial[n] - logFactorial[k] - logFactorial[n - k] + k * Math.log(showRate) + (n - k) * Math.log(1 - showRate)
+  ));
+}
+
+// Expected denied boardings and empty seats when `bookings` passengers hold tickets for `capacity` seats
+export function expectedOutcome(capacity: number, bookings: number, rate: number): { deniedBoardings: number; spoilage: number } {
+  let deniedBoardings = 0;
+  let spoilage = 0;
+  showDistribution(bookings, 1 - rate).forEach((p, shows) => {
+    deniedBoardings += p * Math.max(0, shows - capacity);
+    spoilage += p * Math.max(0, capacity - shows);
+  });
+  return { deniedBoardings, spoilage };
+}
+
+// Accept one more booking while the fare it brings outweighs its expected denied-boarding
+// cost: the new passenger shows (1 - rate) and finds the other bookings already filling
+// the cabin. No-shows forfeit their fare, so every accepted booking earns `fare`.
+export function authorizedCapacity(capacity: number, rate: number, deniedBoardingCost: number, fare: number): number {
+  const limit = Math.floor(capacity * (1 + OVERBOOKING_MODEL.maxOverbookingShare));
+  let authorized = capacity;
+  while (authorized < limit) {
+    const others = showDistribution(authorized, 1 - rate);
+    const full = others.slice(capacity).reduce((sum, p) => sum + p, 0);
+    if (deniedBoardingCost * (1 - rate) * full > fare) break;
+    authorized++;
+  }
+  return authorized;
+}
+
+// Recommended authorized capacity per cabin, or the given one, with the expected outcome at
+// departure. The marginal booking is valued at the cabin's lowest current fare.
+export function planOverbooking(env: ScenarioEnvironment, buckets: Bucket[], authorized?: Record<string, number>): CabinOverbooking[] {
+  const rate = noShowRate(env);
+  return ['BUSINESS', 'ECONOMY'].flatMap(cabin => {
+    const ladder = nestingOrder(buckets, cabin);
+    if (ladder.length === 0) return [];
+
+    const capacity = ladder.reduce((sum, b) => sum + b.allocated, 0);
+    const sold = ladder.reduce((sum, b) => sum + (b.sold || 0), 0);
+    const cost = OVERBOOKING_MODEL.deniedBoardingCost[cabin] ?? OVERBOOKING_MODEL.deniedBoardingCost.ECONOMY;
+    const fare = ladder[ladder.length - 1].price;
+    const limit = authorized?.[cabin] ?? authorizedCapacity(capacity, rate, cost, fare);
+    const expectedBookings = Math.max(sold, Math.min(limit, Math.round(sold + expectedRemainingBookings(env, capacity))));
+    const outcome = expectedOutcome(capacity, expectedBookings, rate);
+
+    return [{
+      cabin,
+      capacity,
+      sold,
+      authorized: limit,
+      noShowRate: rate,
+      deniedBoardingCost: cost,
+      expectedBookings,
+      expectedDeniedBoardings: Math.round(outcome.deniedBoardings * 100) / 100,
+      expectedSpoilage: Math.round(outcome.spoilage * 100) / 100,
+    }];
+  });
+}
+
+// Authorized capacity currently in force: the cabin's allocation plus its buckets' allowances
+export function currentAuthorized(buckets: Bucket[]): Record<string, number> {
+  const authorized: Record<string, number> = {};
+  for (const b of buckets) {
+    authorized[b.class] = (authorized[b.class] || 0) + b.allocated + (b.overbooking || 0);
+  }
+  return authorized;
+}
+
+// Place each cabin's overbooking allowance on one bucket: the group's bucket when a group
+// booking is waiting in that cabin, otherwise the priciest, so extra seats sell at top fare
+export function placeOverbooking(buckets: Bucket[], cabins: Pick<CabinOverbooking, 'cabin' | 'capacity' | 'authorized'>[], groupBucketCode?: string): OverbookingAllowance[] {
+  return cabins.flatMap(c => {
+    const ladder = nestingOrder(buckets, c.cabin);
+    const target = ladder.find(b => b.code === groupBucketCode) ?? ladder[0];
+    return ladder.map(b => ({ bucketCode: b.code, seats: b === target ? Math.max(0, c.authorized - c.capacity) : 0 }));
+  });
+}
+
+// e.g. "ECONOMY 184/174 (+10), BUSINESS 24/24"
+export function describeOverbooking(cabins: Pick<CabinOverbooking, 'cabin' | 'capacity' | 'authorized'>[]): string {
+  return cabins.map(c => `${c.cabin} ${c.authorized}/${c.capacity}${c.authorized > c.capacity ? ` (+${c.authorized - c.capacity})` : ''}`).join(', ') || "none";
+}
@@ -0,0 +1,155 @@
+import {
+  DEFAULT_PRICING_POLICY,
+  type Bucket,
+  type PricingPolicy,
+  type ScenarioDef,
+  type ScenarioEnvironment,
+  type Session
+} from "@shared/schema";
+import type { BucketPrice } from "./agents";
+import { orderFareLadder, type LadderConflict } from "./agents/pricing";
+
+// Guardrail that changed a proposed fare
+export type PolicyRule =
+  | 'minMultiplier'
+  | 'maxMultiplier'
+  | 'bucketMin'
+  | 'bucketMax'
+  | 'competitorFloor'
+  | 'costFloor'
+  | 'maxChangePerReprice'
+  | 'maxChangesPerDay'
+  | 'fareLadder'; // Not a guardrail: moved within the guardrails to put its class ladder back in order
+
+export interface PolicyClip {
+  bucketCode: string;
+  rule: PolicyRule;
+  from: number; // Fare before this rule
+  to: number;   // Fare after this rule
+}
+
+const RULE_LABELS: Record<PolicyRule, string> = {
+  minMultiplier: "min fare multiplier",
+  maxMultiplier: "max fare multiplier",
+  bucketMin: "bucket min fare",
+  bucketMax: "bucket max fare",
+  competitorFloor: "competitor floor",
+  costFloor: "fuel cost floor",
+  maxChangePerReprice: "max change per reprice",
+  maxChangesPerDay: "max changes per day",
+  fareLadder: "fare ladder",
+};
+
+// Scenario overrides on top of the defaults, then whatever was saved on the session
+export function resolvePricingPolicy(scenario: ScenarioDef | undefined, session?: Session): PricingPolicy {
+  return { ...DEFAULT_PRICING_POLICY, ...scenario?.pricingPolicy, ...session?.pricingPolicy };
+}
+
+// Consistency checks that a field-level schema can't express
+export function validatePricingPolicy(policy: PricingPolicy): string[] {
+  const errors: string[] = [];
+  if (policy.minMultiplier > policy.maxMultiplier) {
+    errors.push(`minMultiplier (${policy.minMultiplier}) exceeds maxMultiplier (${policy.maxMultiplier})`);
+  }
+  for (const [code, bounds] of Object.entries(policy.bucketFares)) {
+    if (bounds.min !== undefined && bounds.max !== undefined && bounds.min > bounds.max) {
+      errors.push(`${code}: min fare ${bounds.min} exceeds max fare ${bounds.max}`);
+    }
+  }
+  return errors;
+}
+
+// e.g. "ECO_2 ₹6,000 not above ECO_1 ₹6,000"
+export function describeLadderConflict(conflict: LadderConflict): string {
+  return `${conflict.bucketCode} ₹${conflict.price.toLocaleString()} not above ${conflict.below} ₹${conflict.belowPrice.toLocaleString()}`;
+}
+
+export function describeClip(clip: PolicyClip): string {
+  return `${clip.bucketCode}: ₹${clip.from.toLocaleString()} → ₹${clip.to.toLocaleString()} (${RULE_LABELS[clip.rule]})`;
+}
+
+// Enforce the policy on the Pricing Agent's fares. Floors apply first, then ceilings (a
+// ceiling wins when the two conflict), then the rate limits against the current fare.
+// Clipping buckets one at a time can leave a class ladder out of order (a shared competitor
+// floor, or a rate limit holding back one bucket), so fares are then moved back into order,
+// never past a guardrail: ladder pairs the guardrails leave no room for are returned as conflicts.
+// `changesToday` counts fare changes per bucket already made on the current simulated day.
+export function applyPricingPolicy(
+  policy: PricingPolicy,
+  env: ScenarioEnvironment,
+  buckets: Bucket[],
+  prices: BucketPrice[],
+  changesToday: Map<string, number>
+): { prices: BucketPrice[]; clips: PolicyClip[]; conflicts: LadderConflict[] } {
+  const clips: PolicyClip[] = [];
+  const cheapestCompetitor = env.competitors.length > 0 ? Math.min(...env.competitors.map(c => c.basePrice)) : null;
+  const floorsOf = (bucket: Bucket): [PolicyRule, number | null][] => {
+    const bounds = policy.bucketFares[bucket.code] || {};
+    return [
+      ['minMultiplier', bucket.basePrice * policy.minMultiplier],
+      ['bucketMin', bounds.min ?? null],
+      ['competitorFloor', bucket.class === 'ECONOMY' && policy.competitorFloorRatio !== null && cheapestCompetitor !== null
+        ? cheapestCompetitor * policy.competitorFloorRatio : null],
+      ['costFloor', policy.costFloorRatio !== null ? bucket.basePrice * policy.costFloorRatio * env.fuelCostIndex : null],
+    ];
+  };
+  const ceilingsOf = (bucket: Bucket): [PolicyRule, number | null][] => {
+    const bounds = policy.bucketFares[bucket.code] || {};
+    return [
+      ['maxMultiplier', bucket.basePrice * policy.maxMultiplier],
+      ['bucketMax', bounds.max ?? null],
+    ];
+  };
+  const frozen = (bucket: Bucket) => (changesToday.get(bucket.code) || 0) >= policy.maxChangesPerDay;
+
+  const enforced = prices.map(proposal => {
+    const bucket = buckets.find(b => b.code === proposal.bucketCode);
+    if (!bucket) return proposal;
+
+    let price = proposal.price;
+    const clip = (rule: PolicyRule, to: number) => {
+      to = Math.round(to);
+      if (to === price) return;
+      clips.push({ bucketCode: bucket.code, rule, from: price, to });
+      price = to;
+    };
+    for (const [rule, floor] of floorsOf(bucket)) {
+      if (floor !== null && price < floor) clip(rule, floor);
+    }
+    for (const [rule, ceiling] of ceilingsOf(bucket)) {
+      if (ceiling !== null && price > ceiling) clip(rule, ceiling);
+    }
+
+    const maxStep = bucket.price * policy.maxChangePerReprice;
+    if (Math.abs(price - bucket.price) > maxStep) {
+      clip('maxChangePerReprice', price > bucket.price ? bucket.price + maxStep : bucket.price - maxStep);
+    }
+
+    if (price !== bucket.price && frozen(bucket)) {
+      clip('maxChangesPerDay', bucket.price);
+    }
+
+    return price === proposal.price
+      ? proposal
+      : { ...proposal, price, multiplier: Math.round((price / bucket.basePrice) * 100) / 100 };
+  });
+
+  // The range each fare may move within without breaking a guardrail, in the same order of
+  // precedence: floors, then ceilings, then the rate limits. A fare already outside it (e.g.
+  // held by a rate limit above a tightened ceiling) may stay where it is.
+  const limits = (bucket: Bucket, price: number) => {
+    if (frozen(bucket)) return { min: bucket.price, max: bucket.price };
+    const ceiling = Math.min(...ceilingsOf(bucket).flatMap(([, c]) => c === null ? [] : [c]));
+    const floor = Math.min(ceiling, Math.max(0, ...floorsOf(bucket).flatMap(([, f]) => f === null ? [] : [f])));
+    const maxStep = bucket.price * policy.maxChangePerReprice;
+    return {
+      min: Math.min(price, Math.max(floor, bucket.price - maxStep)),
+      max: Math.max(price, Math.min(ceiling, bucket.price + maxStep)),
+    };
+  };
+  const { prices: ordered, moves, conflicts } = orderFareLadder(buckets, enforced, limits);
+  for (const move of moves) {
+    clips.push({ bucketCode: move.bucketCode, rule: 'fareLadder', from: move.from, to: move.to });
+  }
+  return { prices: ordered, clips, conflicts };
+}
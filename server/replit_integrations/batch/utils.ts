@@ -2,32 +2,22 @@ import pLimit from "p-limit";
 import pRetry from "p-retry";
 
 /**
- * Batch Processing Utilities for Gemini
+ * Batch Processing Utilities for LLM calls
  *
- * Supported models: gemini-2.5-flash (fast), gemini-2.5-pro (advanced reasoning), gemini-2.5-flash-image (image generation)
+ * Works with any provider from server/llm (gemini, openai, scripted). Override the
+ * model for batch jobs with LLM_MODEL_BATCH.
  *
  * USAGE:
  * ```typescript
  * import { batchProcess } from "./replit_integrations/batch";
- * import { GoogleGenAI } from "@google/genai";
- *
- * const ai = new GoogleGenAI({
- *   apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
- *   httpOptions: {
- *     apiVersion: "",
- *     baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
- *   },
- * });
+ * import { getLlmProvider } from "./llm";
  *
  * const results = await batchProcess(
  *   items,
- *   async (item) => {
- *     const response = await ai.models.generateContent({
- *       model: "gemini-2.5-flash",
- *       contents: `Process: ${item.name}`,
- *     });
- *     return response.text || "";
- *   }
+ *   async (item) => getLlmProvider().generate({
+ *     purpose: "batch",
+ *     input: `Process: ${item.name}`,
+ *   })
  * );
  * ```
  */
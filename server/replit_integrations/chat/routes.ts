@@ -1,21 +1,12 @@
 import type { Express, Request, Response } from "express";
-import { GoogleGenAI } from "@google/genai";
 import { chatStorage } from "./storage";
+import { getLlmProvider } from "../../llm";
 
 /*
-Supported models: gemini-2.5-flash (fast), gemini-2.5-pro (advanced reasoning)
-Usage: Include httpOptions with baseUrl and empty apiVersion when using AI Integrations (required)
+Model calls go through the shared LLM provider (LLM_PROVIDER). Override the model for this
+route with LLM_MODEL_CHAT.
 */
 
-// This is using Replit's AI Integrations service, which provides Gemini-compatible API access without requiring your own Gemini API key.
-const ai = new GoogleGenAI({
-  apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
-  httpOptions: {
-    apiVersion: "",
-    baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
-  },
-});
-
 export function registerChatRoutes(app: Express): void {
   // Get all conversations
   app.get("/api/conversations", async (req: Request, res: Response) => {
@@ -80,8 +71,8 @@ export function registerChatRoutes(app: Express): void {
       // Get conversation history for context
       const messages = await chatStorage.getMessagesByConversation(conversationId);
       const chatMessages = messages.map((m) => ({
-        role: m.role as "user" | "model",
-        parts: [{ text: m.content }],
+        role: m.role === "user" ? "user" as const : "assistant" as const,
+        content: m.content,
       }));
 
       // Set up SSE
@@ -89,16 +80,12 @@ export function registerChatRoutes(app: Express): void {
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
-      // Stream response from Gemini
-      const stream = await ai.models.generateContentStream({
-        model: "gemini-2.5-flash",
-        contents: chatMessages,
-      });
+      // Stream response from the configured provider
+      const stream = getLlmProvider().stream({ purpose: "chat", input: chatMessages });
 
       let fullResponse = "";
 
-      for await (const chunk of stream) {
-        const content = chunk.text || "";
+      for await (const content of stream) {
         if (content) {
           fullResponse += content;
           res.write(`data: ${JSON.stringify({ content })}\n\n`);
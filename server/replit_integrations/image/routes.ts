@@ -1,6 +1,6 @@
 import type { Express, Request, Response } from "express";
 import { Modality } from "@google/genai";
-import { ai } from "./client";
+import { ai, imageModel } from "./client";
 
 export function registerImageRoutes(app: Express): void {
   app.post("/api/generate-image", async (req: Request, res: Response) => {
@@ -12,7 +12,7 @@ export function registerImageRoutes(app: Express): void {
       }
 
       const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-image",
+        model: imageModel,
         contents: [{ role: "user", parts: [{ text: prompt }] }],
         config: {
           responseModalities: [Modality.TEXT, Modality.IMAGE],
@@ -1,9 +1,49 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
 import { z } from "zod";
 import { logger } from "./logger";
+import { validatePricingPolicy } from "./policy";
+import { ROUTES } from "./network";
+import { planOverbooking, currentAuthorized } from "./overbooking";
+import { idempotent } from "./idempotency";
+import { validateMarketChange } from "./market";
+import { readFareFeed, normalizeFareFeed } from "./fare-feed";
+import { validateScenario, schemaIssues, describeIssues, serializeScenario, readScenarioDocument, type ScenarioIssue } from "./scenarios";
+import { seatNumber } from "@shared/aircraft";
+import type { Session, Quote } from "@shared/schema";
+
+// Session-scoped routes carry the id in the path; the legacy /api/simulation and /api/chat
+// routes act on the most recently loaded active session
+async function resolveSession(req: Request): Promise<Session | undefined> {
+  if (req.params.id === undefined) return storage.getCurrentSession();
+  const id = Number(req.params.id);
+  return Number.isInteger(id) ? storage.getSession(id) : undefined;
+}
+
+const HOLD_SWEEP_INTERVAL_MS = 30 * 1000;
+
+// Content types read as text by the scenario import, to be parsed as YAML (or JSON)
+const SCENARIO_TEXT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml', 'text/plain'];
+
+// Content types read as text by the fare feed import, to be parsed as CSV (or JSON)
+const FARE_FEED_TEXT_TYPES = ['text/csv', 'application/csv', 'text/plain'];
+const FARE_FEED_MAX_SIZE = '5mb';
+
+// 400 listing each invalid field of a request body, e.g. a scenario or a fare feed
+function rejectFields(res: Response, errors: ScenarioIssue[]) {
+  return res.status(400).json({ message: describeIssues(errors), errors });
+}
+
+function describeQuote(quote: Quote, bucketCode: string) {
+  return {
+    ...quote,
+    bucketCode,
+    totalFare: quote.pricePerSeat * quote.quantity + quote.seatFees,
+    ttlSeconds: quote.status === "HELD" ? Math.max(0, Math.round((quote.expiresAt.getTime() - Date.now()) / 1000)) : 0
+  };
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -12,16 +52,156 @@ export async function registerRoutes(
 
   // === SCENARIOS ===
   app.get(api.scenarios.list.path, async (_req, res) => {
-    logger.debug('Routes', 'Fetching scenarios list');
-    const scenarios = storage.getScenarios();
-    res.json(scenarios);
+    try {
+      logger.debug('Routes', 'Fetching scenarios list');
+      res.json(await storage.getScenarios());
+    } catch (e) {
+      logger.error('Routes', 'Failed to list scenarios', e);
+      res.status(500).json({ message: "Failed to list scenarios" });
+    }
+  });
+
+  app.get(api.scenarios.get.path, async (req, res) => {
+    try {
+      const scenario = await storage.getScenario(String(req.params.id));
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      res.json(scenario);
+    } catch (e) {
+      logger.error('Routes', 'Failed to get scenario', e);
+      res.status(500).json({ message: "Failed to get scenario" });
+    }
+  });
+
+  app.post(api.scenarios.create.path, async (req, res) => {
+    try {
+      const parsed = api.scenarios.create.input.safeParse(req.body);
+      if (!parsed.success) return rejectFields(res, schemaIssues(parsed.error));
+      const { id, ...fields } = parsed.data;
+      const errors = validateScenario(fields);
+      if (errors.length > 0) return rejectFields(res, errors);
+
+      const scenario = await storage.createScenario(fields, id);
+      if (!scenario) return res.status(409).json({ message: `Scenario id ${id} is already taken` });
+      res.status(201).json(scenario);
+    } catch (e) {
+      logger.error('Routes', 'Failed to create scenario', e);
+      res.status(500).json({ message: "Failed to create scenario" });
+    }
+  });
+
+  app.put(api.scenarios.update.path, async (req, res) => {
+    try {
+      const existing = await storage.getScenario(String(req.params.id));
+      if (!existing) return res.status(404).json({ message: "Scenario not found" });
+      if (existing.builtIn) return res.status(403).json({ message: `${existing.id} is built in; clone it to make changes` });
+      const parsed = api.scenarios.update.input.safeParse(req.body);
+      if (!parsed.success) return rejectFields(res, schemaIssues(parsed.error));
+      const errors = validateScenario(parsed.data);
+      if (errors.length > 0) return rejectFields(res, errors);
+
+      const scenario = await storage.updateScenario(existing.id, parsed.data);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      res.json(scenario);
+    } catch (e) {
+      logger.error('Routes', 'Failed to update scenario', e);
+      res.status(500).json({ message: "Failed to update scenario" });
+    }
+  });
+
+  app.delete(api.scenarios.delete.path, async (req, res) => {
+    try {
+      const existing = await storage.getScenario(String(req.params.id));
+      if (!existing) return res.status(404).json({ message: "Scenario not found" });
+      if (existing.builtIn) return res.status(403).json({ message: `${existing.id} is built in and can't be deleted` });
+      const running = (await storage.listSessions()).filter(s => s.scenarioId === existing.id);
+      if (running.length > 0) {
+        return res.status(409).json({ message: `${existing.id} is in use by session${running.length > 1 ? 's' : ''} ${running.map(s => s.id).join(', ')}; close them first` });
+      }
+
+      res.json({ success: await storage.deleteScenario(existing.id) });
+    } catch (e) {
+      logger.error('Routes', 'Failed to delete scenario', e);
+      res.status(500).json({ message: "Failed to delete scenario" });
+    }
+  });
+
+  app.post(api.scenarios.clone.path, async (req, res) => {
+    try {
+      const changes = api.scenarios.clone.input.parse(req.body ?? {});
+      const source = await storage.getScenario(String(req.params.id));
+      if (!source) return res.status(404).json({ message: "Scenario not found" });
+
+      const scenario = await storage.cloneScenario(source.id, changes);
+      if (!scenario) return res.status(409).json({ message: `Scenario id ${changes.id} is already taken` });
+      res.status(201).json(scenario);
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid clone request', e);
+        return res.status(400).json({ message: "Invalid clone request" });
+      }
+      logger.error('Routes', 'Failed to clone scenario', e);
+      res.status(500).json({ message: "Failed to clone scenario" });
+    }
+  });
+
+  app.get(api.scenarios.export.path, async (req, res) => {
+    try {
+      const { format = 'json' } = api.scenarios.export.input.parse(req.query);
+      const scenario = await storage.getScenario(String(req.params.id));
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+
+      res.type(format === 'yaml' ? 'application/yaml' : 'application/json');
+      res.attachment(`${scenario.id}.scenario.${format}`);
+      res.send(serializeScenario(scenario, format));
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid export format', e);
+        return res.status(400).json({ message: "format must be json or yaml" });
+      }
+      logger.error('Routes', 'Failed to export scenario', e);
+      res.status(500).json({ message: "Failed to export scenario" });
+    }
+  });
+
+  app.post(api.scenarios.import.path, express.text({ type: SCENARIO_TEXT_TYPES }), async (req, res) => {
+    try {
+      let document: unknown;
+      try {
+        document = readScenarioDocument(req.body);
+      } catch (e) {
+        return rejectFields(res, [{ path: '', message: `Not a JSON or YAML document: ${e instanceof Error ? e.message : e}` }]);
+      }
+      const parsed = api.scenarios.import.input.safeParse(document);
+      if (!parsed.success) return rejectFields(res, schemaIssues(parsed.error));
+      const { id, basedOn, ...fields } = parsed.data.scenario;
+      const errors = validateScenario(fields);
+      if (errors.length > 0) return rejectFields(res, errors.map(e => ({ ...e, path: `scenario.${e.path}` })));
+
+      const existing = id !== undefined ? await storage.getScenario(id) : undefined;
+      if (existing && req.query.replace === 'true') {
+        if (existing.builtIn) return res.status(403).json({ message: `${existing.id} is built in and can't be replaced` });
+        logger.info('Routes', `Importing scenario ${existing.id} over the existing one`);
+        return res.json(await storage.updateScenario(existing.id, fields));
+      }
+      if (existing) {
+        return res.status(409).json({ message: `Scenario id ${existing.id} is already taken; import with ?replace=true to replace it` });
+      }
+
+      const scenario = await storage.createScenario(fields, id, basedOn);
+      if (!scenario) return res.status(409).json({ message: `Scenario id ${id} is already taken` });
+      logger.info('Routes', `Imported scenario ${scenario.id}`);
+      res.status(201).json(scenario);
+    } catch (e) {
+      logger.error('Routes', 'Failed to import scenario', e);
+      res.status(500).json({ message: "Failed to import scenario" });
+    }
   });
 
   app.post(api.scenarios.load.path, async (req, res) => {
     try {
-      const { scenarioId } = api.scenarios.load.input.parse(req.body);
-      logger.info('Routes', `Loading scenario: ${scenarioId}`);
-      const session = await storage.createSession(scenarioId);
+      const { scenarioId, agentMode, inventoryMode, routes, aircraft, competitorFeed } = api.scenarios.load.input.parse(req.body);
+      logger.info('Routes', `Loading scenario: ${scenarioId}${agentMode ? ` (${agentMode} agents)` : ''}${inventoryMode ? ` with ${inventoryMode} inventory` : ''}${routes ? ` on ${routes.join(', ')}` : ''}${competitorFeed ? ' replaying the fare feed' : ''}`);
+      const session = await storage.createSession(scenarioId, agentMode, { routes, aircraft }, inventoryMode, competitorFeed);
       logger.info('Routes', `Session created: ${session.id}`);
       res.status(201).json(session);
     } catch (e) {
@@ -30,27 +210,225 @@ export async function registerRoutes(
     }
   });
 
+  // === NETWORK ===
+  app.get(api.network.routes.path, async (_req, res) => {
+    res.json(ROUTES);
+  });
+
+  // === SESSIONS ===
+  app.get(api.sessions.list.path, async (_req, res) => {
+    try {
+      res.json(await storage.listSessions());
+    } catch (e) {
+      logger.error('Routes', 'Failed to list sessions', e);
+      res.status(500).json({ message: "Failed to list sessions" });
+    }
+  });
+
+  app.post(api.sessions.close.path, async (req, res) => {
+    try {
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "Session not found" });
+
+      await storage.closeSession(session.id);
+      res.json({ success: true });
+    } catch (e) {
+      logger.error('Routes', 'Failed to close session', e);
+      res.status(500).json({ message: "Failed to close session" });
+    }
+  });
+
   // === SIMULATION STATE ===
-  app.get(api.simulation.state.path, async (_req, res) => {
+  app.get([api.simulation.state.path, api.sessions.state.path], async (req, res) => {
     try {
-      const session = await storage.getCurrentSession();
+      const { flightId } = api.simulation.state.input.parse(req.query);
+      const session = await resolveSession(req);
       if (!session) {
         return res.status(404).json({ message: "No active simulation" });
       }
+
+      const flights = await storage.getFlights(session.id);
+      const flight = flightId !== undefined ? flights.find(f => f.id === flightId) : flights[0];
+      if (!flight) return res.status(404).json({ message: "Flight not found" });
       
-      const buckets = await storage.getBuckets(session.id);
-      const logs = await storage.getLogs(session.id);
+      const buckets = await storage.getBuckets(session.id, flight.id);
+      const seats = await storage.getSeats(session.id, flight.id);
+      const logs = await storage.getLogs(session.id, flight.id);
+      const environment = await storage.getFlightEnvironment(session, flight);
+      const overbooking = environment ? planOverbooking(environment, buckets, currentAuthorized(buckets)) : [];
       
-      res.json({ session, buckets, logs });
+      res.json({ session, flights, flight, buckets, seats, logs, environment, overbooking });
     } catch (e) {
       logger.error('Routes', 'Failed to get simulation state', e);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post(api.simulation.orchestrate.path, async (_req, res) => {
+  app.get([api.simulation.history.path, api.sessions.history.path], async (req, res) => {
+    try {
+      const { bucketCode, flightId } = api.simulation.history.input.parse(req.query);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      const history = await storage.getPricingHistory(session.id, bucketCode, flightId);
+      res.json(history);
+    } catch (e) {
+      logger.error('Routes', 'Failed to get pricing history', e);
+      res.status(500).json({ message: "Failed to get pricing history" });
+    }
+  });
+
+  app.get([api.simulation.competitorFares.path, api.sessions.competitorFares.path], async (req, res) => {
+    try {
+      const { flightId, competitor } = api.simulation.competitorFares.input.parse(req.query);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      res.json(await storage.getCompetitorFares(session.id, flightId, competitor));
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid competitor fares query', e);
+        return res.status(400).json({ message: "Invalid competitor fares query" });
+      }
+      logger.error('Routes', 'Failed to get competitor fares', e);
+      res.status(500).json({ message: "Failed to get competitor fares" });
+    }
+  });
+
+  app.get(api.simulation.trace.path, async (req, res) => {
+    try {
+      const planId = String(req.params.planId);
+      const messages = await storage.getA2ATrace(planId);
+      if (messages.length === 0) return res.status(404).json({ message: "No trace for this plan" });
+
+      res.json({ planId, messages });
+    } catch (e) {
+      logger.error('Routes', 'Failed to get A2A trace', e);
+      res.status(500).json({ message: "Failed to get A2A trace" });
+    }
+  });
+
+  app.get([api.simulation.policy.path, api.sessions.policy.path], async (req, res) => {
+    try {
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      res.json(await storage.getPricingPolicy(session));
+    } catch (e) {
+      logger.error('Routes', 'Failed to get pricing policy', e);
+      res.status(500).json({ message: "Failed to get pricing policy" });
+    }
+  });
+
+  app.put([api.simulation.updatePolicy.path, api.sessions.updatePolicy.path], async (req, res) => {
+    try {
+      const changes = api.simulation.updatePolicy.input.parse(req.body);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      const policy = { ...await storage.getPricingPolicy(session), ...changes };
+      const errors = validatePricingPolicy(policy);
+      if (errors.length > 0) return res.status(400).json({ message: errors.join('; ') });
+
+      logger.info('Routes', `Updating pricing policy for session ${session.id}`, changes);
+      res.json(await storage.updatePricingPolicy(session.id, policy));
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid pricing policy', e);
+        return res.status(400).json({ message: "Invalid pricing policy" });
+      }
+      logger.error('Routes', 'Failed to update pricing policy', e);
+      res.status(500).json({ message: "Failed to update pricing policy" });
+    }
+  });
+
+  // === MARKET EVENTS ===
+  app.get([api.simulation.events.path, api.sessions.events.path], async (req, res) => {
+    try {
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      res.json(await storage.getMarketEvents(session.id));
+    } catch (e) {
+      logger.error('Routes', 'Failed to get market events', e);
+      res.status(500).json({ message: "Failed to get market events" });
+    }
+  });
+
+  app.post([api.simulation.scheduleEvent.path, api.sessions.scheduleEvent.path], async (req, res) => {
+    try {
+      const event = api.simulation.scheduleEvent.input.parse(req.body);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+      const env = await storage.getSessionEnvironment(session);
+      if (!env) return res.status(404).json({ message: "Scenario not found" });
+
+      if (env.daysToDeparture === 0) return res.status(400).json({ message: "The flight has departed" });
+      if (event.day >= env.bookingWindow) {
+        return res.status(400).json({ message: `day must be before departure on day ${env.bookingWindow} (got ${event.day})` });
+      }
+      const errors = validateMarketChange(env, event.changes);
+      if (errors.length > 0) return res.status(400).json({ message: errors.join('; ') });
+
+      const scheduled = await storage.scheduleMarketEvent(session, event);
+      res.status(201).json(scheduled);
+      if (scheduled.status === "APPLIED") {
+        logger.info('Routes', `Market event ${scheduled.id} applied on scheduling, triggering repricing`);
+        await storage.repriceAfterChange(session.id);
+      }
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid market event', e);
+        return res.status(400).json({ message: "Invalid market event" });
+      }
+      logger.error('Routes', 'Failed to schedule market event', e);
+      res.status(500).json({ message: "Failed to schedule market event" });
+    }
+  });
+
+  app.delete([api.simulation.deleteEvent.path, api.sessions.deleteEvent.path], async (req, res) => {
+    try {
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      const eventId = Number(req.params.eventId);
+      const event = (await storage.getMarketEvents(session.id)).find(e => e.id === eventId);
+      if (!event) return res.status(404).json({ message: "Market event not found" });
+      if (event.status !== "SCHEDULED" || !await storage.deleteMarketEvent(session.id, eventId)) {
+        return res.status(409).json({ message: `Market event ${eventId} has already been applied` });
+      }
+      res.json({ success: true });
+    } catch (e) {
+      logger.error('Routes', 'Failed to delete market event', e);
+      res.status(500).json({ message: "Failed to delete market event" });
+    }
+  });
+
+  app.post([api.simulation.advance.path, api.sessions.advance.path], async (req, res) => {
+    try {
+      const { days } = api.simulation.advance.input.parse(req.body);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      logger.info('Routes', `Advancing session ${session.id} by ${days} day(s)`);
+      const result = await storage.advanceSimulation(session.id, days);
+      if (!result) return res.status(404).json({ message: "Session not found" });
+
+      logger.info('Routes', `Advanced ${result.daysAdvanced} day(s)${result.departed ? ', flight departed' : ''}`);
+      res.json(result);
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid advance request', e);
+        return res.status(400).json({ message: "Invalid number of days" });
+      }
+      logger.error('Routes', 'Failed to advance simulation', e);
+      res.status(500).json({ message: "Failed to advance simulation" });
+    }
+  });
+
+  app.post([api.simulation.orchestrate.path, api.sessions.orchestrate.path], async (req, res) => {
     try {
-      const session = await storage.getCurrentSession();
+      const session = await resolveSession(req);
       if (!session) return res.status(404).json({ message: "No active session" });
       
       logger.info('Routes', `Starting orchestration for session ${session.id}`);
@@ -64,32 +442,223 @@ export async function registerRoutes(
     }
   });
 
-  app.post(api.simulation.book.path, async (req, res) => {
+  app.post([api.simulation.book.path, api.sessions.book.path], idempotent, async (req, res) => {
     try {
-      const { bucketCode, quantity } = api.simulation.book.input.parse(req.body);
-      const session = await storage.getCurrentSession();
+      const { flightId, bucketCode, quantity, seatNumbers, passengerName } = api.simulation.book.input.parse(req.body);
+      const session = await resolveSession(req);
       if (!session) return res.status(404).json({ message: "No active session" });
 
-      logger.info('Routes', `Booking request: ${quantity} seats in ${bucketCode}`);
-      const success = await storage.bookTicket(session.id, bucketCode, quantity);
-      if (success) {
-        logger.info('Routes', `Booking confirmed, triggering repricing`);
-        await storage.runOrchestration(session.id);
-        res.json({ success: true, message: "Booking confirmed" });
+      const flights = await storage.getFlights(session.id);
+      const flight = flightId !== undefined ? flights.find(f => f.id === flightId) : flights[0];
+      if (!flight) return res.status(404).json({ message: "Flight not found" });
+      if ((await storage.getFlightEnvironment(session, flight))?.daysToDeparture === 0) {
+        return res.status(400).json({ message: "The flight has departed" });
+      }
+
+      logger.info('Routes', `Booking request: ${quantity} seats in ${bucketCode} on ${flight.flightNumber}` + (seatNumbers ? ` (${seatNumbers.join(', ')})` : ''));
+      const assignment = await storage.bookTicket(session.id, flight.id, bucketCode, quantity, seatNumbers, passengerName);
+      if (assignment) {
+        logger.info('Routes', `Booking ${assignment.booking.referenceCode} confirmed, triggering repricing`);
+        res.json({
+          success: true,
+          message: "Booking confirmed",
+          booking: assignment.booking,
+          seats: assignment.seats.map(seatNumber),
+          seatFees: assignment.seatFees,
+          unseated: assignment.unseated
+        });
+        await storage.repriceAfterChange(session.id, flight.id);
       } else {
-        logger.warn('Routes', `Booking failed: Not enough seats in ${bucketCode}`);
-        res.status(400).json({ message: "Booking failed: Not enough seats" });
+        logger.warn('Routes', `Booking failed: Not enough seats in ${bucketCode}` + (seatNumbers ? ` or seats unavailable` : ''));
+        res.status(400).json({ message: seatNumbers ? "Booking failed: Not enough seats, or a selected seat is unavailable" : "Booking failed: Not enough seats" });
       }
     } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid booking request', e);
+        return res.status(400).json({ message: "Invalid booking request" });
+      }
       logger.error('Routes', 'Booking request failed', e);
-      res.status(400).json({ message: "Invalid booking request" });
+      res.status(500).json({ message: "Booking request failed" });
+    }
+  });
+
+  // === BOOKINGS ===
+  app.get([api.bookings.list.path, api.sessions.bookings.path], async (req, res) => {
+    try {
+      const { flightId, status } = api.bookings.list.input.parse(req.query);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      res.json(await storage.listBookings(session.id, { flightId, status }));
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid bookings query', e);
+        return res.status(400).json({ message: "Invalid bookings query" });
+      }
+      logger.error('Routes', 'Failed to list bookings', e);
+      res.status(500).json({ message: "Failed to list bookings" });
+    }
+  });
+
+  app.get(api.bookings.get.path, async (req, res) => {
+    try {
+      const booking = await storage.getBooking(String(req.params.reference));
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      res.json(booking);
+    } catch (e) {
+      logger.error('Routes', 'Failed to get booking', e);
+      res.status(500).json({ message: "Failed to get booking" });
+    }
+  });
+
+  app.post(api.bookings.cancel.path, async (req, res) => {
+    try {
+      const reference = String(req.params.reference);
+      const booking = await storage.getBooking(reference);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (booking.status !== "CONFIRMED") {
+        return res.status(400).json({ message: `Booking ${booking.referenceCode} is ${booking.status.toLowerCase().replace('_', '-')}` });
+      }
+
+      logger.info('Routes', `Cancellation request: ${booking.referenceCode}`);
+      const cancellation = await storage.cancelBooking(booking.referenceCode);
+      if (!cancellation) return res.status(400).json({ message: "Booking can no longer be cancelled: the flight has departed" });
+
+      logger.info('Routes', `Booking ${booking.referenceCode} cancelled, triggering repricing`);
+      res.json({
+        success: true,
+        message: "Booking cancelled",
+        booking: cancellation.booking,
+        refund: cancellation.refund,
+        releasedSeats: cancellation.releasedSeats
+      });
+      await storage.repriceAfterChange(booking.sessionId, cancellation.flight.id);
+    } catch (e) {
+      logger.error('Routes', 'Cancellation request failed', e);
+      res.status(500).json({ message: "Failed to cancel booking" });
+    }
+  });
+
+  // === QUOTES ===
+  app.post([api.quotes.create.path, api.sessions.quotes.path], async (req, res) => {
+    try {
+      const { flightId, bucketCode, quantity, seatNumbers } = api.quotes.create.input.parse(req.body);
+      const session = await resolveSession(req);
+      if (!session) return res.status(404).json({ message: "No active session" });
+
+      const flights = await storage.getFlights(session.id);
+      const flight = flightId !== undefined ? flights.find(f => f.id === flightId) : flights[0];
+      if (!flight) return res.status(404).json({ message: "Flight not found" });
+      if ((await storage.getFlightEnvironment(session, flight))?.daysToDeparture === 0) {
+        return res.status(400).json({ message: "The flight has departed" });
+      }
+
+      logger.info('Routes', `Quote request: ${quantity} seats in ${bucketCode} on ${flight.flightNumber}` + (seatNumbers ? ` (${seatNumbers.join(', ')})` : ''));
+      const quote = await storage.createQuote(session.id, flight.id, bucketCode, quantity, seatNumbers);
+      if (!quote) {
+        return res.status(400).json({ message: seatNumbers ? "Quote failed: Not enough seats, or a selected seat is unavailable" : "Quote failed: Not enough seats" });
+      }
+      res.status(201).json(describeQuote(quote, bucketCode));
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid quote request', e);
+        return res.status(400).json({ message: "Invalid quote request" });
+      }
+      logger.error('Routes', 'Quote request failed', e);
+      res.status(500).json({ message: "Failed to quote fare" });
+    }
+  });
+
+  app.get(api.quotes.get.path, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(String(req.params.id));
+      if (!quote) return res.status(404).json({ message: "Quote not found" });
+      const bucket = (await storage.getBuckets(quote.sessionId, quote.flightId)).find(b => b.id === quote.bucketId);
+      res.json(describeQuote(quote, bucket?.code ?? ''));
+    } catch (e) {
+      logger.error('Routes', 'Failed to get quote', e);
+      res.status(500).json({ message: "Failed to get quote" });
+    }
+  });
+
+  app.post(api.quotes.confirm.path, idempotent, async (req, res) => {
+    try {
+      const { passengerName } = api.quotes.confirm.input.parse(req.body ?? {});
+      const quote = await storage.getQuote(String(req.params.id));
+      if (!quote) return res.status(404).json({ message: "Quote not found" });
+      if (quote.status === "CONFIRMED") return res.status(409).json({ message: `Quote ${quote.id} is already confirmed` });
+      if (quote.status === "EXPIRED" || quote.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).json({ message: `Quote ${quote.id} has expired` });
+      }
+
+      logger.info('Routes', `Confirming quote ${quote.id}`);
+      const assignment = await storage.confirmQuote(quote.id, passengerName);
+      // Confirmed or expired since the check above
+      if (!assignment) return res.status(409).json({ message: `Quote ${quote.id} is no longer held` });
+
+      logger.info('Routes', `Booking ${assignment.booking.referenceCode} confirmed from quote ${quote.id}, triggering repricing`);
+      res.json({
+        success: true,
+        message: "Booking confirmed",
+        booking: assignment.booking,
+        seats: assignment.seats.map(seatNumber),
+        seatFees: assignment.seatFees,
+        unseated: assignment.unseated
+      });
+      await storage.repriceAfterChange(quote.sessionId, quote.flightId);
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid quote confirmation', e);
+        return res.status(400).json({ message: "Invalid quote confirmation" });
+      }
+      logger.error('Routes', 'Quote confirmation failed', e);
+      res.status(500).json({ message: "Failed to confirm quote" });
+    }
+  });
+
+  // Lapsed holds are also released whenever their flight is next sold, so the sweep only
+  // has to keep availability honest on flights nobody is booking
+  setInterval(() => {
+    storage.expireHolds().catch(e => logger.error('Routes', 'Failed to expire quote holds', e));
+  }, HOLD_SWEEP_INTERVAL_MS).unref();
+
+  // === FARE FEED ===
+  app.post(api.fareFeed.import.path, express.text({ type: FARE_FEED_TEXT_TYPES, limit: FARE_FEED_MAX_SIZE }), async (req, res) => {
+    try {
+      let rows: unknown[];
+      try {
+        rows = readFareFeed(req.body);
+      } catch (e) {
+        return rejectFields(res, [{ path: '', message: `Not a CSV or JSON fare feed: ${e instanceof Error ? e.message : e}` }]);
+      }
+      const source = typeof req.query.source === 'string' ? req.query.source : undefined;
+      const { observations, issues } = normalizeFareFeed(rows, source);
+      if (issues.length > 0) return rejectFields(res, issues);
+
+      res.json(await storage.importFareObservations(observations));
+    } catch (e) {
+      logger.error('Routes', 'Failed to import fare feed', e);
+      res.status(500).json({ message: "Failed to import fare feed" });
+    }
+  });
+
+  app.get(api.fareFeed.list.path, async (req, res) => {
+    try {
+      res.json(await storage.getFareObservations(api.fareFeed.list.input.parse(req.query)));
+    } catch (e) {
+      if (e instanceof Error && e.name === 'ZodError') {
+        logger.warn('Routes', 'Invalid fare feed query', e);
+        return res.status(400).json({ message: "Invalid fare feed query" });
+      }
+      logger.error('Routes', 'Failed to list fare observations', e);
+      res.status(500).json({ message: "Failed to list fare observations" });
     }
   });
 
   // === CHAT ===
-  app.get(api.chat.history.path, async (_req, res) => {
+  app.get([api.chat.history.path, api.sessions.chatHistory.path], async (req, res) => {
     try {
-      const session = await storage.getCurrentSession();
+      const session = await resolveSession(req);
       if (!session) return res.json([]);
       const history = await storage.getChatHistory(session.id);
       res.json(history);
@@ -99,10 +668,10 @@ export async function registerRoutes(
     }
   });
 
-  app.post(api.chat.send.path, async (req, res) => {
+  app.post([api.chat.send.path, api.sessions.chat.path], async (req, res) => {
     try {
       const { message } = api.chat.send.input.parse(req.body);
-      const session = await storage.getCurrentSession();
+      const session = await resolveSession(req);
       if (!session) return res.status(404).json({ message: "No active session" });
       
       logger.info('Routes', `Chat message received: "${message.substring(0, 50)}..."`);
@@ -121,9 +690,9 @@ export async function registerRoutes(
     }
   });
 
-  app.post(api.chat.clear.path, async (_req, res) => {
+  app.post([api.chat.clear.path, api.sessions.clearChat.path], async (req, res) => {
     try {
-      const session = await storage.getCurrentSession();
+      const session = await resolveSession(req);
       if (!session) return res.status(404).json({ message: "No active session" });
       
       await storage.clearChat(session.id);
@@ -136,9 +705,9 @@ export async function registerRoutes(
   });
 
   // === LOGS ===
-  app.post(api.logs.clear.path, async (_req, res) => {
+  app.post([api.logs.clear.path, api.sessions.clearLogs.path], async (req, res) => {
     try {
-      const session = await storage.getCurrentSession();
+      const session = await resolveSession(req);
       if (!session) return res.status(404).json({ message: "No active session" });
       
       await storage.clearLogs(session.id);
@@ -0,0 +1,619 @@
+import { db } from "./db";
+import { scenarios, type Session, type ScenarioDef, type ScenarioEnvironment } from "@shared/schema";
+import { eq, asc } from "drizzle-orm";
+import YAML from "yaml";
+import { getRoute } from "./network";
+import { resolvePricingPolicy, validatePricingPolicy } from "./policy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to compute dates
+function formatDate(daysFromNow: number): string {
+  const date = new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000);
+  return date.toISOString().split('T')[0];
+}
+
+// === SCENARIO DEFINITIONS ===
+// All flights operate on a 60-day booking window
+const BOOKING_WINDOW_DAYS = 60;
+
+// Generate a demand forecast curve (typical S-curve for airline bookings)
+// targetOccupancy is the final expected occupancy (0-100)
+function generateDemandForecast(targetOccupancy: number): { day: number; expectedOccupancy: number }[] {
+  const points = [];
+  for (let day = 0; day <= 60; day += 5) {
+    // S-curve: slow start, accelerate in middle, slow near end
+    // Using logistic function adjusted for 60-day window
+    const progress = day / 60;
+    const sCurve = 1 / (1 + Math.exp(-10 * (progress - 0.5)));
+    const occupancy = Math.round(sCurve * targetOccupancy);
+    points.push({ day, expectedOccupancy: occupancy });
+  }
+  return points;
+}
+
+// Get expected occupancy for a specific day from forecast
+export function getExpectedOccupancy(forecast: { day: number; expectedOccupancy: number }[], day: number): number {
+  // Find the closest points and interpolate
+  const before = forecast.filter(p => p.day <= day).pop() || forecast[0];
+  const after = forecast.find(p => p.day > day) || forecast[forecast.length - 1];
+  if (before.day === after.day) return before.expectedOccupancy;
+  const ratio = (day - before.day) / (after.day - before.day);
+  return Math.round(before.expectedOccupancy + ratio * (after.expectedOccupancy - before.expectedOccupancy));
+}
+
+// Derive the scenario environment as of the session's simulated clock, with the market
+// conditions changed by the session's applied market events (server/market.ts).
+// The scenario's own expectedOccupancyToday is kept until the clock moves off its starting day.
+export function buildSessionEnvironment(scenario: ScenarioDef, session: Session): ScenarioEnvironment {
+  const env = scenario.environment;
+  const daysToDeparture = Math.max(0, Math.round((session.departureDate.getTime() - session.currentDate.getTime()) / DAY_MS));
+  const daysElapsed = Math.max(0, env.bookingWindow - daysToDeparture);
+  return {
+    ...env,
+    ...session.market,
+    daysToDeparture,
+    daysElapsed,
+    currentDate: session.currentDate.toISOString().split('T')[0],
+    departureDate: session.departureDate.toISOString().split('T')[0],
+    expectedOccupancyToday: daysElapsed === env.daysElapsed
+      ? env.expectedOccupancyToday
+      : getExpectedOccupancy(env.demandForecast, daysElapsed),
+  };
+}
+
+// Shipped with the app and read-only; clone one to change it
+export const BUILT_IN_SCENARIOS: ScenarioDef[] = [
+  {
+    id: "ipl-season",
+    name: "IPL Season Final (High Demand)",
+    description: "Bangalore to Dubai during IPL Final week. Cricket fans are traveling in droves to watch the match. Expect extremely high demand across all fare classes, especially premium economy and business. Competitors are already raising prices. We are 30 days into the 60-day booking window.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 30,
+      daysElapsed: 30,
+      currentDate: formatDate(0),
+      departureDate: formatDate(60),
+      demandForecast: generateDemandForecast(95), // High demand scenario
+      expectedOccupancyToday: getExpectedOccupancy(generateDemandForecast(95), 30),
+      fuelCostIndex: 1.1,
+      seasonalityIndex: 0.85,
+      baseDemand: 0.92,
+      competitorAggressiveness: 0.8,
+      competitors: [
+        { name: "Akasa Air", basePrice: 13500 },
+        { name: "Air India", basePrice: 15200 },
+        { name: "Emirates", basePrice: 18500 }
+      ],
+      eventImpact: "IPL Final Match - High Demand",
+      weatherForecast: "Clear skies, 34°C in Dubai",
+      revenueTarget: 2850000,
+      occupancyTarget: 95
+    }
+  },
+  {
+    id: "fuel-spike",
+    name: "Global Fuel Crisis",
+    description: "Sudden spike in Aviation Turbine Fuel (ATF) prices due to geopolitical tensions. Operating costs are up 40%. Competitors are hesitant to raise prices fearing demand destruction. Strategic pricing required to maintain margins. We are 15 days into the 60-day booking window.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 45,
+      daysElapsed: 15,
+      currentDate: formatDate(0),
+      departureDate: formatDate(60),
+      demandForecast: generateDemandForecast(75), // Medium demand
+      expectedOccupancyToday: getExpectedOccupancy(generateDemandForecast(75), 15),
+      fuelCostIndex: 1.4,
+      seasonalityIndex: 0.55,
+      baseDemand: 0.58,
+      competitorAggressiveness: 0.4,
+      competitors: [
+        { name: "Akasa Air", basePrice: 11800 },
+        { name: "Air India", basePrice: 13000 },
+        { name: "Emirates", basePrice: 16200 }
+      ],
+      eventImpact: "Fuel Price Surge (+40%)",
+      weatherForecast: "Partly cloudy, 28°C",
+      revenueTarget: 2200000,
+      occupancyTarget: 75
+    }
+  },
+  {
+    id: "lean-season",
+    name: "Mid-Week Lean Season",
+    description: "Standard Tuesday departure in off-peak season. Low natural demand. Competitors are aggressively discounting to fill seats. Focus on maximizing load factor while protecting yield. Booking window just opened - 60 days to departure.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 60,
+      daysElapsed: 0,
+      currentDate: formatDate(0),
+      departureDate: formatDate(60),
+      demandForecast: generateDemandForecast(65), // Low demand
+      expectedOccupancyToday: 0, // Day 0, no bookings yet
+      fuelCostIndex: 1.0,
+      seasonalityIndex: 0.35,
+      baseDemand: 0.38,
+      competitorAggressiveness: 0.92,
+      competitors: [
+        { name: "Akasa Air", basePrice: 9500 },
+        { name: "Air India", basePrice: 10200 },
+        { name: "Emirates", basePrice: 14000 }
+      ],
+      eventImpact: null,
+      weatherForecast: "Sunny, 32°C",
+      revenueTarget: 1500000,
+      occupancyTarget: 65
+    }
+  },
+  {
+    id: "last-minute",
+    name: "Last Minute Rush",
+    description: "Flight departing in 3 days with only 45% seats sold (below forecast of 85%). Sudden corporate booking interest detected. Balance between capturing last-minute premium demand and filling remaining inventory. We are 57 days into the 60-day booking window.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 3,
+      daysElapsed: 57,
+      currentDate: formatDate(0),
+      departureDate: formatDate(60),
+      demandForecast: generateDemandForecast(88), // Expected 88% but actual is 45%
+      expectedOccupancyToday: getExpectedOccupancy(generateDemandForecast(88), 57),
+      fuelCostIndex: 1.05,
+      seasonalityIndex: 0.72,
+      baseDemand: 0.78,
+      competitorAggressiveness: 0.65,
+      competitors: [
+        { name: "Akasa Air", basePrice: 18500 },
+        { name: "Air India", basePrice: 21000 },
+        { name: "Emirates", basePrice: 28000 }
+      ],
+      eventImpact: "Corporate Conference in Dubai",
+      weatherForecast: "Clear, 30°C",
+      revenueTarget: 2400000,
+      occupancyTarget: 88
+    }
+  },
+  // NEW SCENARIOS
+  {
+    id: "ipl-cancelled",
+    name: "IPL Final Cancelled (Demand Collapse)",
+    description: "The IPL Final has been cancelled due to unforeseen circumstances. Thousands of cricket fans are now cancelling their travel plans. Demand has crashed overnight. Most competitors are slashing prices. We are 25 days into the booking window with 55% seats already sold at premium prices.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 35,
+      daysElapsed: 25,
+      currentDate: formatDate(0),
+      departureDate: formatDate(35),
+      demandForecast: generateDemandForecast(40), // Collapsed demand
+      expectedOccupancyToday: 55, // Was high before cancellation
+      fuelCostIndex: 1.05,
+      seasonalityIndex: 0.25, // Season impact gone
+      baseDemand: 0.28, // Demand collapsed
+      cancellationRate: 0.015, // Fans cancelling trips booked for the final
+      competitorAggressiveness: 0.95, // Everyone slashing prices
+      competitors: [
+        { name: "Akasa Air", basePrice: 8500 },
+        { name: "Air India", basePrice: 9200 },
+        { name: "Emirates", basePrice: 12000 }
+      ],
+      eventImpact: "IPL CANCELLED - Mass Cancellations Expected",
+      weatherForecast: "Clear, 32°C",
+      revenueTarget: 1200000,
+      occupancyTarget: 55
+    }
+  },
+  {
+    id: "low-demand-5days",
+    name: "Low Demand - 5 Days Out",
+    description: "Flight departing in 5 days with only 35% seats sold. No special events, weak organic demand. Need aggressive seat allocation optimization to maximize revenue from remaining inventory. Economy buckets need attention.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 5,
+      daysElapsed: 55,
+      currentDate: formatDate(0),
+      departureDate: formatDate(5),
+      demandForecast: generateDemandForecast(60),
+      expectedOccupancyToday: 75, // Should be 75% but only 35%
+      fuelCostIndex: 1.0,
+      seasonalityIndex: 0.4,
+      baseDemand: 0.35,
+      competitorAggressiveness: 0.75,
+      competitors: [
+        { name: "Akasa Air", basePrice: 11000 },
+        { name: "Air India", basePrice: 12500 },
+        { name: "Emirates", basePrice: 16000 }
+      ],
+      eventImpact: null,
+      weatherForecast: "Partly cloudy, 30°C",
+      revenueTarget: 1600000,
+      occupancyTarget: 70
+    }
+  },
+  {
+    id: "severe-weather",
+    name: "Severe Weather Warning",
+    description: "Severe sandstorm warning issued for Dubai. Weather forecasts predict possible flight delays or diversions. Some passengers are nervous and may not book. Competitors are maintaining prices but seeing lower conversions. 40 days to departure.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 40,
+      daysElapsed: 20,
+      currentDate: formatDate(0),
+      departureDate: formatDate(40),
+      demandForecast: generateDemandForecast(55), // Reduced due to weather concerns
+      expectedOccupancyToday: 20,
+      fuelCostIndex: 1.0,
+      seasonalityIndex: 0.5,
+      baseDemand: 0.42,
+      cancellationRate: 0.005, // Some nervous passengers cancel
+      competitorAggressiveness: 0.5,
+      competitors: [
+        { name: "Akasa Air", basePrice: 11500 },
+        { name: "Air India", basePrice: 13000 },
+        { name: "Emirates", basePrice: 16500 }
+      ],
+      eventImpact: "WEATHER ALERT: Severe Sandstorm Warning for Dubai",
+      weatherForecast: "⚠️ Sandstorm warning, visibility may be low",
+      revenueTarget: 1400000,
+      occupancyTarget: 55
+    }
+  },
+  {
+    id: "competitor-price-war",
+    name: "Competitor Price War",
+    description: "Akasa Air just launched a flash sale with 40% off on BLR-DXB route. Air India is matching the discount. Emirates holding firm on premium pricing. We need to decide: match discounts, hold prices, or find a middle ground. 45 days to departure.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 45,
+      daysElapsed: 15,
+      currentDate: formatDate(0),
+      departureDate: formatDate(45),
+      demandForecast: generateDemandForecast(72),
+      expectedOccupancyToday: 12,
+      fuelCostIndex: 1.0,
+      seasonalityIndex: 0.6,
+      baseDemand: 0.65,
+      competitorAggressiveness: 0.98, // Extremely aggressive
+      competitors: [
+        { name: "Akasa Air", basePrice: 7200 }, // 40% off
+        { name: "Air India", basePrice: 7800 }, // Matching
+        { name: "Emirates", basePrice: 17500 } // Holding firm
+      ],
+      eventImpact: "COMPETITOR ALERT: Akasa Flash Sale -40%",
+      weatherForecast: "Clear, 28°C",
+      revenueTarget: 1800000,
+      occupancyTarget: 72
+    },
+    // Allow deeper discounts, but never undercut the cheapest rival
+    pricingPolicy: { minMultiplier: 0.6, competitorFloorRatio: 1.0 }
+  },
+  {
+    id: "expo-dubai",
+    name: "Dubai Expo Event",
+    description: "Major technology expo happening in Dubai. Business travelers are booking premium seats. Economy demand is moderate but Business class is seeing unprecedented interest. 20 days to departure.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 20,
+      daysElapsed: 40,
+      currentDate: formatDate(0),
+      departureDate: formatDate(20),
+      demandForecast: generateDemandForecast(88),
+      expectedOccupancyToday: 65,
+      fuelCostIndex: 1.08,
+      seasonalityIndex: 0.78,
+      baseDemand: 0.82,
+      competitorAggressiveness: 0.55, // Less aggressive, demand is high
+      competitors: [
+        { name: "Akasa Air", basePrice: 14500 },
+        { name: "Air India", basePrice: 16800 },
+        { name: "Emirates", basePrice: 22000 }
+      ],
+      eventImpact: "Dubai Tech Expo - High Business Travel Demand",
+      weatherForecast: "Sunny, 35°C",
+      revenueTarget: 2600000,
+      occupancyTarget: 90
+    }
+  },
+  {
+    id: "ramadan-travel",
+    name: "Ramadan Travel Season",
+    description: "Ramadan period with mixed travel patterns. Some travelers heading to Dubai for religious observance while leisure travel is subdued. Unique demand curve with specific peaks. 50 days to departure.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 50,
+      daysElapsed: 10,
+      currentDate: formatDate(0),
+      departureDate: formatDate(50),
+      demandForecast: generateDemandForecast(70),
+      expectedOccupancyToday: 8,
+      fuelCostIndex: 1.02,
+      seasonalityIndex: 0.65,
+      baseDemand: 0.58,
+      competitorAggressiveness: 0.6,
+      competitors: [
+        { name: "Akasa Air", basePrice: 10800 },
+        { name: "Air India", basePrice: 12200 },
+        { name: "Emirates", basePrice: 15500 }
+      ],
+      eventImpact: "Ramadan Season - Religious Travel Peak",
+      weatherForecast: "Hot, 38°C",
+      revenueTarget: 1900000,
+      occupancyTarget: 70
+    }
+  },
+  {
+    id: "oil-price-drop",
+    name: "Oil Price Crash",
+    description: "Global oil prices have crashed 30% due to OPEC decisions. Fuel costs are down significantly. Competitors are slow to pass savings to customers. Opportunity to gain market share with competitive pricing or boost margins. 35 days to departure.",
+    environment: {
+      route: "BLR → DXB",
+      airline: "Indigo",
+      aircraft: "Airbus A321 Neo",
+      totalSeats: 192,
+      bookingWindow: 60,
+      daysToDeparture: 35,
+      daysElapsed: 25,
+      currentDate: formatDate(0),
+      departureDate: formatDate(35),
+      demandForecast: generateDemandForecast(75),
+      expectedOccupancyToday: 35,
+      fuelCostIndex: 0.7, // Fuel 30% cheaper
+      seasonalityIndex: 0.55,
+      baseDemand: 0.62,
+      competitorAggressiveness: 0.5, // Competitors slow to react
+      competitors: [
+        { name: "Akasa Air", basePrice: 12000 }, // Not yet discounted
+        { name: "Air India", basePrice: 13500 },
+        { name: "Emirates", basePrice: 17000 }
+      ],
+      eventImpact: "Oil Price Crash -30%: Cost Advantage",
+      weatherForecast: "Clear, 30°C",
+      revenueTarget: 2000000,
+      occupancyTarget: 78
+    }
+  }
+];
+
+// === SCENARIO CATALOG ===
+// The built-in scenarios above plus those authored through the API, which are stored in the
+// scenarios table. Sessions refer to their scenario by id, so a custom scenario in use by an
+// active session can be edited (the session picks the change up on its next step) but not deleted.
+
+export type ScenarioFields = Omit<ScenarioDef, 'id' | 'builtIn' | 'basedOn'>;
+
+// A problem with one field of a scenario, e.g. { path: "environment.baseDemand", message: "..." }
+export interface ScenarioIssue {
+  path: string;
+  message: string;
+}
+
+// e.g. "environment.baseDemand: must be between 0 and 1 (got 2)"
+export function describeIssues(issues: ScenarioIssue[]): string {
+  return issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ');
+}
+
+// Schema issues, with their paths joined the same way
+export function schemaIssues(error: { issues: { path: (string | number)[]; message: string }[] }, prefix: string[] = []): ScenarioIssue[] {
+  return error.issues.map(issue => ({ path: [...prefix, ...issue.path].join('.'), message: issue.message }));
+}
+
+// Consistency checks that a field-level schema can't express
+export function validateScenario(fields: ScenarioFields): ScenarioIssue[] {
+  const env = fields.environment;
+  const issues: ScenarioIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+  const share = (name: string, value: number | undefined) => {
+    if (value !== undefined && (value < 0 || value > 1)) issue(`environment.${name}`, `must be between 0 and 1 (got ${value})`);
+  };
+  const positive = (path: string, value: number) => {
+    if (!(value > 0)) issue(path, `must be positive (got ${value})`);
+  };
+
+  if (!fields.name.trim()) issue("name", "is required");
+  positive("environment.bookingWindow", env.bookingWindow);
+  if (!Number.isInteger(env.daysToDeparture) || env.daysToDeparture < 1 || env.daysToDeparture > env.bookingWindow) {
+    issue("environment.daysToDeparture", `must be a whole number of days from 1 to bookingWindow (${env.bookingWindow}) (got ${env.daysToDeparture})`);
+  }
+  if (env.demandForecast.length === 0) issue("environment.demandForecast", "needs at least one point");
+  const days = new Set<number>();
+  env.demandForecast.forEach((point, i) => {
+    if (point.day < 0 || point.day > env.bookingWindow) issue(`environment.demandForecast.${i}.day`, `day ${point.day} is outside the booking window`);
+    if (point.expectedOccupancy < 0 || point.expectedOccupancy > 100) {
+      issue(`environment.demandForecast.${i}.expectedOccupancy`, `must be 0-100 (got ${point.expectedOccupancy})`);
+    }
+    if (days.has(point.day)) issue(`environment.demandForecast.${i}.day`, `day ${point.day} appears more than once`);
+    days.add(point.day);
+  });
+  positive("environment.fuelCostIndex", env.fuelCostIndex);
+  positive("environment.seasonalityIndex", env.seasonalityIndex);
+  share("baseDemand", env.baseDemand);
+  share("competitorAggressiveness", env.competitorAggressiveness);
+  share("cancellationRate", env.cancellationRate);
+  share("noShowRate", env.noShowRate);
+  env.competitors.forEach((c, i) => {
+    if (!c.name.trim()) issue(`environment.competitors.${i}.name`, "is required");
+    positive(`environment.competitors.${i}.basePrice`, c.basePrice);
+  });
+  positive("environment.revenueTarget", env.revenueTarget);
+  if (env.occupancyTarget < 0 || env.occupancyTarget > 100) issue("environment.occupancyTarget", `must be 0-100 (got ${env.occupancyTarget})`);
+
+  (fields.routes ?? []).forEach((code, i) => {
+    if (!getRoute(code)) issue(`routes.${i}`, `unknown route ${code}`);
+  });
+  // Every flight departs on or before the scenario's departure day, with at least a day to sell
+  for (const [code, offset] of Object.entries(fields.departureOffsets ?? {})) {
+    if (!getRoute(code)) issue(`departureOffsets.${code}`, `unknown route ${code}`);
+    if (!Number.isInteger(offset) || offset > 0 || offset <= -env.daysToDeparture) {
+      issue(`departureOffsets.${code}`, `must be a whole number of days from ${1 - env.daysToDeparture} to 0 (got ${offset})`);
+    }
+  }
+  if (fields.pricingPolicy) {
+    for (const message of validatePricingPolicy(resolvePricingPolicy({ ...fields, id: '' }))) issue("pricingPolicy", message);
+  }
+  return issues;
+}
+
+// Derived environment fields follow the authored ones, so a clone whose window or forecast
+// was edited doesn't carry stale values
+function normalizeEnvironment(env: ScenarioEnvironment): ScenarioEnvironment {
+  const demandForecast = [...env.demandForecast].sort((a, b) => a.day - b.day);
+  const daysElapsed = env.bookingWindow - env.daysToDeparture;
+  return {
+    ...env,
+    daysElapsed,
+    currentDate: formatDate(0),
+    departureDate: formatDate(env.daysToDeparture),
+    demandForecast,
+    expectedOccupancyToday: getExpectedOccupancy(demandForecast, daysElapsed),
+  };
+}
+
+// e.g. "Fuel Spike (Analyst)" -> "fuel-spike-analyst"
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48) || 'scenario';
+}
+
+function toScenarioDef(row: typeof scenarios.$inferSelect): ScenarioDef {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    environment: row.environment,
+    pricingPolicy: row.pricingPolicy ?? undefined,
+    routes: row.routes ?? undefined,
+    departureOffsets: row.departureOffsets ?? undefined,
+    basedOn: row.basedOn ?? undefined,
+    builtIn: false,
+  };
+}
+
+// === IMPORT / EXPORT ===
+// Scenarios travel between instances as versioned JSON or YAML documents:
+//   version: 1
+//   scenario: { id, name, description, environment, pricingPolicy, routes, departureOffsets, basedOn }
+// Bump SCENARIO_DOCUMENT_VERSION when ScenarioDef changes incompatibly, and accept the older
+// version alongside it in the document schema.
+
+export const SCENARIO_DOCUMENT_VERSION = 1;
+
+export type ScenarioFormat = 'json' | 'yaml';
+
+export function serializeScenario(scenario: ScenarioDef, format: ScenarioFormat): string {
+  const { builtIn: _builtIn, ...fields } = scenario;
+  const document = { version: SCENARIO_DOCUMENT_VERSION, scenario: fields };
+  return format === 'yaml' ? YAML.stringify(document) : JSON.stringify(document, null, 2);
+}
+
+// A request body as a document: JSON already parsed by the body parser, or JSON or YAML
+// text (YAML parses JSON too). Throws when the text is neither.
+export function readScenarioDocument(body: unknown): unknown {
+  return typeof body === 'string' ? YAML.parse(body) : body;
+}
+
+export class ScenarioCatalog {
+  async list(): Promise<ScenarioDef[]> {
+    const custom = await db.select().from(scenarios).orderBy(asc(scenarios.createdAt), asc(scenarios.id));
+    return [...BUILT_IN_SCENARIOS.map(s => ({ ...s, builtIn: true })), ...custom.map(toScenarioDef)];
+  }
+
+  async get(id: string): Promise<ScenarioDef | undefined> {
+    const builtIn = BUILT_IN_SCENARIOS.find(s => s.id === id);
+    if (builtIn) return { ...builtIn, builtIn: true };
+    const [row] = await db.select().from(scenarios).where(eq(scenarios.id, id));
+    return row ? toScenarioDef(row) : undefined;
+  }
+
+  // Null when the id is taken. The id is derived from the name when omitted.
+  async create(fields: ScenarioFields, id?: string, basedOn?: string): Promise<ScenarioDef | null> {
+    const scenarioId = id ?? await this.uniqueId(slugify(fields.name));
+    if (BUILT_IN_SCENARIOS.some(s => s.id === scenarioId)) return null;
+    const [row] = await db.insert(scenarios).values({
+      id: scenarioId,
+      name: fields.name.trim(),
+      description: fields.description,
+      environment: normalizeEnvironment(fields.environment),
+      pricingPolicy: fields.pricingPolicy ?? null,
+      routes: fields.routes ?? null,
+      departureOffsets: fields.departureOffsets ?? null,
+      basedOn: basedOn ?? null,
+    }).onConflictDoNothing().returning();
+    return row ? toScenarioDef(row) : null;
+  }
+
+  // Replaces a custom scenario's fields; null when there is no such custom scenario
+  async update(id: string, fields: ScenarioFields): Promise<ScenarioDef | null> {
+    const [row] = await db.update(scenarios)
+      .set({
+        name: fields.name.trim(),
+        description: fields.description,
+        environment: normalizeEnvironment(fields.environment),
+        pricingPolicy: fields.pricingPolicy ?? null,
+        routes: fields.routes ?? null,
+        departureOffsets: fields.departureOffsets ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(scenarios.id, id))
+      .returning();
+    return row ? toScenarioDef(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db.delete(scenarios).where(eq(scenarios.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // A custom copy of any scenario, built-in or custom. Null when the source doesn't exist or the id is taken.
+  async clone(sourceId: string, changes: { id?: string; name?: string } = {}): Promise<ScenarioDef | null> {
+    const source = await this.get(sourceId);
+    if (!source) return null;
+    const { id: _id, builtIn: _builtIn, basedOn: _basedOn, ...fields } = source;
+    return this.create({ ...fields, name: changes.name ?? `${source.name} (copy)` }, changes.id, source.id);
+  }
+
+  private async uniqueId(base: string): Promise<string> {
+    for (let n = 1; ; n++) {
+      const id = n === 1 ? base : `${base}-${n}`;
+      if (!await this.get(id)) return id;
+    }
+  }
+}
+
+export const scenarioCatalog = new ScenarioCatalog();
@@ -0,0 +1,51 @@
+import type { Seat } from "@shared/schema";
+import { seatNumber } from "@shared/aircraft";
+
+// === SEAT ASSIGNMENT ===
+// Auto-assigned seats are free of charge, so the seats that carry a selection fee are kept
+// for passengers who pay for them where possible. A group sits side by side in one row
+// when a row has enough adjacent free seats.
+
+function frontToBack(a: Seat, b: Seat): number {
+  return a.row - b.row || a.letter.localeCompare(b.letter);
+}
+
+const totalFee = (seats: Seat[]) => seats.reduce((sum, s) => sum + s.fee, 0);
+
+// Seats for `quantity` passengers from one cabin's seats, or null if too few are available
+export function pickSeats(cabinSeats: Seat[], quantity: number): Seat[] | null {
+  const sorted = [...cabinSeats].sort(frontToBack);
+  const available = sorted.filter(s => s.status === "AVAILABLE");
+  if (available.length < quantity) return null;
+
+  // Runs of adjacent available seats in a row; the run with the lowest fees, frontmost first
+  let best: Seat[] | null = null;
+  for (let i = 0; i + quantity <= sorted.length; i++) {
+    const run = sorted.slice(i, i + quantity);
+    if (run.some(s => s.row !== run[0].row || s.status !== "AVAILABLE")) continue;
+    if (!best || totalFee(run) < totalFee(best)) best = run;
+  }
+  if (best) return best;
+
+  // No row fits the group: fee-free seats first, then the rest, front to back
+  return [...available.filter(s => s.fee === 0), ...available.filter(s => s.fee > 0)].slice(0, quantity);
+}
+
+// Requested seat numbers resolved against one cabin's seats; null if any is unknown,
+// taken or repeated
+export function findSeats(cabinSeats: Seat[], seatNumbers: string[]): Seat[] | null {
+  const requested = seatNumbers.map(n => n.trim().toUpperCase());
+  if (new Set(requested).size !== requested.length) return null;
+  const seats = requested.map(n => cabinSeats.find(s => seatNumber(s) === n && s.status === "AVAILABLE"));
+  return seats.every((s): s is Seat => !!s) ? seats : null;
+}
+
+// Seats to mark occupied when a flight opens with pre-sold bookings
+export function randomSeats<T>(seats: T[], quantity: number): Set<T> {
+  const shuffled = [...seats];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return new Set(shuffled.slice(0, quantity));
+}
@@ -1,578 +1,914 @@
 import { db } from "./db";
 import { 
-  sessions, buckets, reasoningLogs, pricingHistory, chatMessages, bookings,
-  type Session, type Bucket, type ReasoningLog, type ChatMessage, type ScenarioDef, type Booking,
-  type OrchestrationResult
+  sessions, flights, buckets, seats, reasoningLogs, pricingHistory, a2aMessages, chatMessages, bookings, marketEvents, competitorFares, fareObservations,
+  type Session, type Flight, type Bucket, type Seat, type ReasoningLog, type ChatMessage, type ScenarioDef, type Booking, type A2AMessageRecord, type Quote,
+  type MarketEvent, type MarketChange, type CompetitorFare, type FareObservation, type CompetitorFeed,
+  type OrchestrationResult, type ScenarioEnvironment, type PricingHistoryEntry, type AgentMode, type PricingPolicy, type InventoryMode
 } from "@shared/schema";
-import { eq, desc, sql } from "drizzle-orm";
-import { GoogleGenAI } from "@google/genai";
+import { eq, desc, asc, and, ne, or, isNull, inArray, lte, sql } from "drizzle-orm";
 import { OrchestratorAgent, type BookingContext } from "./orchestrator";
+import { createAgentBackend, type BucketPrice } from "./agents";
+import { getLlmProvider } from "./llm";
+import { generateDailyDemand, generateDailyCancellations, sampleNoShows, cancellationRate, noShowRate, type DailyDemand, type BookingRequest } from "./demand";
+import { computeRefund, type Refund } from "./cancellation";
+import { resolvePricingPolicy, applyPricingPolicy, describeClip, describeLadderConflict, type PolicyClip } from "./policy";
+import { resolveRoutes, resolveAircraft, scheduleDeparture, describeFlight, flightEnvironment, getRoute, type NetworkSelection } from "./network";
+import { randomSeats } from "./seating";
+import { bookingService, QUOTE_TTL_MS, type BookingConfirmation, type BookingFilter, type SeatAssignment } from "./booking";
+import { protectionLevels, describeProtectionLevels, type ProtectionLevel } from "./inventory";
+import { placeOverbooking, OVERBOOKING_MODEL, type CabinOverbooking, type OverbookingAllowance } from "./overbooking";
+import { availableSeats } from "@shared/inventory";
+import { initialBuckets as aircraftBuckets, totalSeats as aircraftSeats, seatLayout, seatNumber, refundShare, describeRefundShare, getAircraft, cabinSeats as cabinSeatCount, SEAT_FEES } from "@shared/aircraft";
+import { scenarioCatalog, buildSessionEnvironment, BUILT_IN_SCENARIOS, type ScenarioFields } from "./scenarios";
+import { applyMarketChange, describeMarketChange } from "./market";
+import { initialCompetitorFares, reactToOurFares, reactionLagDays, applyCompetitorFares, describeCompetitorMove, type CompetitorMove } from "./competitors";
+import { replayFareFeed, type NewFareObservation } from "./fare-feed";
 import { logger } from "./logger";
 
-// Generate booking reference code
-function generateBookingReference(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-  let code = 'IND-';
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FARE_FEED_BATCH = 500; // Observations per insert
+
+// e.g. "12A, 12B, 1 seated at check-in"
+function describeSeating(assignment: SeatAssignment): string {
+  return [
+    assignment.seats.map(seatNumber).join(', '),
+    assignment.unseated > 0 ? `${assignment.unseated} seated at check-in` : ''
+  ].filter(Boolean).join(', ') || "none";
+}
+
+// Free seats for the booking prompt, grouped by row, e.g. "7: A C F | 9: B"
+function describeFreeSeats(free: Seat[]): string {
+  if (free.length === 0) return "none";
+  const rows = new Map<number, string[]>();
+  for (const seat of free) {
+    rows.set(seat.row, [...(rows.get(seat.row) ?? []), seat.letter]);
   }
-  return code;
+  return Array.from(rows.entries()).map(([row, letters]) => `${row}: ${letters.join(' ')}`).join(' | ');
 }
 
-// Initialize Gemini Client
-// Supports both Replit AI Integrations and standalone .env configuration
-const geminiApiKey = process.env.AI_INTEGRATIONS_GEMINI_API_KEY || process.env.GEMINI_API_KEY || "dummy";
-const geminiBaseUrl = process.env.AI_INTEGRATIONS_GEMINI_BASE_URL;
-
-const ai = new GoogleGenAI({
-  apiKey: geminiApiKey,
-  httpOptions: geminiBaseUrl ? {
-    apiVersion: "",
-    baseUrl: geminiBaseUrl,
-  } : undefined,
-});
-const model = "gemini-2.5-flash"; // Fast model for agents
-
-// Helper to compute dates
-function formatDate(daysFromNow: number): string {
-  const date = new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000);
-  return date.toISOString().split('T')[0];
+// Agent backend for new sessions when the load request doesn't specify one
+const DEFAULT_AGENT_MODE: AgentMode = process.env.AGENT_MODE === 'heuristic' ? 'heuristic' : 'llm';
+
+export interface AdvanceResult {
+  session: Session;
+  daysAdvanced: number;
+  departed: boolean; // Every flight in the session has departed
 }
 
-// === SCENARIO DEFINITIONS ===
-// All flights operate on a 60-day booking window
-const BOOKING_WINDOW_DAYS = 60;
-
-// Generate a demand forecast curve (typical S-curve for airline bookings)
-// targetOccupancy is the final expected occupancy (0-100)
-function generateDemandForecast(targetOccupancy: number): { day: number; expectedOccupancy: number }[] {
-  const points = [];
-  for (let day = 0; day <= 60; day += 5) {
-    // S-curve: slow start, accelerate in middle, slow near end
-    // Using logistic function adjusted for 60-day window
-    const progress = day / 60;
-    const sCurve = 1 / (1 + Math.exp(-10 * (progress - 0.5)));
-    const occupancy = Math.round(sCurve * targetOccupancy);
-    points.push({ day, expectedOccupancy: occupancy });
-  }
-  return points;
+// A cancelled booking, what was refunded and the seats given back
+export interface Cancellation {
+  booking: Booking;
+  flight: Flight;
+  refund: Refund;
+  releasedSeats: string[];
 }
 
-// Get expected occupancy for a specific day from forecast
-function getExpectedOccupancy(forecast: { day: number; expectedOccupancy: number }[], day: number): number {
-  // Find the closest points and interpolate
-  const before = forecast.filter(p => p.day <= day).pop() || forecast[0];
-  const after = forecast.find(p => p.day > day) || forecast[forecast.length - 1];
-  if (before.day === after.day) return before.expectedOccupancy;
-  const ratio = (day - before.day) / (after.day - before.day);
-  return Math.round(before.expectedOccupancy + ratio * (after.expectedOccupancy - before.expectedOccupancy));
+export interface FareObservationFilter {
+  route?: string;
+  carrier?: string;
+  departureDate?: string;
+  cabin?: string;
 }
 
-const SCENARIOS: ScenarioDef[] = [
-  {
-    id: "ipl-season",
-    name: "IPL Season Final (High Demand)",
-    description: "Bangalore to Dubai during IPL Final week. Cricket fans are traveling in droves to watch the match. Expect extremely high demand across all fare classes, especially premium economy and business. Competitors are already raising prices. We are 30 days into the 60-day booking window.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 30,
-      daysElapsed: 30,
-      currentDate: formatDate(0),
-      departureDate: formatDate(60),
-      demandForecast: generateDemandForecast(95), // High demand scenario
-      expectedOccupancyToday: getExpectedOccupancy(generateDemandForecast(95), 30),
-      fuelCostIndex: 1.1,
-      seasonalityIndex: 0.85,
-      baseDemand: 0.92,
-      competitorAggressiveness: 0.8,
-      competitors: [
-        { name: "Akasa Air", basePrice: 13500 },
-        { name: "Air India", basePrice: 15200 },
-        { name: "Emirates", basePrice: 18500 }
-      ],
-      eventImpact: "IPL Final Match - High Demand",
-      weatherForecast: "Clear skies, 34°C in Dubai",
-      revenueTarget: 2850000,
-      occupancyTarget: 95
-    }
-  },
-  {
-    id: "fuel-spike",
-    name: "Global Fuel Crisis",
-    description: "Sudden spike in Aviation Turbine Fuel (ATF) prices due to geopolitical tensions. Operating costs are up 40%. Competitors are hesitant to raise prices fearing demand destruction. Strategic pricing required to maintain margins. We are 15 days into the 60-day booking window.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 45,
-      daysElapsed: 15,
-      currentDate: formatDate(0),
-      departureDate: formatDate(60),
-      demandForecast: generateDemandForecast(75), // Medium demand
-      expectedOccupancyToday: getExpectedOccupancy(generateDemandForecast(75), 15),
-      fuelCostIndex: 1.4,
-      seasonalityIndex: 0.55,
-      baseDemand: 0.58,
-      competitorAggressiveness: 0.4,
-      competitors: [
-        { name: "Akasa Air", basePrice: 11800 },
-        { name: "Air India", basePrice: 13000 },
-        { name: "Emirates", basePrice: 16200 }
-      ],
-      eventImpact: "Fuel Price Surge (+40%)",
-      weatherForecast: "Partly cloudy, 28°C",
-      revenueTarget: 2200000,
-      occupancyTarget: 75
-    }
-  },
-  {
-    id: "lean-season",
-    name: "Mid-Week Lean Season",
-    description: "Standard Tuesday departure in off-peak season. Low natural demand. Competitors are aggressively discounting to fill seats. Focus on maximizing load factor while protecting yield. Booking window just opened - 60 days to departure.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 60,
-      daysElapsed: 0,
-      currentDate: formatDate(0),
-      departureDate: formatDate(60),
-      demandForecast: generateDemandForecast(65), // Low demand
-      expectedOccupancyToday: 0, // Day 0, no bookings yet
-      fuelCostIndex: 1.0,
-      seasonalityIndex: 0.35,
-      baseDemand: 0.38,
-      competitorAggressiveness: 0.92,
-      competitors: [
-        { name: "Akasa Air", basePrice: 9500 },
-        { name: "Air India", basePrice: 10200 },
-        { name: "Emirates", basePrice: 14000 }
-      ],
-      eventImpact: null,
-      weatherForecast: "Sunny, 32°C",
-      revenueTarget: 1500000,
-      occupancyTarget: 65
-    }
-  },
-  {
-    id: "last-minute",
-    name: "Last Minute Rush",
-    description: "Flight departing in 3 days with only 45% seats sold (below forecast of 85%). Sudden corporate booking interest detected. Balance between capturing last-minute premium demand and filling remaining inventory. We are 57 days into the 60-day booking window.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 3,
-      daysElapsed: 57,
-      currentDate: formatDate(0),
-      departureDate: formatDate(60),
-      demandForecast: generateDemandForecast(88), // Expected 88% but actual is 45%
-      expectedOccupancyToday: getExpectedOccupancy(generateDemandForecast(88), 57),
-      fuelCostIndex: 1.05,
-      seasonalityIndex: 0.72,
-      baseDemand: 0.78,
-      competitorAggressiveness: 0.65,
-      competitors: [
-        { name: "Akasa Air", basePrice: 18500 },
-        { name: "Air India", basePrice: 21000 },
-        { name: "Emirates", basePrice: 28000 }
-      ],
-      eventImpact: "Corporate Conference in Dubai",
-      weatherForecast: "Clear, 30°C",
-      revenueTarget: 2400000,
-      occupancyTarget: 88
-    }
-  },
-  // NEW SCENARIOS
-  {
-    id: "ipl-cancelled",
-    name: "IPL Final Cancelled (Demand Collapse)",
-    description: "The IPL Final has been cancelled due to unforeseen circumstances. Thousands of cricket fans are now cancelling their travel plans. Demand has crashed overnight. Most competitors are slashing prices. We are 25 days into the booking window with 55% seats already sold at premium prices.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 35,
-      daysElapsed: 25,
-      currentDate: formatDate(0),
-      departureDate: formatDate(35),
-      demandForecast: generateDemandForecast(40), // Collapsed demand
-      expectedOccupancyToday: 55, // Was high before cancellation
-      fuelCostIndex: 1.05,
-      seasonalityIndex: 0.25, // Season impact gone
-      baseDemand: 0.28, // Demand collapsed
-      competitorAggressiveness: 0.95, // Everyone slashing prices
-      competitors: [
-        { name: "Akasa Air", basePrice: 8500 },
-        { name: "Air India", basePrice: 9200 },
-        { name: "Emirates", basePrice: 12000 }
-      ],
-      eventImpact: "IPL CANCELLED - Mass Cancellations Expected",
-      weatherForecast: "Clear, 32°C",
-      revenueTarget: 1200000,
-      occupancyTarget: 55
-    }
-  },
-  {
-    id: "low-demand-5days",
-    name: "Low Demand - 5 Days Out",
-    description: "Flight departing in 5 days with only 35% seats sold. No special events, weak organic demand. Need aggressive seat allocation optimization to maximize revenue from remaining inventory. Economy buckets need attention.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 5,
-      daysElapsed: 55,
-      currentDate: formatDate(0),
-      departureDate: formatDate(5),
-      demandForecast: generateDemandForecast(60),
-      expectedOccupancyToday: 75, // Should be 75% but only 35%
-      fuelCostIndex: 1.0,
-      seasonalityIndex: 0.4,
-      baseDemand: 0.35,
-      competitorAggressiveness: 0.75,
-      competitors: [
-        { name: "Akasa Air", basePrice: 11000 },
-        { name: "Air India", basePrice: 12500 },
-        { name: "Emirates", basePrice: 16000 }
-      ],
-      eventImpact: null,
-      weatherForecast: "Partly cloudy, 30°C",
-      revenueTarget: 1600000,
-      occupancyTarget: 70
-    }
-  },
-  {
-    id: "severe-weather",
-    name: "Severe Weather Warning",
-    description: "Severe sandstorm warning issued for Dubai. Weather forecasts predict possible flight delays or diversions. Some passengers are nervous and may not book. Competitors are maintaining prices but seeing lower conversions. 40 days to departure.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 40,
-      daysElapsed: 20,
-      currentDate: formatDate(0),
-      departureDate: formatDate(40),
-      demandForecast: generateDemandForecast(55), // Reduced due to weather concerns
-      expectedOccupancyToday: 20,
-      fuelCostIndex: 1.0,
-      seasonalityIndex: 0.5,
-      baseDemand: 0.42,
-      competitorAggressiveness: 0.5,
-      competitors: [
-        { name: "Akasa Air", basePrice: 11500 },
-        { name: "Air India", basePrice: 13000 },
-        { name: "Emirates", basePrice: 16500 }
-      ],
-      eventImpact: "WEATHER ALERT: Severe Sandstorm Warning for Dubai",
-      weatherForecast: "⚠️ Sandstorm warning, visibility may be low",
-      revenueTarget: 1400000,
-      occupancyTarget: 55
-    }
-  },
-  {
-    id: "competitor-price-war",
-    name: "Competitor Price War",
-    description: "Akasa Air just launched a flash sale with 40% off on BLR-DXB route. Air India is matching the discount. Emirates holding firm on premium pricing. We need to decide: match discounts, hold prices, or find a middle ground. 45 days to departure.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 45,
-      daysElapsed: 15,
-      currentDate: formatDate(0),
-      departureDate: formatDate(45),
-      demandForecast: generateDemandForecast(72),
-      expectedOccupancyToday: 12,
-      fuelCostIndex: 1.0,
-      seasonalityIndex: 0.6,
-      baseDemand: 0.65,
-      competitorAggressiveness: 0.98, // Extremely aggressive
-      competitors: [
-        { name: "Akasa Air", basePrice: 7200 }, // 40% off
-        { name: "Air India", basePrice: 7800 }, // Matching
-        { name: "Emirates", basePrice: 17500 } // Holding firm
-      ],
-      eventImpact: "COMPETITOR ALERT: Akasa Flash Sale -40%",
-      weatherForecast: "Clear, 28°C",
-      revenueTarget: 1800000,
-      occupancyTarget: 72
-    }
-  },
-  {
-    id: "expo-dubai",
-    name: "Dubai Expo Event",
-    description: "Major technology expo happening in Dubai. Business travelers are booking premium seats. Economy demand is moderate but Business class is seeing unprecedented interest. 20 days to departure.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 20,
-      daysElapsed: 40,
-      currentDate: formatDate(0),
-      departureDate: formatDate(20),
-      demandForecast: generateDemandForecast(88),
-      expectedOccupancyToday: 65,
-      fuelCostIndex: 1.08,
-      seasonalityIndex: 0.78,
-      baseDemand: 0.82,
-      competitorAggressiveness: 0.55, // Less aggressive, demand is high
-      competitors: [
-        { name: "Akasa Air", basePrice: 14500 },
-        { name: "Air India", basePrice: 16800 },
-        { name: "Emirates", basePrice: 22000 }
-      ],
-      eventImpact: "Dubai Tech Expo - High Business Travel Demand",
-      weatherForecast: "Sunny, 35°C",
-      revenueTarget: 2600000,
-      occupancyTarget: 90
-    }
-  },
-  {
-    id: "ramadan-travel",
-    name: "Ramadan Travel Season",
-    description: "Ramadan period with mixed travel patterns. Some travelers heading to Dubai for religious observance while leisure travel is subdued. Unique demand curve with specific peaks. 50 days to departure.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 50,
-      daysElapsed: 10,
-      currentDate: formatDate(0),
-      departureDate: formatDate(50),
-      demandForecast: generateDemandForecast(70),
-      expectedOccupancyToday: 8,
-      fuelCostIndex: 1.02,
-      seasonalityIndex: 0.65,
-      baseDemand: 0.58,
-      competitorAggressiveness: 0.6,
-      competitors: [
-        { name: "Akasa Air", basePrice: 10800 },
-        { name: "Air India", basePrice: 12200 },
-        { name: "Emirates", basePrice: 15500 }
-      ],
-      eventImpact: "Ramadan Season - Religious Travel Peak",
-      weatherForecast: "Hot, 38°C",
-      revenueTarget: 1900000,
-      occupancyTarget: 70
-    }
-  },
-  {
-    id: "oil-price-drop",
-    name: "Oil Price Crash",
-    description: "Global oil prices have crashed 30% due to OPEC decisions. Fuel costs are down significantly. Competitors are slow to pass savings to customers. Opportunity to gain market share with competitive pricing or boost margins. 35 days to departure.",
-    environment: {
-      route: "BLR → DXB",
-      airline: "Indigo",
-      aircraft: "Airbus A321 Neo",
-      totalSeats: 192,
-      bookingWindow: 60,
-      daysToDeparture: 35,
-      daysElapsed: 25,
-      currentDate: formatDate(0),
-      departureDate: formatDate(35),
-      demandForecast: generateDemandForecast(75),
-      expectedOccupancyToday: 35,
-      fuelCostIndex: 0.7, // Fuel 30% cheaper
-      seasonalityIndex: 0.55,
-      baseDemand: 0.62,
-      competitorAggressiveness: 0.5, // Competitors slow to react
-      competitors: [
-        { name: "Akasa Air", basePrice: 12000 }, // Not yet discounted
-        { name: "Air India", basePrice: 13500 },
-        { name: "Emirates", basePrice: 17000 }
-      ],
-      eventImpact: "Oil Price Crash -30%: Cost Advantage",
-      weatherForecast: "Clear, 30°C",
-      revenueTarget: 2000000,
-      occupancyTarget: 78
-    }
-  }
-];
+export interface FareFeedImport {
+  imported: number;
+  duplicates: number; // Snapshots already stored, skipped
+}
 
 export interface IStorage {
   // Scenario & Session
-  getScenarios(): ScenarioDef[];
-  createSession(scenarioId: string): Promise<Session>;
+  getScenarios(): Promise<ScenarioDef[]>;
+  getScenario(scenarioId: string): Promise<ScenarioDef | undefined>;
+  createScenario(fields: ScenarioFields, scenarioId?: string, basedOn?: string): Promise<ScenarioDef | null>;
+  updateScenario(scenarioId: string, fields: ScenarioFields): Promise<ScenarioDef | null>;
+  deleteScenario(scenarioId: string): Promise<boolean>;
+  cloneScenario(scenarioId: string, changes?: { id?: string; name?: string }): Promise<ScenarioDef | null>;
+  createSession(scenarioId: string, agentMode?: AgentMode, network?: NetworkSelection, inventoryMode?: InventoryMode, competitorFeed?: CompetitorFeed): Promise<Session>;
   getCurrentSession(): Promise<Session | undefined>;
+  getSession(sessionId: number): Promise<Session | undefined>;
+  listSessions(): Promise<Session[]>;
+  closeSession(sessionId: number): Promise<boolean>;
+  getFlights(sessionId: number): Promise<Flight[]>;
+  getSessionEnvironment(session: Session): Promise<ScenarioEnvironment | undefined>;
+  getFlightEnvironment(session: Session, flight: Flight): Promise<ScenarioEnvironment | undefined>;
+  getPricingPolicy(session: Session): Promise<PricingPolicy>;
+  updatePricingPolicy(sessionId: number, policy: PricingPolicy): Promise<PricingPolicy>;
+  getMarketEvents(sessionId: number): Promise<MarketEvent[]>;
+  scheduleMarketEvent(session: Session, event: { day: number; title: string; changes: MarketChange }): Promise<MarketEvent>;
+  deleteMarketEvent(sessionId: number, eventId: number): Promise<boolean>;
+  
+  // Simulated Clock & Demand
+  advanceSimulation(sessionId: number, days: number): Promise<AdvanceResult | null>;
+  simulateDemand(sessionId: number, flight: Flight, env: ScenarioEnvironment): Promise<DailyDemand>;
+  simulateCancellations(sessionId: number, flight: Flight, env: ScenarioEnvironment): Promise<BookingRequest[]>;
+  simulateCompetitorFares(session: Session, flight: Flight, env: ScenarioEnvironment): Promise<CompetitorMove[]>;
   
   // State
-  getBuckets(sessionId: number): Promise<Bucket[]>;
-  getLogs(sessionId: number): Promise<ReasoningLog[]>;
+  getBuckets(sessionId: number, flightId?: number): Promise<Bucket[]>;
+  getSeats(sessionId: number, flightId: number): Promise<Seat[]>;
+  getLogs(sessionId: number, flightId?: number): Promise<ReasoningLog[]>;
+  getPricingHistory(sessionId: number, bucketCode?: string, flightId?: number): Promise<PricingHistoryEntry[]>;
+  getCompetitorFares(sessionId: number, flightId?: number, competitor?: string): Promise<CompetitorFare[]>;
+  getFareObservations(filter?: FareObservationFilter): Promise<FareObservation[]>;
+  getA2ATrace(planId: string): Promise<A2AMessageRecord[]>;
   getChatHistory(sessionId: number): Promise<ChatMessage[]>;
+  getBooking(referenceCode: string): Promise<Booking | undefined>;
+  listBookings(sessionId: number, filter?: BookingFilter): Promise<Booking[]>;
+  getQuote(quoteId: string): Promise<Quote | undefined>;
   
   // Actions
-  bookTicket(sessionId: number, bucketCode: string, quantity: number): Promise<boolean>;
-  logReasoning(sessionId: number, agent: string, decision: string, reasoning: string, metadata?: Record<string, unknown>): Promise<void>;
+  bookTicket(sessionId: number, flightId: number, bucketCode: string, quantity: number, seatNumbers?: string[], passengerName?: string): Promise<BookingConfirmation | null>;
+  createQuote(sessionId: number, flightId: number, bucketCode: string, quantity: number, seatNumbers?: string[]): Promise<Quote | null>;
+  confirmQuote(quoteId: string, passengerName?: string): Promise<BookingConfirmation | null>;
+  expireHolds(): Promise<Quote[]>;
+  cancelBooking(referenceCode: string): Promise<Cancellation | null>;
+  importFareObservations(observations: NewFareObservation[]): Promise<FareFeedImport>;
+  logReasoning(sessionId: number, agent: string, decision: string, reasoning: string, metadata?: Record<string, unknown>, flightId?: number): Promise<void>;
   
   // Agent Logic (A2A Orchestration Pattern)
-  runOrchestration(sessionId: number): Promise<OrchestrationResult | null>;
+  runOrchestration(sessionId: number, bookingContext?: BookingContext, flightId?: number): Promise<OrchestrationResult[]>;
+  repriceAfterChange(sessionId: number, flightId?: number): Promise<void>;
   processChatMessage(sessionId: number, message: string): Promise<string>;
 }
 
 export class DatabaseStorage implements IStorage {
-  getScenarios(): ScenarioDef[] {
-    return SCENARIOS;
+  async getScenarios(): Promise<ScenarioDef[]> {
+    return scenarioCatalog.list();
+  }
+
+  async getScenario(scenarioId: string): Promise<ScenarioDef | undefined> {
+    return scenarioCatalog.get(scenarioId);
+  }
+
+  async createScenario(fields: ScenarioFields, scenarioId?: string, basedOn?: string): Promise<ScenarioDef | null> {
+    const scenario = await scenarioCatalog.create(fields, scenarioId, basedOn);
+    if (scenario) logger.info('Storage', `Scenario ${scenario.id} created`);
+    return scenario;
   }
 
+  async updateScenario(scenarioId: string, fields: ScenarioFields): Promise<ScenarioDef | null> {
+    const scenario = await scenarioCatalog.update(scenarioId, fields);
+    if (scenario) logger.info('Storage', `Scenario ${scenario.id} updated`);
+    return scenario;
+  }
+
+  async deleteScenario(scenarioId: string): Promise<boolean> {
+    const deleted = await scenarioCatalog.delete(scenarioId);
+    if (deleted) logger.info('Storage', `Scenario ${scenarioId} deleted`);
+    return deleted;
+  }
+
+  async cloneScenario(scenarioId: string, changes?: { id?: string; name?: string }): Promise<ScenarioDef | null> {
+    const scenario = await scenarioCatalog.clone(scenarioId, changes);
+    if (scenario) logger.info('Storage', `Scenario ${scenario.id} cloned from ${scenarioId}`);
+    return scenario;
+  }
+
+  // Most recently loaded active session, used by the legacy /api/simulation routes
   async getCurrentSession(): Promise<Session | undefined> {
     const [session] = await db.select().from(sessions).where(eq(sessions.active, true)).orderBy(desc(sessions.id)).limit(1);
     return session;
   }
 
-  async createSession(scenarioId: string): Promise<Session> {
-    // Deactivate old sessions
-    await db.update(sessions).set({ active: false });
+  async getSession(sessionId: number): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, sessionId));
+    return session;
+  }
+
+  async listSessions(): Promise<Session[]> {
+    return db.select().from(sessions).where(eq(sessions.active, true)).orderBy(desc(sessions.id));
+  }
+
+  async closeSession(sessionId: number): Promise<boolean> {
+    const closed = await db.update(sessions).set({ active: false }).where(eq(sessions.id, sessionId)).returning();
+    if (closed.length > 0) logger.info('Storage', `Session ${sessionId} closed`);
+    return closed.length > 0;
+  }
+
+  async getFlights(sessionId: number): Promise<Flight[]> {
+    return db.select().from(flights).where(eq(flights.sessionId, sessionId)).orderBy(asc(flights.departureDate), asc(flights.id));
+  }
+
+  async getSessionEnvironment(session: Session): Promise<ScenarioEnvironment | undefined> {
+    const scenario = await this.getScenario(session.scenarioId);
+    return scenario ? buildSessionEnvironment(scenario, session) : undefined;
+  }
+
+  // The flight's route and market, with competitors at their current fares
+  async getFlightEnvironment(session: Session, flight: Flight): Promise<ScenarioEnvironment | undefined> {
+    const env = await this.getSessionEnvironment(session);
+    return env ? applyCompetitorFares(flightEnvironment(env, flight), await this.latestCompetitorFares(flight.id)) : undefined;
+  }
+
+  async getPricingPolicy(session: Session): Promise<PricingPolicy> {
+    return resolvePricingPolicy(await this.getScenario(session.scenarioId), session);
+  }
+
+  async updatePricingPolicy(sessionId: number, policy: PricingPolicy): Promise<PricingPolicy> {
+    await db.update(sessions).set({ pricingPolicy: policy }).where(eq(sessions.id, sessionId));
+    await this.logReasoning(sessionId, "System", "Guardrails Updated",
+      `Fares ${policy.minMultiplier}-${policy.maxMultiplier}x base, max ${(policy.maxChangePerReprice * 100).toFixed(0)}% per reprice, ` +
+      `${policy.maxChangesPerDay} changes/day` +
+      (policy.competitorFloorRatio !== null ? `, competitor floor ${policy.competitorFloorRatio}x` : '') +
+      (policy.costFloorRatio !== null ? `, cost floor ${policy.costFloorRatio}x base × fuel index` : ''),
+      { policy }
+    );
+    return policy;
+  }
+
+  async getMarketEvents(sessionId: number): Promise<MarketEvent[]> {
+    return db.select().from(marketEvents).where(eq(marketEvents.sessionId, sessionId)).orderBy(asc(marketEvents.day), asc(marketEvents.id));
+  }
+
+  // An event for a day the clock has already reached is applied straight away
+  async scheduleMarketEvent(session: Session, event: { day: number; title: string; changes: MarketChange }): Promise<MarketEvent> {
+    const [scheduled] = await db.insert(marketEvents).values({ sessionId: session.id, ...event }).returning();
+    logger.info('Storage', `Market event ${scheduled.id} scheduled for day ${scheduled.day} of session ${session.id}: ${scheduled.title}`);
+
+    const scenario = await this.getScenario(session.scenarioId);
+    if (scenario) await this.applyMarketEvents(session, scenario);
+    const [current] = await db.select().from(marketEvents).where(eq(marketEvents.id, scheduled.id));
+    return current;
+  }
+
+  // Only events that haven't fired can be removed; an applied event's changes stay in the market
+  async deleteMarketEvent(sessionId: number, eventId: number): Promise<boolean> {
+    const deleted = await db.delete(marketEvents)
+      .where(and(eq(marketEvents.id, eventId), eq(marketEvents.sessionId, sessionId), eq(marketEvents.status, "SCHEDULED")))
+      .returning();
+    if (deleted.length > 0) logger.info('Storage', `Market event ${eventId} removed from session ${sessionId}`);
+    return deleted.length > 0;
+  }
+
+  // Applies the session's scheduled events whose day the clock has reached, in timeline order,
+  // and returns the session with its changed market
+  private async applyMarketEvents(session: Session, scenario: ScenarioDef): Promise<Session> {
+    const due = await db.select().from(marketEvents)
+      .where(and(
+        eq(marketEvents.sessionId, session.id),
+        eq(marketEvents.status, "SCHEDULED"),
+        lte(marketEvents.day, buildSessionEnvironment(scenario, session).daysElapsed)
+      ))
+      .orderBy(asc(marketEvents.day), asc(marketEvents.id));
+
+    for (const event of due) {
+      // Claiming the event and locking the session keep an event racing the clock from
+      // being applied twice or losing another event's changes
+      const applied = await db.transaction(async (tx) => {
+        const [claimed] = await tx.update(marketEvents)
+          .set({ status: "APPLIED", appliedAt: session.currentDate })
+          .where(and(eq(marketEvents.id, event.id), eq(marketEvents.status, "SCHEDULED")))
+          .returning();
+        if (!claimed) return null;
+        const [current] = await tx.select().from(sessions).where(eq(sessions.id, session.id)).for('update');
+        const env = buildSessionEnvironment(scenario, current);
+        const [updated] = await tx.update(sessions)
+          .set({ market: { ...current.market, ...applyMarketChange(env, claimed.changes) } })
+          .where(eq(sessions.id, session.id))
+          .returning();
+        return { session: updated, env };
+      });
+      if (!applied) continue;
+
+      session = applied.session;
+      const { env } = applied;
+      await this.logReasoning(session.id, "System", `Market Event: ${event.title}`,
+        `Day ${env.daysElapsed}` + (event.day < env.daysElapsed ? ` (scheduled for day ${event.day})` : '') +
+        `: ${describeMarketChange(env, event.changes)}. Agents re-plan against the new market.`,
+        { eventId: event.id, day: event.day, changes: event.changes });
+    }
+    return session;
+  }
 
-    const scenario = SCENARIOS.find(s => s.id === scenarioId) || SCENARIOS[0];
+  async createSession(scenarioId: string, agentMode: AgentMode = DEFAULT_AGENT_MODE, network: NetworkSelection = {}, inventoryMode: InventoryMode = 'partitioned', competitorFeed?: CompetitorFeed): Promise<Session> {
+    const scenario = await this.getScenario(scenarioId) ?? BUILT_IN_SCENARIOS[0];
     const env = scenario.environment;
-    
-    // Calculate initial seats sold based on days elapsed
-    // Use expectedOccupancyToday but add some variance to make it interesting
-    const totalSeats = 192;
-    const expectedOccupancy = env.expectedOccupancyToday || 0;
-    // Add -10 to +5% variance for interesting scenarios
-    const variance = (Math.random() * 15 - 10); // -10% to +5%
-    const actualOccupancy = Math.max(0, Math.min(100, expectedOccupancy + variance));
-    const seatsSold = Math.round((actualOccupancy / 100) * totalSeats);
+    const routes = resolveRoutes(scenario, network.routes);
     
     // Create new session
     const [session] = await db.insert(sessions).values({
       scenarioId,
       currentDate: new Date(),
       departureDate: new Date(Date.now() + scenario.environment.daysToDeparture * 24 * 60 * 60 * 1000),
+      agentMode,
+      inventoryMode,
+      pricingPolicy: resolvePricingPolicy(scenario),
+      competitorFeed: competitorFeed ?? null,
       active: true
     }).returning();
 
-    // Initialize Buckets (192 seats total)
-    // Eco: 168 seats (4 buckets x 42)
-    // Bus: 24 seats (2 buckets x 12)
-    const initialBuckets = [
-      { code: "ECO_1", class: "ECONOMY", allocated: 42, price: 12000, basePrice: 12000 },
-      { code: "ECO_2", class: "ECONOMY", allocated: 42, price: 14000, basePrice: 14000 },
-      { code: "ECO_3", class: "ECONOMY", allocated: 42, price: 16000, basePrice: 16000 },
-      { code: "ECO_4", class: "ECONOMY", allocated: 42, price: 18000, basePrice: 18000 },
-      { code: "BUS_1", class: "BUSINESS", allocated: 12, price: 28000, basePrice: 28000 },
-      { code: "BUS_2", class: "BUSINESS", allocated: 12, price: 32000, basePrice: 32000 },
-    ];
+    let totalRevenue = 0;
+    let totalSold = 0;
+    let networkSeats = 0;
+    const flightSummaries: string[] = [];
 
-    // Distribute pre-sold seats proportionally (cheaper buckets sell first)
-    let remainingToSell = seatsSold;
-    const bucketSales = [
-      { code: "ECO_1", maxSold: 42 },
-      { code: "ECO_2", maxSold: 42 },
-      { code: "ECO_3", maxSold: 42 },
-      { code: "ECO_4", maxSold: 42 },
-      { code: "BUS_1", maxSold: 12 },
-      { code: "BUS_2", maxSold: 12 },
-    ];
-    
-    const soldPerBucket: Record<string, number> = {};
-    for (const bs of bucketSales) {
-      const toSell = Math.min(remainingToSell, bs.maxSold);
-      soldPerBucket[bs.code] = toSell;
-      remainingToSell -= toSell;
-      if (remainingToSell <= 0) break;
-    }
+    for (const route of routes) {
+      const aircraft = resolveAircraft(route, network.aircraft);
+      const totalSeats = aircraftSeats(aircraft);
+      const [flight] = await db.insert(flights).values({
+        sessionId: session.id,
+        routeCode: route.code,
+        flightNumber: route.flightNumber,
+        origin: route.origin,
+        destination: route.destination,
+        aircraft: aircraft.code,
+        departureDate: scheduleDeparture(session.departureDate, route, scenario)
+      }).returning();
+      const flightEnv = flightEnvironment(buildSessionEnvironment(scenario, session), flight);
 
-    let totalRevenue = 0;
-    for (const b of initialBuckets) {
-      const sold = soldPerBucket[b.code] || 0;
-      totalRevenue += sold * b.price;
-      await db.insert(buckets).values({
+      // Calculate initial seats sold based on the flight's days elapsed
+      // Use expectedOccupancyToday but add some variance to make it interesting
+      const expectedOccupancy = flightEnv.expectedOccupancyToday || 0;
+      // Add -10 to +5% variance for interesting scenarios
+      const variance = (Math.random() * 15 - 10); // -10% to +5%
+      const actualOccupancy = Math.max(0, Math.min(100, expectedOccupancy + variance));
+      const seatsSold = Math.round((actualOccupancy / 100) * totalSeats);
+
+      // Initialize buckets from the aircraft's fare ladders, fares scaled to the route
+      const initialBuckets = aircraftBuckets(aircraft, route.fareScale).map(b => ({ ...b, price: b.basePrice }));
+
+      // Distribute pre-sold seats proportionally (cheaper buckets sell first)
+      let remainingToSell = seatsSold;
+      const soldPerBucket: Record<string, number> = {};
+      for (const b of initialBuckets) {
+        const toSell = Math.min(remainingToSell, b.allocated);
+        soldPerBucket[b.code] = toSell;
+        remainingToSell -= toSell;
+        if (remainingToSell <= 0) break;
+      }
+
+      // Seat inventory, with pre-sold seats scattered through each cabin
+      const layout = seatLayout(aircraft);
+      const occupied = new Set(aircraft.cabins.flatMap(cabin => {
+        const cabinSold = initialBuckets.filter(b => b.class === cabin.class).reduce((sum, b) => sum + (soldPerBucket[b.code] || 0), 0);
+        return Array.from(randomSeats(layout.filter(seat => seat.cabin === cabin.class), cabinSold));
+      }));
+      await db.insert(seats).values(layout.map(seat => ({
         sessionId: session.id,
-        ...b,
-        sold
-      });
+        flightId: flight.id,
+        ...seat,
+        status: occupied.has(seat) ? "OCCUPIED" : "AVAILABLE"
+      })));
+
+      for (const b of initialBuckets) {
+        const sold = soldPerBucket[b.code] || 0;
+        totalRevenue += sold * b.price;
+        // Pre-sold seats have no booking records
+        await db.insert(buckets).values({
+          sessionId: session.id,
+          flightId: flight.id,
+          ...b,
+          sold,
+          revenue: sold * b.price,
+          anonymousFares: sold * b.price
+        });
+        await db.insert(pricingHistory).values({
+          sessionId: session.id,
+          flightId: flight.id,
+          bucketCode: b.code,
+          price: b.price,
+          cause: "INITIAL",
+          simulatedDate: session.currentDate
+        });
+      }
+      const observations = competitorFeed ? await this.feedObservations(competitorFeed, flight) : [];
+      await this.recordCompetitorFares(session, flight, observations.length > 0
+        ? replayFareFeed(observations, flightEnv.daysToDeparture, [])
+        : initialCompetitorFares(flightEnv));
+
+      // Nested inventory opens with EMSR-b protection levels
+      if (inventoryMode === 'nested') {
+        const flightBuckets = await this.getBuckets(session.id, flight.id);
+        await this.applyProtectionLevels(flightBuckets, protectionLevels(flightEnv, flightBuckets));
+      }
+
+      totalSold += seatsSold;
+      networkSeats += totalSeats;
+      const occupancyStatus = actualOccupancy < expectedOccupancy - 5 
+        ? "BELOW forecast (need to stimulate demand)" 
+        : actualOccupancy > expectedOccupancy + 5 
+          ? "ABOVE forecast (opportunity to increase prices)"
+          : "ON TRACK with forecast";
+      flightSummaries.push(`${describeFlight(flight)} (${aircraft.name}), departs ${flightEnv.departureDate}: ${Math.round(actualOccupancy)}% (${seatsSold}/${totalSeats} seats), ${occupancyStatus}`);
     }
 
     // Update session with initial revenue
     if (totalRevenue > 0) {
-      await db.update(sessions).set({ totalRevenue }).where(eq(sessions.id, session.id));
+      await db.update(sessions).set({
+        totalRevenue,
+        loadFactor: Math.round((totalSold / networkSeats) * 100)
+      }).where(eq(sessions.id, session.id));
     }
 
-    const occupancyStatus = actualOccupancy < expectedOccupancy - 5 
-      ? "BELOW forecast (need to stimulate demand)" 
-      : actualOccupancy > expectedOccupancy + 5 
-        ? "ABOVE forecast (opportunity to increase prices)"
-        : "ON TRACK with forecast";
-
     await this.logReasoning(session.id, "System", "Initialization", 
-      `Loaded scenario: ${scenario.name}. Day ${env.daysElapsed} of 60. Current occupancy: ${Math.round(actualOccupancy)}% (${seatsSold}/${totalSeats} seats). Expected: ${expectedOccupancy}%. Status: ${occupancyStatus}`);
+      `Loaded scenario: ${scenario.name} (${agentMode === 'heuristic' ? 'rule-based' : 'LLM'} agents, ${inventoryMode} inventory) with ${routes.length} flight${routes.length > 1 ? 's' : ''}. Day ${env.daysElapsed} of 60. Expected occupancy: ${env.expectedOccupancyToday || 0}%.\n` +
+      flightSummaries.join('\n'));
     return session;
   }
 
-  async getBuckets(sessionId: number): Promise<Bucket[]> {
-    return db.select().from(buckets).where(eq(buckets.sessionId, sessionId));
+  async getBuckets(sessionId: number, flightId?: number): Promise<Bucket[]> {
+    const filter = flightId !== undefined
+      ? and(eq(buckets.sessionId, sessionId), eq(buckets.flightId, flightId))
+      : eq(buckets.sessionId, sessionId);
+    return db.select().from(buckets).where(filter).orderBy(asc(buckets.flightId), asc(buckets.id));
+  }
+
+  async getSeats(sessionId: number, flightId: number): Promise<Seat[]> {
+    return db.select().from(seats)
+      .where(and(eq(seats.sessionId, sessionId), eq(seats.flightId, flightId)))
+      .orderBy(asc(seats.row), asc(seats.letter));
+  }
+
+  // With a flight, its own entries plus session-wide ones (clock, initialization, guardrails)
+  async getLogs(sessionId: number, flightId?: number): Promise<ReasoningLog[]> {
+    const filter = flightId !== undefined
+      ? and(eq(reasoningLogs.sessionId, sessionId), or(eq(reasoningLogs.flightId, flightId), isNull(reasoningLogs.flightId)))
+      : eq(reasoningLogs.sessionId, sessionId);
+    return db.select().from(reasoningLogs).where(filter).orderBy(desc(reasoningLogs.timestamp));
+  }
+
+  async getPricingHistory(sessionId: number, bucketCode?: string, flightId?: number): Promise<PricingHistoryEntry[]> {
+    const filter = and(
+      eq(pricingHistory.sessionId, sessionId),
+      bucketCode ? eq(pricingHistory.bucketCode, bucketCode) : undefined,
+      flightId !== undefined ? eq(pricingHistory.flightId, flightId) : undefined
+    );
+    return db.select().from(pricingHistory).where(filter).orderBy(asc(pricingHistory.simulatedDate), asc(pricingHistory.id));
+  }
+
+  async getCompetitorFares(sessionId: number, flightId?: number, competitor?: string): Promise<CompetitorFare[]> {
+    const filter = and(
+      eq(competitorFares.sessionId, sessionId),
+      flightId !== undefined ? eq(competitorFares.flightId, flightId) : undefined,
+      competitor ? eq(competitorFares.competitor, competitor) : undefined
+    );
+    return db.select().from(competitorFares).where(filter).orderBy(asc(competitorFares.simulatedDate), asc(competitorFares.id));
+  }
+
+  async getFareObservations(filter: FareObservationFilter = {}): Promise<FareObservation[]> {
+    return db.select().from(fareObservations).where(and(
+      filter.route ? eq(fareObservations.route, filter.route) : undefined,
+      filter.carrier ? eq(fareObservations.carrier, filter.carrier) : undefined,
+      filter.departureDate ? eq(fareObservations.departureDate, filter.departureDate) : undefined,
+      filter.cabin ? eq(fareObservations.cabin, filter.cabin) : undefined
+    )).orderBy(asc(fareObservations.observedAt), asc(fareObservations.id));
+  }
+
+  // Stores normalized observations (server/fare-feed.ts), skipping snapshots already stored
+  async importFareObservations(observations: NewFareObservation[]): Promise<FareFeedImport> {
+    let imported = 0;
+    for (let i = 0; i < observations.length; i += FARE_FEED_BATCH) {
+      const inserted = await db.insert(fareObservations)
+        .values(observations.slice(i, i + FARE_FEED_BATCH))
+        .onConflictDoNothing()
+        .returning({ id: fareObservations.id });
+      imported += inserted.length;
+    }
+    logger.info('Storage', `Fare feed: ${imported} observation(s) imported, ${observations.length - imported} already stored`);
+    return { imported, duplicates: observations.length - imported };
   }
 
-  async getLogs(sessionId: number): Promise<ReasoningLog[]> {
-    return db.select().from(reasoningLogs).where(eq(reasoningLogs.sessionId, sessionId)).orderBy(desc(reasoningLogs.timestamp));
+  // Economy observations a feed session replays on a flight: the feed's departure date on the
+  // flight's route, or the route's most observed departure
+  private async feedObservations(feed: CompetitorFeed, flight: Flight): Promise<FareObservation[]> {
+    const onRoute = and(eq(fareObservations.route, flight.routeCode), eq(fareObservations.cabin, 'ECONOMY'));
+    let departureDate = feed.departureDate;
+    if (!departureDate) {
+      const [busiest] = await db.select({ departureDate: fareObservations.departureDate })
+        .from(fareObservations)
+        .where(onRoute)
+        .groupBy(fareObservations.departureDate)
+        .orderBy(desc(sql`count(*)`), desc(fareObservations.departureDate))
+        .limit(1);
+      departureDate = busiest?.departureDate;
+    }
+    if (!departureDate) return [];
+    return db.select().from(fareObservations).where(and(onRoute, eq(fareObservations.departureDate, departureDate)));
+  }
+
+  // Each competitor's most recent fare on the flight
+  private async latestCompetitorFares(flightId: number): Promise<CompetitorFare[]> {
+    const series = await db.select().from(competitorFares).where(eq(competitorFares.flightId, flightId)).orderBy(asc(competitorFares.id));
+    return Array.from(new Map(series.map(f => [f.competitor, f])).values());
+  }
+
+  private async recordCompetitorFares(session: Session, flight: Flight, moves: CompetitorMove[]) {
+    if (moves.length === 0) return;
+    await db.insert(competitorFares).values(moves.map(move => ({
+      sessionId: session.id,
+      flightId: flight.id,
+      ...move,
+      simulatedDate: session.currentDate
+    })));
+  }
+
+  async getA2ATrace(planId: string): Promise<A2AMessageRecord[]> {
+    return db.select().from(a2aMessages).where(eq(a2aMessages.planId, planId)).orderBy(asc(a2aMessages.sequence));
   }
 
   async getChatHistory(sessionId: number): Promise<ChatMessage[]> {
     return db.select().from(chatMessages).where(eq(chatMessages.sessionId, sessionId)).orderBy(chatMessages.timestamp);
   }
 
+  async getBooking(referenceCode: string): Promise<Booking | undefined> {
+    return bookingService.getBooking(referenceCode);
+  }
+
+  async listBookings(sessionId: number, filter?: BookingFilter): Promise<Booking[]> {
+    return bookingService.listBookings(sessionId, filter);
+  }
+
+  async getQuote(quoteId: string): Promise<Quote | undefined> {
+    return bookingService.getQuote(quoteId);
+  }
+
   async clearLogs(sessionId: number): Promise<void> {
     await db.delete(reasoningLogs).where(eq(reasoningLogs.sessionId, sessionId));
+    await db.delete(a2aMessages).where(eq(a2aMessages.sessionId, sessionId));
   }
 
   async clearChat(sessionId: number): Promise<void> {
     await db.delete(chatMessages).where(eq(chatMessages.sessionId, sessionId));
   }
 
-  async bookTicket(sessionId: number, bucketCode: string, quantity: number): Promise<boolean> {
-    const [bucket] = await db.select().from(buckets).where(eq(buckets.code, bucketCode)); // Should filter by session too strictly speaking, but code is unique per session usually if carefully managed. Better:
-    // Actually code is NOT unique globally. Need session ID.
-    const [targetBucket] = await db.select().from(buckets)
-      .where(sql`${buckets.sessionId} = ${sessionId} AND ${buckets.code} = ${bucketCode}`);
+  // Book `quantity` seats in a bucket through the booking service, which seats the
+  // passengers and records the booking, and log it with its fare breakdown. The book
+  // endpoint and the booking assistant both book through here.
+  async bookTicket(sessionId: number, flightId: number, bucketCode: string, quantity: number, seatNumbers?: string[], passengerName?: string): Promise<BookingConfirmation | null> {
+    const confirmation = await bookingService.book({ sessionId, flightId, bucketCode, quantity, seatNumbers, passengerName });
+    if (!confirmation) return null;
+    // The booking is saved by now: a failed log entry mustn't report it as failed
+    await this.logBooking(sessionId, confirmation, !!seatNumbers && seatNumbers.length > 0)
+      .catch(e => logger.error('Storage', `Failed to log booking ${confirmation.booking.referenceCode}`, e));
+    return confirmation;
+  }
+
+  // Hold seats at the bucket's current fare until the quote is confirmed or expires
+  async createQuote(sessionId: number, flightId: number, bucketCode: string, quantity: number, seatNumbers?: string[]): Promise<Quote | null> {
+    const quote = await bookingService.quote({ sessionId, flightId, bucketCode, quantity, seatNumbers });
+    if (!quote) return null;
+
+    const seatList = quote.seatNumbers.length > 0 ? quote.seatNumbers.join(', ') : 'assigned on confirmation';
+    await this.logReasoning(sessionId, "Booking Agent",
+      `Fare Quoted: ${quote.id}`,
+      `Held ${quantity} seat(s) in ${bucketCode} at ₹${quote.pricePerSeat.toLocaleString()} per seat until ${quote.expiresAt.toISOString()}. Seats: ${seatList}.`,
+      { quoteId: quote.id, bucketCode, quantity, pricePerSeat: quote.pricePerSeat, expiresAt: quote.expiresAt },
+      flightId
+    );
+    return quote;
+  }
 
-    if (!targetBucket || (targetBucket.sold || 0) + quantity > targetBucket.allocated) {
-      return false;
+  // Book a held quote at its quoted fare, even if the bucket has been repriced since
+  async confirmQuote(quoteId: string, passengerName?: string): Promise<BookingConfirmation | null> {
+    const confirmation = await bookingService.confirmQuote(quoteId, passengerName);
+    if (!confirmation) return null;
+    await this.logBooking(confirmation.booking.sessionId, confirmation, confirmation.seats.length > 0, quoteId)
+      .catch(e => logger.error('Storage', `Failed to log booking ${confirmation.booking.referenceCode}`, e));
+    return confirmation;
+  }
+
+  async expireHolds(): Promise<Quote[]> {
+    const expired = await bookingService.expireHolds();
+    for (const quote of expired) {
+      await this.logReasoning(quote.sessionId, "Booking Agent",
+        `Quote Expired: ${quote.id}`,
+        `Hold on ${quote.quantity} seat(s) lapsed unconfirmed; the seats are available again.`,
+        { quoteId: quote.id },
+        quote.flightId
+      );
     }
+    return expired;
+  }
 
-    await db.update(buckets)
-      .set({ sold: (targetBucket.sold || 0) + quantity })
-      .where(eq(buckets.id, targetBucket.id));
+  private async logBooking(sessionId: number, confirmation: BookingConfirmation, selected: boolean, quoteId?: string): Promise<void> {
+    const { booking, flight, bucket } = confirmation;
+    const quantity = booking.passengerCount;
+    const basePrice = bucket.basePrice || booking.pricePerSeat;
+    const priceChange = ((booking.pricePerSeat - basePrice) / basePrice) * 100;
+    const logReasoning = `
+Booking completed successfully.
 
-    // Update revenue
-    const [session] = await db.select().from(sessions).where(eq(sessions.id, sessionId));
-    if (session) {
-      await db.update(sessions)
-        .set({ totalRevenue: (session.totalRevenue || 0) + (targetBucket.price * quantity) })
-        .where(eq(sessions.id, sessionId));
+**Passenger Details:**
+- Flight: ${describeFlight(flight)}
+- Passengers: ${quantity}
+- Class: ${bucket.class} (${bucket.code})
+- Seats: ${describeSeating(confirmation)}${selected ? ' (selected)' : ' (auto-assigned)'}
+
+**Fare Breakdown:**
+- Base fare: ₹${basePrice.toLocaleString()} per seat
+- Dynamic price: ₹${booking.pricePerSeat.toLocaleString()} per seat (${priceChange >= 0 ? '+' : ''}${priceChange.toFixed(1)}%)${quoteId ? ` as quoted in ${quoteId}` : ''}
+- Subtotal: ₹${booking.pricePerSeat.toLocaleString()} × ${quantity} = ₹${booking.totalFare.toLocaleString()}
+- Seat selection: ₹${booking.seatFees.toLocaleString()}
+
+**Pricing Reasoning:**
+${await this.explainPrice(sessionId, flight.id, bucket.code)}
+
+**Reference:** ${booking.referenceCode}
+    `.trim();
+
+    await this.logReasoning(sessionId, "Booking Agent",
+      `Booking Confirmed: ${booking.referenceCode}`,
+      logReasoning,
+      undefined,
+      flight.id
+    );
+  }
+
+  // Why a bucket has its current fare: the Pricing Agent's reasoning for it in the latest
+  // cycle, plus any ladder adjustment and guardrail clips made to it in that cycle
+  private async explainPrice(sessionId: number, flightId: number, bucketCode: string): Promise<string> {
+    const latestLog = (agentName: string) => db.select()
+      .from(reasoningLogs)
+      .where(and(eq(reasoningLogs.sessionId, sessionId), eq(reasoningLogs.flightId, flightId), eq(reasoningLogs.agentName, agentName)))
+      .orderBy(desc(reasoningLogs.timestamp))
+      .limit(1);
+    const [[pricingLog], [guardrailLog]] = await Promise.all([latestLog("Pricing Agent"), latestLog("Pricing Guardrails")]);
+
+    const price = (pricingLog?.metadata as { bucketPrices?: BucketPrice[] } | null)?.bucketPrices
+      ?.find(p => p.bucketCode === bucketCode);
+    if (!pricingLog || !price) return "Dynamic pricing applied based on current market conditions.";
+
+    const lines = [`${bucketCode} proposed at ${price.multiplier}x base fare: ${price.reasoning}`];
+    if (price.adjustment) lines.push(price.adjustment);
+    // Guardrails are logged right after the Pricing Agent entry of their cycle
+    const sameCycle = guardrailLog?.timestamp && pricingLog.timestamp && guardrailLog.timestamp >= pricingLog.timestamp;
+    const clips = sameCycle
+      ? ((guardrailLog.metadata as { clips?: PolicyClip[] } | null)?.clips ?? []).filter(c => c.bucketCode === bucketCode)
+      : [];
+    if (clips.length > 0) lines.push(`Guardrails: ${clips.map(describeClip).join('; ')}`);
+    return lines.join('\n');
+  }
+
+  // Cancel a confirmed booking before departure: its seats go back to the cabin, its
+  // passengers come off the bucket and the fare class's refund comes off revenue.
+  // Null when the booking isn't confirmed or its flight has departed.
+  async cancelBooking(referenceCode: string): Promise<Cancellation | null> {
+    const booking = await this.getBooking(referenceCode);
+    if (!booking || booking.status !== "CONFIRMED") return null;
+
+    const session = await this.getSession(booking.sessionId);
+    const [bucket] = await db.select().from(buckets).where(eq(buckets.id, booking.bucketId));
+    const [flight] = bucket ? await db.select().from(flights).where(eq(flights.id, bucket.flightId)) : [];
+    if (!session || !bucket || !flight) return null;
+    const env = await this.getSessionEnvironment(session);
+    if (env && flightEnvironment(env, flight).daysToDeparture === 0) return null;
+
+    const share = refundShare(flight.aircraft, bucket.code);
+    const refund = computeRefund(booking, share);
+    const cancellation = await bookingService.cancel(booking, flight.id, refund, session.currentDate);
+    if (!cancellation) return null;
+
+    const releasedSeats = cancellation.releasedSeats.map(seatNumber);
+    await this.logReasoning(session.id, "Booking Agent", `Booking Cancelled: ${booking.referenceCode}`,
+      `${booking.passengerCount} passenger(s) in ${bucket.code} on ${describeFlight(flight)}. ` +
+      `Fare ${describeRefundShare(share)}: refunded ₹${refund.total.toLocaleString()} of ₹${(booking.totalFare + booking.seatFees).toLocaleString()}. ` +
+      `Seats released: ${releasedSeats.join(', ') || 'none'}.`,
+      { refund, releasedSeats }, flight.id);
+
+    return { booking: cancellation.booking, flight, refund, releasedSeats };
+  }
+
+  // === SIMULATED CLOCK ===
+  // Step the session clock forward one day at a time, running an agent cycle for each
+  // simulated day until the requested number of days have passed or every flight has
+  // departed. Each flight closes on its own departure day and stops selling.
+  async advanceSimulation(sessionId: number, days: number): Promise<AdvanceResult | null> {
+    let [session] = await db.select().from(sessions).where(eq(sessions.id, sessionId));
+    if (!session) {
+      logger.warn('Storage', `Advance failed: session ${sessionId} not found`);
+      return null;
     }
-    
-    return true;
+
+    const scenario = await this.getScenario(session.scenarioId);
+    if (!scenario) {
+      logger.warn('Storage', `Advance failed: scenario not found for session ${sessionId}`);
+      return null;
+    }
+
+    const sessionFlights = await this.getFlights(sessionId);
+    const closed = new Set(sessionFlights.filter(f => f.noShows !== null).map(f => f.id));
+    const open = () => sessionFlights.filter(f => !closed.has(f.id));
+    let daysAdvanced = 0;
+    let env = buildSessionEnvironment(scenario, session);
+
+    while (daysAdvanced < days && env.daysToDeparture > 0 && open().length > 0) {
+      [session] = await db.update(sessions)
+        .set({ currentDate: new Date(session.currentDate.getTime() + DAY_MS) })
+        .where(eq(sessions.id, sessionId))
+        .returning();
+      daysAdvanced++;
+      env = buildSessionEnvironment(scenario, session);
+      logger.info('Storage', `Session ${sessionId} advanced to day ${env.daysElapsed} of ${env.bookingWindow}`);
+
+      for (const flight of open()) {
+        if (flightEnvironment(env, flight).daysToDeparture > 0) continue;
+        await this.closeFlight(sessionId, flight, flightEnvironment(env, flight));
+        closed.add(flight.id);
+      }
+      if (env.daysToDeparture === 0 || open().length === 0) break;
+
+      await this.logReasoning(sessionId, "System", `Day ${env.daysElapsed} of ${env.bookingWindow}`,
+        `Simulated clock advanced to ${env.currentDate}. ${env.daysToDeparture} days to departure. Expected occupancy today: ${env.expectedOccupancyToday}%.`);
+      // The day's demand and the agents' cycle see the market after the day's events
+      session = await this.applyMarketEvents(session, scenario);
+      env = buildSessionEnvironment(scenario, session);
+      for (const flight of open()) {
+        await this.simulateCompetitorFares(session, flight, flightEnvironment(env, flight));
+        const marketEnv = applyCompetitorFares(flightEnvironment(env, flight), await this.latestCompetitorFares(flight.id));
+        await this.simulateCancellations(sessionId, flight, marketEnv);
+        await this.simulateDemand(sessionId, flight, marketEnv);
+      }
+      await this.runOrchestration(sessionId);
+    }
+
+    [session] = await db.select().from(sessions).where(eq(sessions.id, sessionId));
+    return { session, daysAdvanced, departed: open().length === 0 };
+  }
+
+  // A flight reaching its departure day: no-shows, denied boardings and its final tally
+  private async closeFlight(sessionId: number, flight: Flight, flightEnv: ScenarioEnvironment): Promise<void> {
+    const flightBuckets = await this.getBuckets(sessionId, flight.id);
+    const totalSeats = flightBuckets.reduce((sum, b) => sum + b.allocated, 0);
+    const soldSeats = flightBuckets.reduce((sum, b) => sum + (b.sold || 0), 0);
+    const revenue = flightBuckets.reduce((sum, b) => sum + b.revenue, 0);
+    const noShowsByCabin = await this.recordNoShows(flight, flightBuckets, flightEnv);
+    const noShows = Object.values(noShowsByCabin).reduce((sum, n) => sum + n, 0);
+    const boarding = await this.recordDeniedBoardings(flight, flightBuckets, noShowsByCabin);
+    await this.logReasoning(sessionId, "System", "Flight Departed",
+      `${describeFlight(flight)} closed on ${flightEnv.departureDate}. Final occupancy: ${soldSeats}/${totalSeats} seats, ${soldSeats - noShows - boarding.deniedBoardings} boarded (${noShows} no-show${noShows === 1 ? '' : 's'}). ` +
+      (boarding.deniedBoardings > 0 ? `${boarding.deniedBoardings} passenger(s) denied boarding, compensation ₹${boarding.compensation.toLocaleString()}. ` : '') +
+      `${boarding.emptySeats} seat(s) flew empty. ` +
+      `Revenue: ₹${revenue.toLocaleString()} against a target of ₹${flightEnv.revenueTarget.toLocaleString()}.`,
+      { noShows, ...boarding }, flight.id);
+  }
+
+  // No-shows at departure: each booking party fails to turn up with the scenario's no-show
+  // rate, and simulated passengers without a booking record are sampled one by one. Fares
+  // of no-shows are not refunded. Returns the no-shows per cabin.
+  private async recordNoShows(flight: Flight, flightBuckets: Bucket[], env: ScenarioEnvironment): Promise<Record<string, number>> {
+    const confirmed = await this.getConfirmedBookings(flightBuckets);
+    const partiesMissing = confirmed.filter(() => Math.random() < noShowRate(env));
+    if (partiesMissing.length > 0) {
+      await db.update(bookings).set({ status: "NO_SHOW" }).where(inArray(bookings.id, partiesMissing.map(b => b.id)));
+    }
+
+    const cabinOf = (bucketId: number) => flightBuckets.find(b => b.id === bucketId)?.class ?? 'ECONOMY';
+    const noShowsByCabin: Record<string, number> = {};
+    for (const cabin of Array.from(new Set(flightBuckets.map(b => b.class)))) {
+      const soldSeats = flightBuckets.filter(b => b.class === cabin).reduce((sum, b) => sum + (b.sold || 0), 0);
+      const bookedSeats = confirmed.filter(b => cabinOf(b.bucketId) === cabin).reduce((sum, b) => sum + b.passengerCount, 0);
+      const partiesMissingSeats = partiesMissing.filter(b => cabinOf(b.bucketId) === cabin).reduce((sum, b) => sum + b.passengerCount, 0);
+      noShowsByCabin[cabin] = partiesMissingSeats + sampleNoShows(env, Math.max(0, soldSeats - bookedSeats));
+    }
+    const noShows = Object.values(noShowsByCabin).reduce((sum, n) => sum + n, 0);
+    await db.update(flights).set({ noShows }).where(eq(flights.id, flight.id));
+    return noShowsByCabin;
+  }
+
+  // Passengers who turn up beyond a cabin's physical seats are denied boarding and
+  // compensated; seats left empty by no-shows and unsold inventory fly empty
+  private async recordDeniedBoardings(flight: Flight, flightBuckets: Bucket[], noShowsByCabin: Record<string, number>): Promise<{ deniedBoardings: number; compensation: number; emptySeats: number }> {
+    const aircraft = getAircraft(flight.aircraft);
+    let deniedBoardings = 0;
+    let compensation = 0;
+    let emptySeats = 0;
+    for (const cabin of Object.keys(noShowsByCabin)) {
+      const cabinBuckets = flightBuckets.filter(b => b.class === cabin);
+      const cabinConfig = aircraft?.cabins.find(c => c.class === cabin);
+      const capacity = cabinConfig ? cabinSeatCount(cabinConfig) : cabinBuckets.reduce((sum, b) => sum + b.allocated, 0);
+      const shows = cabinBuckets.reduce((sum, b) => sum + (b.sold || 0), 0) - noShowsByCabin[cabin];
+      const denied = Math.max(0, shows - capacity);
+      deniedBoardings += denied;
+      compensation += denied * (OVERBOOKING_MODEL.deniedBoardingCost[cabin] ?? OVERBOOKING_MODEL.deniedBoardingCost.ECONOMY);
+      emptySeats += Math.max(0, capacity - shows);
+    }
+    await db.update(flights).set({ deniedBoardings }).where(eq(flights.id, flight.id));
+    return { deniedBoardings, compensation, emptySeats };
   }
 
-  async logReasoning(sessionId: number, agent: string, decision: string, reasoning: string, metadata?: Record<string, unknown>) {
+  private async getConfirmedBookings(flightBuckets: Bucket[]): Promise<Booking[]> {
+    if (flightBuckets.length === 0) return [];
+    return db.select().from(bookings)
+      .where(and(inArray(bookings.bucketId, flightBuckets.map(b => b.id)), eq(bookings.status, "CONFIRMED")));
+  }
+
+  // A day of cancellations among simulated sales. Passengers with a booking record cancel
+  // through cancelBooking, so only seats sold without one can cancel here; each refunds
+  // its fare class's share of the fare paid (BookingService.cancelAnonymous).
+  async simulateCancellations(sessionId: number, flight: Flight, env: ScenarioEnvironment): Promise<BookingRequest[]> {
+    const flightBuckets = await this.getBuckets(sessionId, flight.id);
+    const confirmed = await this.getConfirmedBookings(flightBuckets);
+    const eligible = flightBuckets.map(b => ({
+      ...b,
+      sold: (b.sold || 0) - confirmed.filter(c => c.bucketId === b.id).reduce((sum, c) => sum + c.passengerCount, 0)
+    }));
+    const cancellations: BookingRequest[] = [];
+    let refunded = 0;
+    for (const cancellation of generateDailyCancellations(env, eligible)) {
+      const refund = await bookingService.cancelAnonymous(
+        { sessionId, flightId: flight.id, bucketCode: cancellation.bucketCode, quantity: cancellation.quantity },
+        refundShare(flight.aircraft, cancellation.bucketCode)
+      );
+      if (!refund) continue;
+      cancellations.push(cancellation);
+      refunded += refund.total;
+    }
+    if (cancellations.length === 0) return cancellations;
+
+    const seatsCancelled = cancellations.reduce((sum, c) => sum + c.quantity, 0);
+    await this.logReasoning(sessionId, "Demand Simulator",
+      `${seatsCancelled} seat${seatsCancelled === 1 ? '' : 's'} cancelled • ₹${refunded.toLocaleString()} refunded`,
+      `Cancellations on day ${env.daysElapsed} (${(cancellationRate(env) * 100).toFixed(1)}% daily rate): ` +
+      cancellations.map(c => `${c.bucketCode} ×${c.quantity}`).join(', ') + '. Released seats are back on sale.',
+      { cancellations, refunded },
+      flight.id);
+
+    return cancellations;
+  }
+
+  // Competitors' fares for the day: each reacts to our economy fare move of reactionLagDays
+  // ago (server/competitors.ts), or, for a session with a competitor feed, the feed's fares
+  // are replayed (server/fare-feed.ts). Flights whose route the feed doesn't cover stay simulated.
+  // `env` is the flight environment at base competitor fares.
+  async simulateCompetitorFares(session: Session, flight: Flight, env: ScenarioEnvironment): Promise<CompetitorMove[]> {
+    const latest = await this.latestCompetitorFares(flight.id);
+    const observations = session.competitorFeed ? await this.feedObservations(session.competitorFeed, flight) : [];
+    let moves: CompetitorMove[];
+    if (observations.length > 0) {
+      moves = replayFareFeed(observations, env.daysToDeparture, latest);
+    } else {
+      const lagDays = reactionLagDays(env.competitorAggressiveness);
+      moves = reactToOurFares(env, latest, await this.economyFareMove(flight, new Date(session.currentDate.getTime() - lagDays * DAY_MS)), lagDays);
+    }
+    await this.recordCompetitorFares(session, flight, moves);
+
+    const reactions = moves.filter(m => m.previousFare !== null && m.cause !== 'INITIAL' && m.cause !== 'DRIFT');
+    if (reactions.length > 0) {
+      await this.logReasoning(session.id, "Competitor Market",
+        reactions.map(describeCompetitorMove).join(', '),
+        reactions.map(m => `${m.competitor}: ${m.reasoning}.`).join(' '),
+        { moves: reactions },
+        flight.id);
+    }
+    return moves;
+  }
+
+  // Relative move of our economy fares over one simulated day, averaged across the economy
+  // buckets (unchanged buckets count as 0)
+  private async economyFareMove(flight: Flight, simulatedDate: Date): Promise<number> {
+    const economy = (await this.getBuckets(flight.sessionId, flight.id)).filter(b => b.class === 'ECONOMY');
+    if (economy.length === 0) return 0;
+    const changes = await db.select().from(pricingHistory).where(and(
+      eq(pricingHistory.flightId, flight.id),
+      eq(pricingHistory.simulatedDate, simulatedDate),
+      ne(pricingHistory.cause, 'INITIAL')
+    )).orderBy(asc(pricingHistory.id));
+
+    let total = 0;
+    for (const bucket of economy) {
+      const bucketChanges = changes.filter(c => c.bucketCode === bucket.code);
+      const opening = bucketChanges[0]?.previousPrice;
+      if (opening) total += bucketChanges[bucketChanges.length - 1].price / opening - 1;
+    }
+    return total / economy.length;
+  }
+
+  // Generate a day of synthetic passenger demand at current prices and sell it through
+  // the booking service, without booking records
+  async simulateDemand(sessionId: number, flight: Flight, env: ScenarioEnvironment): Promise<DailyDemand> {
+    const session = await this.getSession(sessionId);
+    const currentBuckets = await this.getBuckets(sessionId, flight.id);
+    const demand = generateDailyDemand(env, currentBuckets, session?.inventoryMode as InventoryMode | undefined);
+
+    let seatsBooked = 0;
+    let bookingRevenue = 0;
+    for (const request of demand.requests) {
+      const bucket = currentBuckets.find(b => b.code === request.bucketCode);
+      if (bucket && await bookingService.sellAnonymous({ sessionId, flightId: flight.id, bucketCode: request.bucketCode, quantity: request.quantity })) {
+        seatsBooked += request.quantity;
+        bookingRevenue += bucket.price * request.quantity;
+      }
+    }
+
+    logger.info('Storage', `Demand for ${describeFlight(flight)} on day ${env.daysElapsed}: ${demand.shoppers} shoppers, ${demand.requests.length} bookings`);
+    await this.logReasoning(sessionId, "Demand Simulator",
+      `${demand.requests.length} bookings • ${seatsBooked} seats • ₹${bookingRevenue.toLocaleString()}`,
+      `${demand.shoppers} shoppers arrived on day ${env.daysElapsed}. ${demand.lostToPrice} declined on price, ${demand.lostToCapacity} found no bucket with enough seats.`,
+      {
+        shoppers: demand.shoppers,
+        bookings: demand.requests,
+        lostToPrice: demand.lostToPrice,
+        lostToCapacity: demand.lostToCapacity,
+      },
+      flight.id);
+
+    return demand;
+  }
+
+  async logReasoning(sessionId: number, agent: string, decision: string, reasoning: string, metadata?: Record<string, unknown>, flightId?: number) {
     await db.insert(reasoningLogs).values({
       sessionId,
+      flightId: flightId ?? null,
       agentName: agent,
       decision,
       reasoning,
@@ -580,82 +916,184 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // Reprice a flight (or every flight in the session) after a sale, cancellation or market
+  // event has been saved. The change stands either way, so a repricing failure is only
+  // logged: failing the request would tell the client (and any Idempotency-Key retry) that
+  // it didn't happen. Never throws.
+  async repriceAfterChange(sessionId: number, flightId?: number): Promise<void> {
+    try {
+      await this.runOrchestration(sessionId, undefined, flightId);
+    } catch (e) {
+      logger.error('Storage', `Repricing failed for session ${sessionId}` + (flightId ? `, flight ${flightId}` : ''), e);
+    }
+  }
+
   // === AI AGENT ORCHESTRATION (A2A Pattern) ===
-  async runOrchestration(sessionId: number, bookingContext?: BookingContext): Promise<OrchestrationResult | null> {
+  // One orchestration per flight still on sale (or only `flightId`): the agents reason about
+  // each flight's own route, buckets and fares. Session revenue and load factor are totalled afterwards.
+  async runOrchestration(sessionId: number, bookingContext?: BookingContext, flightId?: number): Promise<OrchestrationResult[]> {
     logger.orchestration('START', `Running orchestration for session ${sessionId}`, 
       bookingContext ? { bookingContext } : undefined);
     
-    const session = await this.getCurrentSession();
-    if (!session || session.id !== sessionId) {
+    const session = await this.getSession(sessionId);
+    if (!session) {
       logger.warn('Storage', `Orchestration failed: session ${sessionId} not found`);
-      return null;
+      return [];
     }
 
-    const currentBuckets = await this.getBuckets(sessionId);
-    const scenario = SCENARIOS.find(s => s.id === session.scenarioId);
+    const scenario = await this.getScenario(session.scenarioId);
     
     if (!scenario) {
       logger.warn('Storage', `Orchestration failed: scenario not found for session ${sessionId}`);
-      return null;
+      return [];
     }
 
-    const env = scenario.environment;
-    
+    const env = buildSessionEnvironment(scenario, session);
+    const targets = (await this.getFlights(sessionId))
+      .filter(f => (flightId === undefined || f.id === flightId) && flightEnvironment(env, f).daysToDeparture > 0);
+    const results: OrchestrationResult[] = [];
+    for (const flight of targets) {
+      results.push(await this.orchestrateFlight(session, flight, flightEnvironment(env, flight), bookingContext));
+    }
+
+    if (results.some(r => r.results.some(res => res.agentType === 'pricing' && res.success))) {
+      await this.updateSessionTotals(sessionId);
+    }
+    return results;
+  }
+
+  // Load factor across all flights. Revenue is what sales actually charged, less refunds,
+  // so it isn't revalued at current fares.
+  private async updateSessionTotals(sessionId: number): Promise<void> {
+    const currentBuckets = await this.getBuckets(sessionId);
+    const totalSeats = currentBuckets.reduce((sum, b) => sum + b.allocated, 0);
+    const soldSeats = currentBuckets.reduce((sum, b) => sum + (b.sold || 0), 0);
+    const loadFactor = totalSeats > 0 ? Math.round((soldSeats / totalSeats) * 100) : 0;
+
+    await db.update(sessions)
+      .set({ loadFactor })
+      .where(eq(sessions.id, sessionId));
+  }
+
+  private async orchestrateFlight(session: Session, flight: Flight, baseEnv: ScenarioEnvironment, bookingContext?: BookingContext): Promise<OrchestrationResult> {
+    const sessionId = session.id;
+    const currentBuckets = await this.getBuckets(sessionId, flight.id);
+    const policy = await this.getPricingPolicy(session);
+    // Agents and guardrails see competitors at their current fares
+    const latestFares = await this.latestCompetitorFares(flight.id);
+    const env = applyCompetitorFares(baseEnv, latestFares);
+
     // Create orchestrator with callback to log reasoning and optional booking context
     const orchestrator = new OrchestratorAgent(
       env,
       currentBuckets,
       async (agentName: string, decision: string, reasoning: string, metadata: Record<string, unknown>) => {
-        await this.logReasoning(sessionId, agentName, decision, reasoning, metadata);
+        await this.logReasoning(sessionId, agentName, decision, reasoning, metadata, flight.id);
       },
+      createAgentBackend(session.agentMode as AgentMode),
+      policy,
+      session.inventoryMode as InventoryMode,
+      latestFares,
       bookingContext
     );
 
     // Run the orchestration - the orchestrator will dynamically generate a plan
     // and execute sub-agents based on that plan
-    logger.orchestration('EXECUTE', 'Starting orchestrator.orchestrate()');
+    logger.orchestration('EXECUTE', `Starting orchestrator.orchestrate() for ${describeFlight(flight)}`);
     const result = await orchestrator.orchestrate();
     logger.orchestration('COMPLETE', `Orchestration completed with ${result.results.length} agent results`);
 
+    // Persist the A2A trace so the plan's message flow can be inspected later
+    if (result.a2aTrace.length > 0) {
+      await db.insert(a2aMessages).values(result.a2aTrace.map((msg, sequence) => ({
+        sessionId,
+        flightId: flight.id,
+        planId: result.plan.planId,
+        messageId: msg.id,
+        sequence,
+        fromAgent: msg.from,
+        toAgent: msg.to,
+        type: msg.type,
+        action: msg.action,
+        payload: msg.payload,
+        startedAt: msg.timing?.startedAt,
+        durationMs: msg.timing?.durationMs,
+        timestamp: msg.timestamp
+      })));
+    }
+
     // Apply pricing changes based on orchestration result
     const pricingResult = result.results.find(r => r.agentType === 'pricing');
     if (pricingResult?.success) {
-      const multiplier = (pricingResult.output as { multiplier?: number })?.multiplier || 1.0;
-      const clampedMultiplier = Math.max(0.80, Math.min(1.20, multiplier));
-      
-      // Apply multiplier to all buckets and calculate new revenue
-      let newTotalRevenue = 0;
+      const proposed = (pricingResult.output as { bucketPrices?: BucketPrice[] }).bucketPrices ?? [];
+
+      // Hold the agent's fares to the session guardrails
+      const changesToday = new Map<string, number>();
+      const todaysChanges = await db.select().from(pricingHistory).where(and(
+        eq(pricingHistory.flightId, flight.id),
+        eq(pricingHistory.simulatedDate, session.currentDate),
+        ne(pricingHistory.cause, 'INITIAL')
+      ));
+      for (const change of todaysChanges) {
+        changesToday.set(change.bucketCode, (changesToday.get(change.bucketCode) || 0) + 1);
+      }
+      const { prices: bucketPrices, clips, conflicts } = applyPricingPolicy(
+        policy, env, currentBuckets, proposed, changesToday
+      );
+      if (clips.length > 0 || conflicts.length > 0) {
+        const clippedBuckets = new Set(clips.map(c => c.bucketCode)).size;
+        const outOfOrder = conflicts.length > 0
+          ? ` Out of ladder order, no room within guardrails: ${conflicts.map(describeLadderConflict).join('; ')}`
+          : '';
+        await this.logReasoning(sessionId, "Pricing Guardrails",
+          `[CLIPPED] ${clippedBuckets} of ${proposed.length} fares`,
+          clips.map(describeClip).join('; ') + outOfOrder,
+          { planId: result.plan.planId, clips, conflicts },
+          flight.id
+        );
+      }
       
+      // Apply each bucket's fare
       for (const bucket of currentBuckets) {
-        let bucketMultiplier = clampedMultiplier;
-        if (bucket.class === "BUSINESS") {
-          bucketMultiplier = Math.min(1.25, clampedMultiplier * 1.05);
-        }
-        const newPrice = Math.round(bucket.basePrice * bucketMultiplier);
+        const newPrice = bucketPrices.find(p => p.bucketCode === bucket.code)?.price ?? bucket.price;
         await db.update(buckets)
           .set({ price: newPrice })
           .where(eq(buckets.id, bucket.id));
-        
-        // Calculate revenue from sold seats at new price
-        newTotalRevenue += newPrice * (bucket.sold || 0);
+
+        if (newPrice !== bucket.price) {
+          const clipped = clips.filter(c => c.bucketCode === bucket.code).map(c => c.rule);
+          await db.insert(pricingHistory).values({
+            sessionId,
+            flightId: flight.id,
+            bucketCode: bucket.code,
+            price: newPrice,
+            previousPrice: bucket.price,
+            planId: result.plan.planId,
+            cause: clipped.length > 0
+              ? `${pricingResult.decision} | Guardrail: ${clipped.join(', ')}`
+              : pricingResult.decision,
+            simulatedDate: session.currentDate
+          });
+        }
       }
-      
-      // Update session with recalculated revenue and load factor
-      let totalSeats = currentBuckets.reduce((sum, b) => sum + b.allocated, 0);
-      const soldSeats = currentBuckets.reduce((sum, b) => sum + (b.sold || 0), 0);
-      let loadFactor = totalSeats > 0 ? Math.round((soldSeats / totalSeats) * 100) : 0;
-      
-      await db.update(sessions)
-        .set({ 
-          totalRevenue: newTotalRevenue,
-          loadFactor: loadFactor
-        })
-        .where(eq(sessions.id, sessionId));
     }
 
     // Apply seat allocation changes if seat_allocation agent ran
     const seatResult = result.results.find(r => r.agentType === 'seat_allocation');
-    if (seatResult?.success) {
+    if (seatResult?.success && session.inventoryMode === 'nested') {
+      const output = seatResult.output as { protectionLevels?: ProtectionLevel[]; groupBookingAccommodated?: boolean };
+      const levels = output.protectionLevels ?? [];
+      if (levels.length > 0) {
+        await this.applyProtectionLevels(await this.getBuckets(sessionId, flight.id), levels);
+        await this.logReasoning(sessionId, "Seat Allocation Agent",
+          `Applied protection levels`,
+          `Protecting ${describeProtectionLevels(levels)}` +
+          (bookingContext ? ` | Group booking for ${bookingContext.requestedPassengers} passengers ${output.groupBookingAccommodated ? 'ACCOMMODATED' : 'pending'}` : ''),
+          { protectionLevels: levels },
+          flight.id
+        );
+      }
+    } else if (seatResult?.success) {
       const output = seatResult.output as { 
         action?: string; 
         suggestedChanges?: Array<{ bucketCode: string; change: number }>; 
@@ -664,20 +1102,21 @@ export class DatabaseStorage implements IStorage {
       
       if (output.suggestedChanges && output.suggestedChanges.length > 0) {
         // Get fresh bucket data
-        const updatedBuckets = await this.getBuckets(sessionId);
+        const updatedBuckets = await this.getBuckets(sessionId, flight.id);
         
         for (const change of output.suggestedChanges) {
           const bucket = updatedBuckets.find(b => b.code === change.bucketCode);
           if (bucket) {
             const newAllocation = bucket.allocated + change.change;
             // Ensure we don't reduce below sold seats
-            const minAllocation = bucket.sold || 0;
+            const minAllocation = (bucket.sold || 0) + (bucket.held || 0);
             const safeAllocation = Math.max(minAllocation, newAllocation);
             
+            // Skipped if a sale since the read has taken the bucket past the new allocation
             if (safeAllocation !== bucket.allocated) {
               await db.update(buckets)
                 .set({ allocated: safeAllocation })
-                .where(eq(buckets.id, bucket.id));
+                .where(and(eq(buckets.id, bucket.id), lte(sql`coalesce(${buckets.sold}, 0) + ${buckets.held}`, safeAllocation)));
             }
           }
         }
@@ -686,7 +1125,29 @@ export class DatabaseStorage implements IStorage {
         await this.logReasoning(sessionId, "Seat Allocation Agent", 
           `Applied reallocation: ${output.action || 'REALLOCATE'}`,
           `Changes: ${output.suggestedChanges.map(c => `${c.bucketCode}: ${c.change > 0 ? '+' : ''}${c.change}`).join(', ')}` +
-          (bookingContext ? ` | Group booking for ${bookingContext.requestedPassengers} passengers ${output.groupBookingAccommodated ? 'ACCOMMODATED' : 'pending'}` : '')
+          (bookingContext ? ` | Group booking for ${bookingContext.requestedPassengers} passengers ${output.groupBookingAccommodated ? 'ACCOMMODATED' : 'pending'}` : ''),
+          undefined,
+          flight.id
+        );
+      }
+    }
+
+    // Apply the authorized capacity: on the buckets seat allocation placed it, or on each
+    // cabin's priciest bucket when seat allocation didn't run
+    const overbookingResult = result.results.find(r => r.agentType === 'overbooking');
+    const cabins = (overbookingResult?.output as { authorizedCapacity?: CabinOverbooking[] } | undefined)?.authorizedCapacity ?? [];
+    if (overbookingResult?.success && cabins.length > 0) {
+      const freshBuckets = await this.getBuckets(sessionId, flight.id);
+      const placed = seatResult?.success ? (seatResult.output as { overbooking?: OverbookingAllowance[] }).overbooking : undefined;
+      const allowances = placed ?? placeOverbooking(freshBuckets, cabins, bookingContext?.targetBucketCode);
+      const changed = await this.applyOverbooking(freshBuckets, allowances);
+      if (changed.length > 0) {
+        await this.logReasoning(sessionId, "Overbooking Agent",
+          `Applied authorized capacity`,
+          `${cabins.map(c => `${c.cabin}: ${c.authorized} bookings for ${c.capacity} seats`).join(', ')} | ` +
+          `Allowances: ${changed.map(a => `${a.bucketCode} +${a.seats}`).join(', ')}`,
+          { authorizedCapacity: cabins, overbooking: allowances },
+          flight.id
         );
       }
     }
@@ -694,10 +1155,32 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Returns the allowances that differ from the buckets' current ones
+  private async applyOverbooking(flightBuckets: Bucket[], allowances: OverbookingAllowance[]): Promise<OverbookingAllowance[]> {
+    const changed: OverbookingAllowance[] = [];
+    for (const allowance of allowances) {
+      const bucket = flightBuckets.find(b => b.code === allowance.bucketCode);
+      if (bucket && (bucket.overbooking || 0) !== allowance.seats) {
+        await db.update(buckets).set({ overbooking: allowance.seats }).where(eq(buckets.id, bucket.id));
+        changed.push(allowance);
+      }
+    }
+    return changed;
+  }
+
+  private async applyProtectionLevels(flightBuckets: Bucket[], levels: ProtectionLevel[]): Promise<void> {
+    for (const level of levels) {
+      const bucket = flightBuckets.find(b => b.code === level.bucketCode);
+      if (bucket && bucket.protectionLevel !== level.protectionLevel) {
+        await db.update(buckets).set({ protectionLevel: level.protectionLevel }).where(eq(buckets.id, bucket.id));
+      }
+    }
+  }
+
   async processChatMessage(sessionId: number, message: string): Promise<string> {
     await db.insert(chatMessages).values({ sessionId, role: "user", content: message });
     
-    const session = await this.getCurrentSession();
+    const session = await this.getSession(sessionId);
     if (!session) {
       const errorMsg = "No active session. Please load a scenario first.";
       await db.insert(chatMessages).values({ sessionId, role: "assistant", content: errorMsg });
@@ -748,53 +1231,111 @@ export class DatabaseStorage implements IStorage {
     }
     
     // Get updated buckets after orchestration (with potentially reallocated seats)
+    const sessionFlights = await this.getFlights(sessionId);
     const currentBuckets = await this.getBuckets(sessionId);
+    const flightSeats = new Map<number, Seat[]>();
+    for (const flight of sessionFlights) {
+      flightSeats.set(flight.id, await this.getSeats(sessionId, flight.id));
+    }
     
     // Get conversation history for context
     const history = await this.getChatHistory(sessionId);
     const recentHistory = history.slice(-6).map(m => `${m.role}: ${m.content}`).join('\n');
     
-    // Build bucket info with availability
-    const bucketInfo = currentBuckets.map(b => ({
-      code: b.code,
-      class: b.class,
-      price: b.price,
-      available: b.allocated - (b.sold || 0),
-      id: b.id
+    // Bookings the user has referred to, for cancellation requests
+    const referenceCodes = Array.from(new Set(`${recentHistory}\n${message}`.toUpperCase().match(/IND-[A-Z0-9]{6}/g) ?? []));
+    const referencedBookings = await Promise.all(referenceCodes.map(async code => {
+      const booking = await this.getBooking(code);
+      if (!booking || booking.sessionId !== sessionId) return `${code}: not found`;
+      const bucket = currentBuckets.find(b => b.id === booking.bucketId);
+      const flight = sessionFlights.find(f => f.id === bucket?.flightId);
+      if (!bucket || !flight) return `${code}: not found`;
+      const share = refundShare(flight.aircraft, bucket.code);
+      return `${code}: ${booking.status}, ${flight.flightNumber} ${flight.origin} → ${flight.destination}, ${booking.passengerCount} passenger(s) in ${bucket.code}, ` +
+        `paid ₹${(booking.totalFare + booking.seatFees).toLocaleString()}` +
+        (booking.status === "CONFIRMED" ? `, ${describeRefundShare(share)}: refund if cancelled now ₹${computeRefund(booking, share).total.toLocaleString()}` : '');
     }));
     
-    // Calculate total availability
-    const totalAvailable = bucketInfo.reduce((sum, b) => sum + b.available, 0);
+    // Quotes given earlier in the conversation, so a confirmation books the quoted fare
+    const quoteIds = Array.from(new Set(`${recentHistory}\n${message}`.toUpperCase().match(/Q-[A-Z0-9]{8}/g) ?? []));
+    const referencedQuotes = await Promise.all(quoteIds.map(async id => {
+      const quote = await this.getQuote(id);
+      if (!quote || quote.sessionId !== sessionId) return `${id}: not found`;
+      const bucket = currentBuckets.find(b => b.id === quote.bucketId);
+      const flight = sessionFlights.find(f => f.id === quote.flightId);
+      const status = quote.status === "HELD" && quote.expiresAt < new Date() ? "EXPIRED" : quote.status;
+      return `${id}: ${status}, ${flight?.flightNumber} ${bucket?.code}, ${quote.quantity} passenger(s) at ₹${quote.pricePerSeat.toLocaleString()} per seat` +
+        (quote.seatNumbers.length > 0 ? `, seats ${quote.seatNumbers.join(', ')}` : '') +
+        (status === "HELD" ? `, held until ${quote.expiresAt.toISOString()}` : '');
+    }));
     
-    // Find the best bucket for the requested group size
-    const economyBuckets = bucketInfo.filter(b => b.class === 'ECONOMY').sort((a, b) => (b.available - a.available));
-    const businessBuckets = bucketInfo.filter(b => b.class === 'BUSINESS').sort((a, b) => (b.available - a.available));
-    const bestEconomyBucket = economyBuckets[0];
-    const bestBusinessBucket = businessBuckets[0];
+    // Per flight: bucket availability and the best buckets for group bookings
+    const flightInfo = sessionFlights.map(flight => {
+      const route = getRoute(flight.routeCode);
+      const flightBuckets = currentBuckets.filter(b => b.flightId === flight.id);
+      const available = availableSeats(flightBuckets, session.inventoryMode);
+      const bucketInfo = flightBuckets.map(b => ({
+        code: b.code,
+        class: b.class,
+        price: b.price,
+        available: available[b.code],
+        id: b.id
+      }));
+      const byAvailability = (cabin: string) => bucketInfo.filter(b => b.class === cabin).sort((x, y) => y.available - x.available)[0];
+      return {
+        flight,
+        freeSeats: flightSeats.get(flight.id)?.filter(seat => seat.status === "AVAILABLE") ?? [],
+        label: `${flight.flightNumber} ${flight.origin} → ${flight.destination}` +
+          (route ? ` (${route.originCity} to ${route.destinationCity})` : ''),
+        bucketInfo,
+        totalAvailable: bucketInfo.reduce((sum, b) => sum + b.available, 0),
+        bestEconomy: byAvailability('ECONOMY'),
+        bestBusiness: byAvailability('BUSINESS'),
+      };
+    });
+    const defaultFlight = flightInfo[0];
     
     // Enhanced Booking Agent prompt with structured flow
     const prompt = `
-      You are an Airline Booking Assistant for Indigo flight BLR-DXB (Bangalore to Dubai).
+      You are an Airline Booking Assistant for Indigo. You can book any of these flights:
+      ${flightInfo.map(f => f.label).join(', ')}.
       
-      FLIGHT DETAILS:
-      - Route: BLR → DXB (Bangalore to Dubai)
+      ${flightInfo.map(f => `FLIGHT ${f.label}:
       - Airline: Indigo
-      - Departure: ${session.departureDate ? new Date(session.departureDate).toLocaleDateString() : 'TBD'}
-      - Total seats available: ${totalAvailable}
+      - Aircraft: ${f.flight.aircraft}
+      - Departure: ${f.flight.departureDate.toLocaleString()}
+      - Total seats available: ${f.totalAvailable}
       
-      AVAILABLE SEATS & PRICING (Dynamic Pricing - prices may change based on demand):
-      ${bucketInfo.map(b => `${b.code} (${b.class}): ₹${b.price?.toLocaleString()} per seat - ${b.available} seats available`).join('\n')}
+      AVAILABLE SEATS & CURRENT FARES (indicative only - fares change with demand, and only a quote fixes a price):
+      ${f.bucketInfo.map(b => `${b.code} (${b.class}): ₹${b.price?.toLocaleString()} per seat - ${b.available} seats available - ${describeRefundShare(refundShare(f.flight.aircraft, b.code))}`).join('\n')}
       
       BEST OPTIONS FOR GROUP BOOKINGS:
-      - Economy: ${bestEconomyBucket?.code} has ${bestEconomyBucket?.available} seats at ₹${bestEconomyBucket?.price?.toLocaleString()}/seat
-      - Business: ${bestBusinessBucket?.code} has ${bestBusinessBucket?.available} seats at ₹${bestBusinessBucket?.price?.toLocaleString()}/seat
+      - Economy: ${f.bestEconomy?.code} has ${f.bestEconomy?.available} seats
+      - Business: ${f.bestBusiness?.code} has ${f.bestBusiness?.available} seats
+      
+      FREE SEATS BY ROW:
+      ${['BUSINESS', 'ECONOMY'].map(cabin => `${cabin}: ${describeFreeSeats(f.freeSeats.filter(seat => seat.cabin === cabin))}`).join('\n      ')}`).join('\n\n      ')}
+      
+      SEAT SELECTION (optional, per seat):
+      - Economy: extra legroom and exit rows ₹${SEAT_FEES.extra_legroom.toLocaleString()}, window ₹${SEAT_FEES.window.toLocaleString()}, aisle ₹${SEAT_FEES.aisle.toLocaleString()}, middle free
+      - Business: seat selection included in the fare
+      - Passengers who skip seat selection get free seats assigned automatically, together where possible
+      
+      CANCELLATIONS & REFUNDS:
+      - Each fare class refunds the share of its fare shown above; seat fees are refunded only with fully refundable fares
+      - Bookings can be cancelled until the flight departs
+      BOOKINGS MENTIONED IN THIS CONVERSATION:
+      ${referencedBookings.join('\n      ') || 'none'}
       
       PRICING NOTES:
-      - All prices shown are per passenger
-      - For group bookings (2+ passengers), show total fare calculation
+      - All prices shown are per passenger and indicative: the price a user pays is the one in their quote
+      - Never promise a fare or total yourself; quote it with QUOTE_FARE so the system holds it
       - Prices are dynamic and may increase after each booking due to demand
       - For large groups, recommend the bucket with highest availability
       
+      QUOTES IN THIS CONVERSATION:
+      ${referencedQuotes.join('\n      ') || 'none'}
+      
       CONVERSATION HISTORY:
       ${recentHistory}
       
@@ -802,23 +1343,35 @@ export class DatabaseStorage implements IStorage {
       
       INSTRUCTIONS:
       1. If user wants to BOOK a flight, guide them through:
+         - Ask which flight if more than one is listed and the user hasn't said
          - Ask for class preference (Economy or Business) if not specified
          - For large groups (5+), recommend the bucket with most available seats
-         - For multiple passengers, clearly show: "₹X per seat × Y passengers = ₹Z total"
          - If requested passengers exceed any single bucket's availability, inform them of maximum available
-         - Show price summary and ask for confirmation
-         - If user CONFIRMS (says yes, confirm, book it, proceed, etc.), respond with EXACTLY this JSON format:
-           {"action": "COMPLETE_BOOKING", "bucketCode": "${bestEconomyBucket?.code || 'ECO_1'}", "passengers": 15, "passengerName": "Guest"}
-           Use the bucket code that has enough seats for their group!
+         - Offer seat selection: if the user wants window, aisle or extra legroom seats, suggest free seats from the list above with their fee
+         - Once flight, class, passengers and seats are settled, quote the fare with EXACTLY this JSON format:
+           {"action": "QUOTE_FARE", "flightNumber": "${defaultFlight?.flight.flightNumber}", "bucketCode": "${defaultFlight?.bestEconomy?.code || 'ECO_1'}", "passengers": 15, "seats": []}
+           Use the flight the user chose and a bucket code on that flight with enough seats for their group!
+           "seats" lists the chosen seat numbers (e.g. ["12A", "12B"]), one per passenger in the bucket's cabin, or [] for automatic assignment.
+           The quote holds the seats at that price for ${QUOTE_TTL_MS / 60000} minutes and the user is asked to confirm.
+         - If user CONFIRMS a HELD quote from QUOTES IN THIS CONVERSATION (says yes, confirm, book it, proceed, etc.), respond with EXACTLY this JSON format:
+           {"action": "COMPLETE_BOOKING", "quoteId": "Q-ABCD2345", "passengerName": "Guest"}
+         - If the quote has EXPIRED, or the user confirms without a HELD quote, quote the fare with QUOTE_FARE instead; never book without a quote
       
-      2. If user is asking questions about pricing, availability, or flight details, answer helpfully.
+      2. If user wants to CANCEL a booking:
+         - Ask for the booking reference (e.g. IND-ABC123) if not given
+         - Show the refund from BOOKINGS MENTIONED IN THIS CONVERSATION and ask for confirmation
+         - If user CONFIRMS, respond with EXACTLY this JSON format:
+           {"action": "CANCEL_BOOKING", "referenceCode": "IND-ABC123"}
+      
+      3. If user is asking questions about pricing, availability, or flight details, answer helpfully.
          - Explain that prices are dynamic and may change based on demand
-         - For group inquiries, always calculate and show total fare
+         - For group inquiries, give an indicative total and offer to quote it
       
-      3. Be concise, friendly, and professional. Use ₹ for prices. Format prices with commas (e.g., ₹14,400).
+      4. Be concise, friendly, and professional. Use ₹ for prices. Format prices with commas (e.g., ₹14,400).
       
-      4. IMPORTANT: When user confirms a booking, you MUST respond with the JSON action format above.
+      5. IMPORTANT: When user confirms a booking, you MUST respond with the JSON action format above.
          Look for confirmation words like: yes, confirm, book, proceed, go ahead, do it, okay, sure
+         Never quote prices for a confirmation yourself: the quote's price is the one that is booked.
          The "passengers" field MUST match the number of tickets the user requested.
          Choose the bucketCode that has enough availability for the group size!
       
@@ -828,116 +1381,128 @@ export class DatabaseStorage implements IStorage {
     let responseText = "I'm having trouble connecting to the reservation system. Please try again.";
     try {
       logger.debug('Storage', 'Starting chat AI generation');
-      const stream = await ai.models.generateContentStream({ model, contents: [{ role: "user", parts: [{ text: prompt }] }] });
       let text = "";
-      for await (const chunk of stream) {
-        text += chunk.text || "";
+      for await (const chunk of getLlmProvider().stream({ purpose: 'booking_chat', input: prompt })) {
+        text += chunk;
       }
       responseText = text;
       logger.debug('Storage', `Chat AI response generated: ${responseText.length} chars`);
       
-      // Check if response contains booking action
+      // Check if response contains a cancellation or booking action
+      const cancelMatch = responseText.match(/\{"action"\s*:\s*"CANCEL_BOOKING"[^}]+\}/);
+      if (cancelMatch) {
+        try {
+          const action = JSON.parse(cancelMatch[0]);
+          responseText = await this.completeChatCancellation(sessionId, String(action.referenceCode || ''));
+        } catch (e) {
+          logger.error('Storage', 'Cancellation action parse error', e);
+        }
+      }
+      
+      const quoteMatch = responseText.match(/\{"action"\s*:\s*"QUOTE_FARE"[^}]+\}/);
+      if (quoteMatch) {
+        try {
+          const action = JSON.parse(quoteMatch[0]);
+          responseText = await this.quoteInChat(session, sessionFlights, action);
+        } catch (e) {
+          logger.error('Storage', 'Quote action parse error', e);
+        }
+      }
+      
       const actionMatch = responseText.match(/\{"action"\s*:\s*"COMPLETE_BOOKING"[^}]+\}/);
       if (actionMatch) {
         try {
           const action = JSON.parse(actionMatch[0]);
-          if (action.action === "COMPLETE_BOOKING") {
-            // Find the bucket
-            const bucket = currentBuckets.find(b => b.code === action.bucketCode);
-            if (bucket) {
-              const passengers = action.passengers || 1;
-              const available = bucket.allocated - (bucket.sold || 0);
-              
-              if (available >= passengers) {
-                // Complete the booking
-                const referenceCode = generateBookingReference();
-                const pricePerSeat = bucket.price || 0;
-                const basePrice = bucket.basePrice || pricePerSeat;
-                const totalFare = pricePerSeat * passengers;
-                const priceChange = ((pricePerSeat - basePrice) / basePrice) * 100;
-                
-                // Get most recent pricing reasoning for this bucket
-                const recentLogs = await db.select()
-                  .from(reasoningLogs)
-                  .where(eq(reasoningLogs.sessionId, sessionId))
-                  .orderBy(desc(reasoningLogs.timestamp))
-                  .limit(10);
-                
-                const pricingLog = recentLogs.find(log => 
-                  log.agentName === "Pricing Agent" && 
-                  log.decision?.includes(bucket.code)
-                );
-                
-                // Extract pricing factors from metadata if available
-                let pricingReasoning = "Dynamic pricing applied based on current market conditions.";
-                if (pricingLog?.metadata) {
-                  const meta = pricingLog.metadata as Record<string, unknown>;
-                  if (meta.multipliers) {
-                    const multipliers = meta.multipliers as Record<string, number>;
-                    const factors = Object.entries(multipliers)
-                      .filter(([_, v]) => v !== 1.0)
-                      .map(([k, v]) => `${k}: ${v > 1 ? '+' : ''}${((v - 1) * 100).toFixed(0)}%`)
-                      .join(', ');
-                    if (factors) {
-                      pricingReasoning = `Price adjusted for: ${factors}`;
-                    }
-                  }
-                }
-                
-                // Insert booking record
-                await db.insert(bookings).values({
-                  sessionId,
-                  bucketId: bucket.id,
-                  referenceCode,
-                  passengerCount: passengers,
-                  pricePerSeat,
-                  totalFare,
-                  passengerName: action.passengerName || "Guest",
-                  status: "CONFIRMED"
-                });
-                
-                // Update bucket sold count
-                await db.update(buckets)
-                  .set({ sold: (bucket.sold || 0) + passengers })
-                  .where(eq(buckets.id, bucket.id));
-                
-                // Update session revenue
-                await db.update(sessions)
-                  .set({ totalRevenue: (session.totalRevenue || 0) + totalFare })
-                  .where(eq(sessions.id, sessionId));
-                
-                // Log to agent reasoning with detailed breakdown
-                const logReasoning = `
-Booking completed successfully.
+          if (action.quoteId) {
+            responseText = await this.completeChatBooking(sessionId, String(action.quoteId), action.passengerName);
+          } else if (action.bucketCode) {
+            // Nothing is booked without a quote: a confirmation without one gets a quote to confirm
+            responseText = await this.quoteInChat(session, sessionFlights, action);
+          } else {
+            responseText = "I need a fare quote before I can book. Which flight, class and how many passengers?";
+          }
+        } catch (e) {
+          console.error("Booking action parse error:", e);
+        }
+      }
+    } catch (e) {
+      console.error("Chat Error", e);
+    }
 
-**Passenger Details:**
-- Passengers: ${passengers}
-- Class: ${bucket.class} (${bucket.code})
+    await db.insert(chatMessages).values({ sessionId, role: "assistant", content: responseText });
+    return responseText;
+  }
 
-**Fare Breakdown:**
-- Base fare: ₹${basePrice.toLocaleString()} per seat
-- Dynamic price: ₹${pricePerSeat.toLocaleString()} per seat (${priceChange >= 0 ? '+' : ''}${priceChange.toFixed(1)}%)
-- Subtotal: ₹${pricePerSeat.toLocaleString()} × ${passengers} = ₹${totalFare.toLocaleString()}
+  // Hold the fare the assistant quoted in chat, and the reply asking the user to confirm it
+  private async quoteInChat(session: Session, sessionFlights: Flight[], action: Record<string, unknown>): Promise<string> {
+    const flight = sessionFlights.find(f => f.flightNumber === action.flightNumber) ?? sessionFlights[0];
+    const flightBuckets = flight ? await this.getBuckets(session.id, flight.id) : [];
+    const bucket = flightBuckets.find(b => b.code === action.bucketCode);
+    if (!flight || !bucket) {
+      return `Sorry, I couldn't find fare class ${action.bucketCode} on ${action.flightNumber || 'that flight'}. Please choose another.`;
+    }
+    if ((await this.getFlightEnvironment(session, flight))?.daysToDeparture === 0) {
+      return `Sorry, ${flight.flightNumber} has departed. Please choose another flight.`;
+    }
 
-**Pricing Reasoning:**
-${pricingReasoning}
+    const passengers = Number(action.passengers) || 1;
+    const requestedSeats: string[] | undefined = Array.isArray(action.seats) && action.seats.length > 0 ? action.seats.map(String) : undefined;
+    const available = availableSeats(flightBuckets, session.inventoryMode)[bucket.code];
+    if (available < passengers) {
+      return `Sorry, only ${available} seat(s) available in ${bucket.code}. Please choose fewer passengers or a different fare class.`;
+    }
 
-**Reference:** ${referenceCode}
-                `.trim();
-                
-                await this.logReasoning(sessionId, "Booking Agent", 
-                  `Booking Confirmed: ${referenceCode}`,
-                  logReasoning
-                );
-                
-                // Generate formatted confirmation message
-                const priceIndicator = priceChange > 0 
-                  ? `(+${priceChange.toFixed(0)}% from base)` 
-                  : priceChange < 0 
-                    ? `(${priceChange.toFixed(0)}% from base)` 
-                    : '(base rate)';
-                
-                responseText = `
+    const quote = await this.createQuote(session.id, flight.id, bucket.code, passengers, requestedSeats);
+    if (!quote) {
+      return requestedSeats
+        ? `Sorry, seat${requestedSeats.length > 1 ? 's' : ''} ${requestedSeats.join(', ')} can't be assigned for ${passengers} passenger(s) in ${bucket.class}. They may be taken or in another cabin; please choose again or skip seat selection.`
+        : `Sorry, there aren't ${passengers} seats left in ${bucket.code} on ${flight.flightNumber}.`;
+    }
+
+    const expires = quote.expiresAt.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+    return `
+**Fare Quote ${quote.id}**
+
+${flight.origin} → ${flight.destination} • Indigo ${flight.flightNumber}
+**Class:** ${bucket.class} (${bucket.code})
+**Seats:** ${quote.seatNumbers.join(', ') || 'assigned on booking'}
+
+₹${quote.pricePerSeat.toLocaleString()} per seat${passengers > 1 ? ` × ${passengers} passengers = ₹${(quote.pricePerSeat * passengers).toLocaleString()}` : ''}
+${quote.seatFees > 0 ? `Seat selection: ₹${quote.seatFees.toLocaleString()}\n` : ''}
+**Total: ₹${(quote.pricePerSeat * passengers + quote.seatFees).toLocaleString()}**
+
+This fare and your seats are held until ${expires} (${QUOTE_TTL_MS / 60000} minutes). Shall I confirm the booking?
+    `.trim();
+  }
+
+  // Book a quote confirmed in chat, and the reply describing the booking
+  private async completeChatBooking(sessionId: number, quoteId: string, passengerName?: string): Promise<string> {
+    const quote = await this.getQuote(quoteId);
+    if (!quote || quote.sessionId !== sessionId) {
+      return `Sorry, I couldn't find quote ${quoteId}. Let me quote the fare again.`;
+    }
+    if (quote.status === "CONFIRMED") {
+      return `Quote ${quote.id} has already been booked.`;
+    }
+
+    const assignment = await this.confirmQuote(quote.id, passengerName);
+    if (!assignment) {
+      return `Sorry, quote ${quote.id} has expired and its seats were released. Ask me for a new quote at the current fare.`;
+    }
+    const { flight, bucket, booking } = assignment;
+    const { referenceCode, pricePerSeat, totalFare, passengerCount: passengers } = booking;
+    const basePrice = bucket.basePrice || pricePerSeat;
+    const priceChange = ((pricePerSeat - basePrice) / basePrice) * 100;
+    const pricingReasoning = await this.explainPrice(sessionId, flight.id, bucket.code);
+    
+    // Generate formatted confirmation message
+    const priceIndicator = priceChange > 0 
+      ? `(+${priceChange.toFixed(0)}% from base)` 
+      : priceChange < 0 
+        ? `(${priceChange.toFixed(0)}% from base)` 
+        : '(base rate)';
+    
+    return `
 **Booking Confirmed**
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -945,20 +1510,21 @@ ${pricingReasoning}
 **Reference:** ${referenceCode}
 
 **Flight**
-BLR → DXB • Indigo
-${session.departureDate ? new Date(session.departureDate).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' }) : 'Date TBD'}
+${flight.origin} → ${flight.destination} • Indigo ${flight.flightNumber}
+${flight.departureDate.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
 
 **Passengers:** ${passengers}
 **Class:** ${bucket.class}
+**Seats:** ${describeSeating(assignment)}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 **Fare Summary**
 
 Base fare: ₹${basePrice.toLocaleString()}
-Dynamic rate: ₹${pricePerSeat.toLocaleString()} ${priceIndicator}
-${passengers > 1 ? `× ${passengers} passengers\n` : ''}
-**Total: ₹${totalFare.toLocaleString()}**
+Quoted rate: ₹${pricePerSeat.toLocaleString()} ${priceIndicator}
+${passengers > 1 ? `× ${passengers} passengers\n` : ''}${assignment.seatFees > 0 ? `Seat selection: ₹${assignment.seatFees.toLocaleString()}\n` : ''}
+**Total: ₹${(totalFare + assignment.seatFees).toLocaleString()}**
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -968,22 +1534,48 @@ ${pricingReasoning}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 Your booking is confirmed. Have a great flight!
-                `.trim();
-              } else {
-                responseText = `Sorry, only ${available} seat(s) available in ${bucket.code}. Please choose fewer passengers or a different fare class.`;
-              }
-            }
-          }
-        } catch (e) {
-          console.error("Booking action parse error:", e);
-        }
-      }
-    } catch (e) {
-      console.error("Chat Error", e);
+    `.trim();
+  }
+
+  // Cancel a booking confirmed in chat, and the reply describing the outcome
+  private async completeChatCancellation(sessionId: number, referenceCode: string): Promise<string> {
+    const booking = await this.getBooking(referenceCode);
+    if (!booking || booking.sessionId !== sessionId) {
+      return `Sorry, I couldn't find booking ${referenceCode || 'with that reference'}. Please check the reference and try again.`;
+    }
+    if (booking.status !== "CONFIRMED") {
+      return `Booking ${booking.referenceCode} is ${booking.status === "CANCELLED" ? 'already cancelled' : 'closed (no-show)'} and can't be cancelled.`;
     }
 
-    await db.insert(chatMessages).values({ sessionId, role: "assistant", content: responseText });
-    return responseText;
+    const cancellation = await this.cancelBooking(booking.referenceCode);
+    if (!cancellation) {
+      return `Sorry, booking ${booking.referenceCode} can no longer be cancelled because the flight has departed.`;
+    }
+    const { flight, refund, releasedSeats } = cancellation;
+    // Repriced like a cancellation through the API, without holding up the reply
+    void this.repriceAfterChange(sessionId, flight.id);
+
+    return `
+**Booking Cancelled**
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+**Reference:** ${booking.referenceCode}
+
+**Flight**
+${flight.origin} → ${flight.destination} • Indigo ${flight.flightNumber}
+
+**Passengers:** ${booking.passengerCount}
+**Seats released:** ${releasedSeats.join(', ') || 'none'}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+**Refund**
+
+Fare: ₹${refund.fare.toLocaleString()} of ₹${booking.totalFare.toLocaleString()}
+${booking.seatFees > 0 ? `Seat selection: ₹${refund.seatFees.toLocaleString()} of ₹${booking.seatFees.toLocaleString()}\n` : ''}
+**Total refund: ₹${refund.total.toLocaleString()}**
+    `.trim();
   }
 }
 
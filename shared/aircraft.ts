@@ -0,0 +1,196 @@
+// === AIRCRAFT CONFIGURATIONS ===
+// Cabin layouts and default fare ladders per aircraft type. Used to create a flight's buckets
+// and seat inventory, and to size its seat map and load factor.
+
+export type CabinClass = 'BUSINESS' | 'ECONOMY';
+
+export interface FareLadderStep {
+  code: string;      // Bucket code, e.g. ECO_1
+  share: number;     // Share of the cabin's seats allocated to this bucket
+  basePrice: number; // Base fare on the reference route (BLR-DXB), in rupees
+  refundShare: number; // Share of the fare refunded on cancellation; fully refundable fares also refund seat fees
+}
+
+export interface CabinConfig {
+  class: CabinClass;
+  rows: number;
+  layout: number[];  // Seats per block across the aisles, e.g. [3, 3] or [1, 2, 1]
+  letters: string;   // Seat letters left to right, one per seat in a row
+  exitRows?: number[]; // Overwing exit row numbers (rows are numbered from 1 across the aircraft)
+  fareLadder: FareLadderStep[]; // Cheapest first
+}
+
+export interface AircraftConfig {
+  code: string;
+  name: string;
+  cabins: CabinConfig[]; // Front of the aircraft first
+}
+
+const BUSINESS_LADDER: FareLadderStep[] = [
+  { code: "BUS_1", share: 0.5, basePrice: 28000, refundShare: 0.75 },
+  { code: "BUS_2", share: 0.5, basePrice: 32000, refundShare: 1 },
+];
+
+const ECONOMY_LADDER: FareLadderStep[] = [
+  { code: "ECO_1", share: 0.25, basePrice: 12000, refundShare: 0 },
+  { code: "ECO_2", share: 0.25, basePrice: 14000, refundShare: 0.25 },
+  { code: "ECO_3", share: 0.25, basePrice: 16000, refundShare: 0.5 },
+  { code: "ECO_4", share: 0.25, basePrice: 18000, refundShare: 1 },
+];
+
+export const DEFAULT_AIRCRAFT_CODE = "A321neo";
+
+export const AIRCRAFT: AircraftConfig[] = [
+  {
+    code: "A321neo",
+    name: "Airbus A321 Neo",
+    cabins: [
+      { class: 'BUSINESS', rows: 6, layout: [2, 2], letters: "ACDF", fareLadder: BUSINESS_LADDER },
+      { class: 'ECONOMY', rows: 28, layout: [3, 3], letters: "ABCDEF", exitRows: [12, 13], fareLadder: ECONOMY_LADDER },
+    ],
+  },
+  {
+    code: "A320",
+    name: "Airbus A320",
+    cabins: [
+      { class: 'BUSINESS', rows: 2, layout: [2, 2], letters: "ACDF", fareLadder: BUSINESS_LADDER },
+      { class: 'ECONOMY', rows: 28, layout: [3, 3], letters: "ABCDEF", exitRows: [12, 13], fareLadder: ECONOMY_LADDER },
+    ],
+  },
+  {
+    code: "737MAX8",
+    name: "Boeing 737 MAX 8",
+    cabins: [
+      { class: 'BUSINESS', rows: 3, layout: [2, 2], letters: "ACDF", fareLadder: BUSINESS_LADDER },
+      { class: 'ECONOMY', rows: 27, layout: [3, 3], letters: "ABCDEF", exitRows: [14, 15], fareLadder: ECONOMY_LADDER },
+    ],
+  },
+  {
+    code: "A330neo",
+    name: "Airbus A330-900neo (widebody)",
+    cabins: [
+      { class: 'BUSINESS', rows: 7, layout: [1, 2, 1], letters: "ADGK", fareLadder: BUSINESS_LADDER },
+      {
+        class: 'ECONOMY',
+        rows: 32,
+        layout: [3, 3, 3],
+        letters: "ABCDEFGHK",
+        exitRows: [8, 24],
+        // Larger cabin: a deeper discount tier and more seats at the top of the ladder
+        fareLadder: [
+          { code: "ECO_1", share: 0.2, basePrice: 11000, refundShare: 0 },
+          { code: "ECO_2", share: 0.25, basePrice: 13000, refundShare: 0.25 },
+          { code: "ECO_3", share: 0.25, basePrice: 15000, refundShare: 0.5 },
+          { code: "ECO_4", share: 0.2, basePrice: 17000, refundShare: 0.75 },
+          { code: "ECO_5", share: 0.1, basePrice: 19500, refundShare: 1 },
+        ],
+      },
+    ],
+  },
+];
+
+export function getAircraft(code: string): AircraftConfig | undefined {
+  return AIRCRAFT.find(a => a.code === code);
+}
+
+export function seatsPerRow(cabin: CabinConfig): number {
+  return cabin.layout.reduce((sum, n) => sum + n, 0);
+}
+
+export function cabinSeats(cabin: CabinConfig): number {
+  return cabin.rows * seatsPerRow(cabin);
+}
+
+export function totalSeats(aircraft: AircraftConfig): number {
+  return aircraft.cabins.reduce((sum, cabin) => sum + cabinSeats(cabin), 0);
+}
+
+// Refund share of a bucket's fare on an aircraft; unknown buckets are non-refundable
+export function refundShare(aircraftCode: string, bucketCode: string): number {
+  const step = getAircraft(aircraftCode)?.cabins.flatMap(c => c.fareLadder).find(s => s.code === bucketCode);
+  return step?.refundShare ?? 0;
+}
+
+// e.g. "non-refundable", "50% refundable", "fully refundable"
+export function describeRefundShare(share: number): string {
+  if (share <= 0) return "non-refundable";
+  if (share >= 1) return "fully refundable";
+  return `${Math.round(share * 100)}% refundable`;
+}
+
+// Bucket definitions for a new flight, economy first and cheapest first within a cabin.
+// Seats are split by ladder share; the last bucket of a cabin takes the rounding remainder.
+export function initialBuckets(aircraft: AircraftConfig, fareScale = 1): { code: string; class: CabinClass; allocated: number; basePrice: number }[] {
+  const cabins = [...aircraft.cabins].sort((a, b) => (a.class === 'ECONOMY' ? 0 : 1) - (b.class === 'ECONOMY' ? 0 : 1));
+  return cabins.flatMap(cabin => {
+    const seats = cabinSeats(cabin);
+    let remaining = seats;
+    return cabin.fareLadder.map((step, i) => {
+      const allocated = i === cabin.fareLadder.length - 1 ? remaining : Math.round(seats * step.share);
+      remaining -= allocated;
+      return { code: step.code, class: cabin.class, allocated, basePrice: Math.round(step.basePrice * fareScale) };
+    });
+  });
+}
+
+// === SEAT LAYOUT ===
+
+export type SeatFeature = 'window' | 'aisle' | 'middle' | 'exit' | 'extra_legroom';
+
+export interface SeatDef {
+  row: number;
+  letter: string;
+  cabin: CabinClass;
+  features: SeatFeature[];
+  fee: number; // Ancillary charge for choosing this seat, in rupees
+}
+
+// Seat selection fees for economy; a seat is charged its most expensive feature.
+// Business seats are included in the fare.
+export const SEAT_FEES: Record<SeatFeature, number> = {
+  extra_legroom: 1500,
+  exit: 1500,
+  window: 400,
+  aisle: 350,
+  middle: 0,
+};
+
+export function seatNumber(seat: { row: number; letter: string }): string {
+  return `${seat.row}${seat.letter}`;
+}
+
+export function seatFee(cabin: CabinClass, features: SeatFeature[]): number {
+  if (cabin === 'BUSINESS') return 0;
+  return features.reduce((fee, feature) => Math.max(fee, SEAT_FEES[feature]), 0);
+}
+
+// Every seat on the aircraft, front to back and left to right. Rows are numbered from 1
+// across cabins; the first row of each cabin (bulkhead) and exit rows have extra legroom.
+export function seatLayout(aircraft: AircraftConfig): SeatDef[] {
+  const seats: SeatDef[] = [];
+  let row = 1;
+  for (const cabin of aircraft.cabins) {
+    const perRow = seatsPerRow(cabin);
+    // Positions next to an aisle: the last seat of each block and the first of the next
+    const aisle = new Set<number>();
+    let position = 0;
+    cabin.layout.slice(0, -1).forEach(block => {
+      position += block;
+      aisle.add(position - 1);
+      aisle.add(position);
+    });
+
+    for (let i = 0; i < cabin.rows; i++, row++) {
+      for (let p = 0; p < perRow; p++) {
+        const features: SeatFeature[] = [];
+        if (p === 0 || p === perRow - 1) features.push('window');
+        else if (aisle.has(p)) features.push('aisle');
+        else features.push('middle');
+        if (cabin.exitRows?.includes(row)) features.push('exit', 'extra_legroom');
+        else if (i === 0) features.push('extra_legroom');
+        seats.push({ row, letter: cabin.letters[p], cabin: cabin.class, features, fee: seatFee(cabin.class, features) });
+      }
+    }
+  }
+  return seats;
+}
@@ -0,0 +1,40 @@
+import type { Bucket, InventoryMode } from "./schema";
+
+// === FARE-CLASS INVENTORY ===
+// Partitioned: each bucket sells only its own allocation.
+// Nested: a cabin's unsold seats are shared down its fare ladder. A bucket's protection level
+// holds seats back for it and every pricier bucket in the cabin, so the next cheaper bucket
+// can only sell what is left beyond it. The priciest bucket can always sell any unsold seat.
+// In both modes a bucket's overbooking allowance adds to what it (or its cabin) can sell,
+// and seats held by open fare quotes count as taken.
+
+const taken = (b: Bucket) => (b.sold || 0) + (b.held || 0);
+
+// A cabin's buckets in nesting order, priciest first
+export function nestingOrder(buckets: Bucket[], cabin: string): Bucket[] {
+  return buckets
+    .filter(b => b.class === cabin)
+    .sort((a, b) => b.basePrice - a.basePrice || b.code.localeCompare(a.code, undefined, { numeric: true }));
+}
+
+// Seats each bucket can sell right now, by bucket code
+export function availableSeats(buckets: Bucket[], mode: InventoryMode | string): Record<string, number> {
+  const available: Record<string, number> = {};
+  if (mode !== 'nested') {
+    for (const b of buckets) available[b.code] = Math.max(0, b.allocated + (b.overbooking || 0) - taken(b));
+    return available;
+  }
+
+  for (const cabin of Array.from(new Set(buckets.map(b => b.class)))) {
+    const ladder = nestingOrder(buckets, cabin);
+    const capacity = ladder.reduce((sum, b) => sum + b.allocated + (b.overbooking || 0), 0);
+    const remaining = Math.max(0, capacity - ladder.reduce((sum, b) => sum + taken(b), 0));
+    let limit = remaining;
+    ladder.forEach((bucket, i) => {
+      // Protection of the buckets above; never more available than a pricier bucket
+      if (i > 0) limit = Math.min(limit, Math.max(0, remaining - (ladder[i - 1].protectionLevel ?? 0)));
+      available[bucket.code] = limit;
+    });
+  }
+  return available;
+}
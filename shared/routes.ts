@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertSessionSchema, sessions, buckets, reasoningLogs, chatMessages } from './schema';
+import { insertSessionSchema, sessions, flights, buckets, seats, bookings, quotes, marketEvents, reasoningLogs, chatMessages, pricingHistory, competitorFares, fareObservations, a2aMessages, AGENT_MODES, INVENTORY_MODES, BOOKING_STATUSES, type AgentMode, type InventoryMode, type BookingStatus } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -11,6 +11,14 @@ export const errorSchemas = {
   internal: z.object({
     message: z.string(),
   }),
+  // Validation failures pointing at fields of the request, e.g. path 'environment.baseDemand'
+  fields: z.object({
+    message: z.string(),
+    errors: z.array(z.object({
+      path: z.string(),
+      message: z.string(),
+    })),
+  }),
 };
 
 // Full scenario environment schema
@@ -34,6 +42,8 @@ const scenarioEnvironmentSchema = z.object({
   fuelCostIndex: z.number(),
   seasonalityIndex: z.number(),
   baseDemand: z.number(),
+  cancellationRate: z.number().optional(),
+  noShowRate: z.number().optional(),
   competitorAggressiveness: z.number(),
   competitors: z.array(z.object({ name: z.string(), basePrice: z.number() })),
   eventImpact: z.string().nullable(),
@@ -42,13 +52,341 @@ const scenarioEnvironmentSchema = z.object({
   occupancyTarget: z.number(),
 });
 
+export const pricingPolicySchema = z.object({
+  minMultiplier: z.number().positive(),
+  maxMultiplier: z.number().positive(),
+  bucketFares: z.record(z.object({
+    min: z.number().positive().optional(),
+    max: z.number().positive().optional(),
+  })),
+  maxChangePerReprice: z.number().positive().max(1),
+  maxChangesPerDay: z.number().int().min(0),
+  competitorFloorRatio: z.number().positive().nullable(),
+  costFloorRatio: z.number().positive().nullable(),
+});
+
+// What a market event changes (server/market.ts); at least one field
+const marketChangeSchema = z.object({
+  baseDemand: z.number().min(0).max(1).optional(),
+  seasonalityIndex: z.number().positive().optional(),
+  fuelCostIndex: z.number().positive().optional(),
+  competitorAggressiveness: z.number().min(0).max(1).optional(),
+  eventImpact: z.string().nullable().optional(), // null clears the current event
+  weatherForecast: z.string().optional(),
+  competitorFares: z.array(z.object({
+    name: z.string().min(1), // A competitor in the session's market
+    change: z.number().gt(-1), // -0.4 = fares down 40%
+  })).min(1).optional(),
+}).refine(change => Object.values(change).some(value => value !== undefined), {
+  message: "A market event must change at least one market condition",
+});
+
+const routeSchema = z.object({
+  code: z.string(),
+  origin: z.string(),
+  originCity: z.string(),
+  destination: z.string(),
+  destinationCity: z.string(),
+  flightNumber: z.string(),
+  departureTime: z.string(),
+  aircraft: z.string(),
+  fareScale: z.number(),
+  demandScale: z.number(),
+});
+
+// Authorized capacity of one cabin and the expected outcome at departure (server/overbooking.ts)
+const cabinOverbookingSchema = z.object({
+  cabin: z.string(),
+  capacity: z.number(), // Physical seats
+  sold: z.number(),
+  authorized: z.number(), // Bookings the cabin accepts
+  noShowRate: z.number(),
+  deniedBoardingCost: z.number(),
+  expectedBookings: z.number(),
+  expectedDeniedBoardings: z.number(),
+  expectedSpoilage: z.number(), // Seats expected to fly empty
+});
+
+// Picks one flight of a session; the first flight when omitted
+const flightQuerySchema = z.object({
+  flightId: z.coerce.number().int().optional(),
+});
+
 const scenarioSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string(),
   environment: scenarioEnvironmentSchema,
+  pricingPolicy: pricingPolicySchema.partial().optional(),
+  routes: z.array(z.string()).optional(),
+  departureOffsets: z.record(z.string(), z.number()).optional(),
+  builtIn: z.boolean().optional(), // Built-in scenarios are read-only
+  basedOn: z.string().optional(), // Scenario a custom scenario was cloned from
+});
+
+// An authored scenario. Derived environment fields (daysElapsed, currentDate, departureDate,
+// expectedOccupancyToday) are recomputed from the booking window and forecast on save.
+const scenarioInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  environment: scenarioEnvironmentSchema,
+  pricingPolicy: pricingPolicySchema.partial().optional(), // Overrides the default guardrails
+  routes: z.array(z.string()).min(1).optional(), // BLR-DXB when omitted
+  departureOffsets: z.record(z.string(), z.number()).optional(), // Days relative to the scenario's departure per route code, 0 or less
 });
 
+const scenarioIdSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "lowercase letters, digits and dashes").max(64);
+
+// A scenario as a versioned file, for sharing scenarios between instances (server/scenarios.ts)
+export const scenarioDocumentSchema = z.object({
+  version: z.literal(1),
+  scenario: scenarioInputSchema.extend({
+    id: scenarioIdSchema.optional(), // Derived from the name when omitted
+    basedOn: z.string().optional(),
+  }),
+});
+
+// Legacy routes act on the most recently loaded active session; api.sessions has the same
+// routes scoped to a session id
+const simulation = {
+  state: {
+    method: 'GET' as const,
+    path: '/api/simulation/state',
+    // Optional ?flightId=; buckets, logs and environment are for that flight
+    input: flightQuerySchema,
+    responses: {
+      200: z.object({
+        session: z.custom<typeof sessions.$inferSelect>(),
+        flights: z.array(z.custom<typeof flights.$inferSelect>()),
+        flight: z.custom<typeof flights.$inferSelect>(),
+        buckets: z.array(z.custom<typeof buckets.$inferSelect>()),
+        seats: z.array(z.custom<typeof seats.$inferSelect>()), // The flight's seat inventory, front to back
+        logs: z.array(z.custom<typeof reasoningLogs.$inferSelect>()), // The flight's entries plus session-wide ones
+        environment: scenarioEnvironmentSchema, // The flight's environment as of the session's simulated clock
+        overbooking: z.array(cabinOverbookingSchema), // Authorized capacity in force per cabin and its expected outcome
+      }),
+      404: errorSchemas.notFound,
+    },
+  },
+  advance: {
+    method: 'POST' as const,
+    path: '/api/simulation/advance',
+    // Move the simulated clock forward, running an agent cycle for each day
+    input: z.object({
+      days: z.number().int().min(1).max(60),
+    }),
+    responses: {
+      200: z.object({
+        session: z.custom<typeof sessions.$inferSelect>(),
+        daysAdvanced: z.number(),
+        departed: z.boolean(),
+      }),
+      400: errorSchemas.validation,
+      404: errorSchemas.notFound,
+    },
+  },
+  history: {
+    method: 'GET' as const,
+    path: '/api/simulation/history',
+    // Optional ?bucketCode= and ?flightId= filters
+    input: z.object({
+      bucketCode: z.string().optional(),
+      flightId: z.coerce.number().int().optional(),
+    }),
+    responses: {
+      200: z.array(z.custom<typeof pricingHistory.$inferSelect>()),
+      404: errorSchemas.notFound,
+    },
+  },
+  competitorFares: {
+    method: 'GET' as const,
+    path: '/api/simulation/competitor-fares',
+    // Competitor economy fare changes, oldest first; optional ?flightId= and ?competitor= filters
+    input: z.object({
+      flightId: z.coerce.number().int().optional(),
+      competitor: z.string().optional(),
+    }),
+    responses: {
+      200: z.array(z.custom<typeof competitorFares.$inferSelect>()),
+      404: errorSchemas.notFound,
+    },
+  },
+  trace: {
+    method: 'GET' as const,
+    path: '/api/simulation/trace/:planId',
+    // A2A message trace of one orchestration, in send order
+    responses: {
+      200: z.object({
+        planId: z.string(),
+        messages: z.array(z.custom<typeof a2aMessages.$inferSelect>()),
+      }),
+      404: errorSchemas.notFound,
+    },
+  },
+  policy: {
+    method: 'GET' as const,
+    path: '/api/simulation/policy',
+    // Pricing guardrails for the active session
+    responses: {
+      200: pricingPolicySchema,
+      404: errorSchemas.notFound,
+    },
+  },
+  updatePolicy: {
+    method: 'PUT' as const,
+    path: '/api/simulation/policy',
+    // Fields to change; omitted fields keep their current value
+    input: pricingPolicySchema.partial(),
+    responses: {
+      200: pricingPolicySchema,
+      400: errorSchemas.validation,
+      404: errorSchemas.notFound,
+    },
+  },
+  events: {
+    method: 'GET' as const,
+    path: '/api/simulation/events',
+    // The session's market event timeline, by day
+    responses: {
+      200: z.array(z.custom<typeof marketEvents.$inferSelect>()),
+      404: errorSchemas.notFound,
+    },
+  },
+  scheduleEvent: {
+    method: 'POST' as const,
+    path: '/api/simulation/events',
+    // Applied when the simulated clock reaches the day, or straight away if it already has
+    input: z.object({
+      day: z.number().int().min(0), // Day of the booking window, before departure
+      title: z.string().min(1),     // e.g. 'IPL cancelled'
+      changes: marketChangeSchema,
+    }),
+    responses: {
+      201: z.custom<typeof marketEvents.$inferSelect>(),
+      400: errorSchemas.validation,
+      404: errorSchemas.notFound,
+    },
+  },
+  deleteEvent: {
+    method: 'DELETE' as const,
+    path: '/api/simulation/events/:eventId',
+    // Only events that haven't been applied yet
+    responses: {
+      200: z.object({
+        success: z.boolean(),
+      }),
+      404: errorSchemas.notFound,
+      409: errorSchemas.validation, // Already applied
+    },
+  },
+  orchestrate: {
+    method: 'POST' as const,
+    path: '/api/simulation/orchestrate',
+    // Trigger a round of agent thinking
+    responses: {
+      200: z.object({
+        success: z.boolean(),
+        logs: z.array(z.custom<typeof reasoningLogs.$inferSelect>()),
+      }),
+    },
+  },
+  book: {
+    method: 'POST' as const,
+    path: '/api/simulation/book',
+    // Send an Idempotency-Key header to make retries safe: a repeated key replays the first
+    // response instead of booking again
+    input: z.object({
+      flightId: z.number().int().optional(), // First flight of the session when omitted
+      bucketCode: z.string(), // e.g. ECO_1
+      quantity: z.number().min(1),
+      seatNumbers: z.array(z.string()).min(1).optional(), // One per passenger, charged their seat fee; free seats are assigned when omitted
+      passengerName: z.string().optional(), // 'Guest' when omitted
+    }),
+    responses: {
+      200: z.object({
+        success: z.boolean(),
+        message: z.string(),
+        booking: z.custom<typeof bookings.$inferSelect>(), // Carries the reference code
+        seats: z.array(z.string()), // Assigned seat numbers, e.g. ['12A', '12B']
+        seatFees: z.number(),
+        unseated: z.number(), // Overbooked passengers seated at check-in
+      }),
+      400: errorSchemas.validation,
+      409: errorSchemas.validation, // The first request with this Idempotency-Key is still running
+      422: errorSchemas.validation, // Idempotency-Key reused with a different request body
+    },
+  },
+};
+
+const bookingList = {
+  method: 'GET' as const,
+  path: '/api/bookings',
+  // A session's bookings, newest first; optional ?flightId= and ?status= filters
+  input: z.object({
+    flightId: z.coerce.number().int().optional(),
+    status: z.enum(BOOKING_STATUSES as [BookingStatus, ...BookingStatus[]]).optional(),
+  }),
+  responses: {
+    200: z.array(z.custom<typeof bookings.$inferSelect>()),
+    400: errorSchemas.validation,
+    404: errorSchemas.notFound,
+  },
+};
+
+// A quote holds seats at the bucket's current fare for ttlSeconds; confirming it books that fare
+const quoteSchema = z.custom<typeof quotes.$inferSelect>().and(z.object({
+  bucketCode: z.string(),
+  totalFare: z.number(), // Quoted fare for all passengers plus seat fees
+  ttlSeconds: z.number(), // Seconds left before the hold lapses
+}));
+
+const quoteCreate = {
+  method: 'POST' as const,
+  path: '/api/quotes',
+  input: z.object({
+    flightId: z.number().int().optional(), // First flight of the session when omitted
+    bucketCode: z.string(),
+    quantity: z.number().int().min(1),
+    seatNumbers: z.array(z.string()).min(1).optional(), // Held with the quote; free seats are assigned on confirmation when omitted
+  }),
+  responses: {
+    201: quoteSchema,
+    400: errorSchemas.validation,
+    404: errorSchemas.notFound,
+  },
+};
+
+const chat = {
+  history: {
+    method: 'GET' as const,
+    path: '/api/chat/history',
+    responses: {
+      200: z.array(z.custom<typeof chatMessages.$inferSelect>()),
+    },
+  },
+  send: {
+    method: 'POST' as const,
+    path: '/api/chat/send',
+    input: z.object({
+      message: z.string(),
+    }),
+    responses: {
+      200: z.object({
+        response: z.string(),
+      }),
+    },
+  },
+  clear: {
+    method: 'POST' as const,
+    path: '/api/chat/clear',
+    responses: {
+      200: z.object({
+        success: z.boolean(),
+      }),
+    },
+  },
+};
+
 export const api = {
   scenarios: {
     list: {
@@ -63,83 +401,254 @@ export const api = {
       path: '/api/scenarios/load',
       input: z.object({
         scenarioId: z.string(),
+        agentMode: z.enum(AGENT_MODES as [AgentMode, ...AgentMode[]]).optional(),
+        inventoryMode: z.enum(INVENTORY_MODES as [InventoryMode, ...InventoryMode[]]).optional(), // 'partitioned' when omitted
+        routes: z.array(z.string()).optional(), // Route codes to fly; the scenario's network when omitted
+        aircraft: z.record(z.string()).optional(), // Aircraft code per route code; the route's default when omitted
+        // Replay ingested competitor fares instead of simulating them (see api.fareFeed)
+        competitorFeed: z.object({
+          departureDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD").optional(), // The route's most observed departure when omitted
+        }).optional(),
       }),
       responses: {
         201: z.custom<typeof sessions.$inferSelect>(),
         400: errorSchemas.validation,
       },
     },
+    get: {
+      method: 'GET' as const,
+      path: '/api/scenarios/:id',
+      responses: {
+        200: scenarioSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/scenarios',
+      input: scenarioInputSchema.extend({
+        id: scenarioIdSchema.optional(), // Derived from the name when omitted
+      }),
+      responses: {
+        201: scenarioSchema,
+        400: errorSchemas.fields,
+        409: errorSchemas.validation, // Id taken
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/scenarios/:id',
+      // Replaces a custom scenario; active sessions running it pick the change up on their next step
+      input: scenarioInputSchema,
+      responses: {
+        200: scenarioSchema,
+        400: errorSchemas.fields,
+        403: errorSchemas.validation, // Built-in scenario
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/scenarios/:id',
+      responses: {
+        200: z.object({
+          success: z.boolean(),
+        }),
+        403: errorSchemas.validation, // Built-in scenario
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation, // An active session is running it
+      },
+    },
+    clone: {
+      method: 'POST' as const,
+      path: '/api/scenarios/:id/clone',
+      // A custom copy of any scenario, to edit without touching the original
+      input: z.object({
+        id: scenarioIdSchema.optional(), // Derived from the name when omitted
+        name: z.string().min(1).optional(), // '<name> (copy)' when omitted
+      }),
+      responses: {
+        201: scenarioSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation, // Id taken
+      },
+    },
+    export: {
+      method: 'GET' as const,
+      path: '/api/scenarios/:id/export',
+      // Download a scenario document; ?format=yaml for YAML, JSON by default
+      input: z.object({
+        format: z.enum(['json', 'yaml']).optional(),
+      }),
+      responses: {
+        200: z.string(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/scenarios/import',
+      // A scenario document as JSON, or as YAML with a YAML or text/plain Content-Type. Creates a
+      // custom scenario (201); ?replace=true replaces an existing custom scenario with its id (200).
+      input: scenarioDocumentSchema,
+      responses: {
+        200: scenarioSchema,
+        201: scenarioSchema,
+        400: errorSchemas.fields,
+        403: errorSchemas.validation, // Would replace a built-in scenario
+        409: errorSchemas.validation, // Id taken and ?replace=true not given
+      },
+    },
   },
-  simulation: {
-    state: {
+  network: {
+    routes: {
       method: 'GET' as const,
-      path: '/api/simulation/state',
+      path: '/api/routes',
+      responses: {
+        200: z.array(routeSchema),
+      },
+    },
+  },
+  simulation,
+  sessions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/sessions',
+      // Active sessions, newest first
+      responses: {
+        200: z.array(z.custom<typeof sessions.$inferSelect>()),
+      },
+    },
+    close: {
+      method: 'POST' as const,
+      path: '/api/sessions/:id/close',
+      // Deactivate a session; its data is kept but it leaves the session list
       responses: {
         200: z.object({
-          session: z.custom<typeof sessions.$inferSelect>(),
-          buckets: z.array(z.custom<typeof buckets.$inferSelect>()),
-          logs: z.array(z.custom<typeof reasoningLogs.$inferSelect>()),
+          success: z.boolean(),
         }),
         404: errorSchemas.notFound,
       },
     },
-    orchestrate: {
+    state: { ...simulation.state, path: '/api/sessions/:id/state' },
+    advance: { ...simulation.advance, path: '/api/sessions/:id/advance' },
+    history: { ...simulation.history, path: '/api/sessions/:id/history' },
+    competitorFares: { ...simulation.competitorFares, path: '/api/sessions/:id/competitor-fares' },
+    policy: { ...simulation.policy, path: '/api/sessions/:id/policy' },
+    updatePolicy: { ...simulation.updatePolicy, path: '/api/sessions/:id/policy' },
+    events: { ...simulation.events, path: '/api/sessions/:id/events' },
+    scheduleEvent: { ...simulation.scheduleEvent, path: '/api/sessions/:id/events' },
+    deleteEvent: { ...simulation.deleteEvent, path: '/api/sessions/:id/events/:eventId' },
+    orchestrate: { ...simulation.orchestrate, path: '/api/sessions/:id/orchestrate' },
+    book: { ...simulation.book, path: '/api/sessions/:id/book' },
+    bookings: { ...bookingList, path: '/api/sessions/:id/bookings' },
+    quotes: { ...quoteCreate, path: '/api/sessions/:id/quotes' },
+    chatHistory: { ...chat.history, path: '/api/sessions/:id/chat' },
+    chat: { ...chat.send, path: '/api/sessions/:id/chat' },
+    clearChat: { ...chat.clear, path: '/api/sessions/:id/chat/clear' },
+    clearLogs: {
       method: 'POST' as const,
-      path: '/api/simulation/orchestrate',
-      // Trigger a round of agent thinking
+      path: '/api/sessions/:id/logs/clear',
       responses: {
         200: z.object({
           success: z.boolean(),
-          logs: z.array(z.custom<typeof reasoningLogs.$inferSelect>()),
         }),
       },
     },
-    book: {
+  },
+  bookings: {
+    list: bookingList,
+    get: {
+      method: 'GET' as const,
+      path: '/api/bookings/:reference',
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    cancel: {
       method: 'POST' as const,
-      path: '/api/simulation/book',
-      input: z.object({
-        bucketCode: z.string(), // e.g. ECO_1
-        quantity: z.number().min(1),
-      }),
+      path: '/api/bookings/:reference/cancel',
+      // Cancel a confirmed booking before departure; refunds its fare class's share of the fare
       responses: {
         200: z.object({
           success: z.boolean(),
           message: z.string(),
+          booking: z.custom<typeof bookings.$inferSelect>(),
+          refund: z.object({
+            fare: z.number(),
+            seatFees: z.number(), // Refunded only with fully refundable fares
+            total: z.number(),
+          }),
+          releasedSeats: z.array(z.string()),
         }),
         400: errorSchemas.validation,
+        404: errorSchemas.notFound,
       },
     },
   },
-  chat: {
-    history: {
+  quotes: {
+    create: quoteCreate,
+    get: {
       method: 'GET' as const,
-      path: '/api/chat/history',
+      path: '/api/quotes/:id',
       responses: {
-        200: z.array(z.custom<typeof chatMessages.$inferSelect>()),
+        200: quoteSchema,
+        404: errorSchemas.notFound,
       },
     },
-    send: {
+    confirm: {
       method: 'POST' as const,
-      path: '/api/chat/send',
+      path: '/api/quotes/:id/confirm',
+      // Book a held quote at its quoted fare. Accepts an Idempotency-Key header like book.
       input: z.object({
-        message: z.string(),
+        passengerName: z.string().optional(), // 'Guest' when omitted
       }),
       responses: {
-        200: z.object({
-          response: z.string(),
-        }),
+        200: simulation.book.responses[200],
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation, // Already confirmed, or a request with this Idempotency-Key is still running
+        410: errorSchemas.validation, // The hold expired
+        422: errorSchemas.validation,
       },
     },
-    clear: {
+  },
+  // Scraped competitor fare snapshots (server/fare-feed.ts)
+  fareFeed: {
+    import: {
       method: 'POST' as const,
-      path: '/api/chat/clear',
+      path: '/api/fare-feed/import',
+      // CSV with a header row (text/csv), a JSON array, or { observations: [...] }, of rows
+      // { carrier, route, departureDate, cabin, fare, observedAt }. Optional ?source= names the feed.
+      // Nothing is stored if any row is invalid.
       responses: {
         200: z.object({
-          success: z.boolean(),
+          imported: z.number(),
+          duplicates: z.number(), // Snapshots already stored, skipped
         }),
+        400: errorSchemas.fields, // Paths like 'rows.3.fare', counting rows from 1
+      },
+    },
+    list: {
+      method: 'GET' as const,
+      path: '/api/fare-feed',
+      // Observations by observation time; optional filters
+      input: z.object({
+        route: z.string().optional(),
+        carrier: z.string().optional(),
+        departureDate: z.string().optional(),
+        cabin: z.enum(['ECONOMY', 'BUSINESS']).optional(),
+      }),
+      responses: {
+        200: z.array(z.custom<typeof fareObservations.$inferSelect>()),
+        400: errorSchemas.validation,
       },
     },
   },
+  chat,
   logs: {
     clear: {
       method: 'POST' as const,
@@ -152,3 +661,14 @@ export const api = {
     },
   },
 };
+
+// Fill `:param` segments of an api path, e.g. buildUrl(api.simulation.trace.path, { planId })
+export function buildUrl(path: string, params?: Record<string, string | number>): string {
+  let url = path;
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      url = url.replace(`:${key}`, encodeURIComponent(String(value)));
+    });
+  }
+  return url;
+}
@@ -1,37 +1,80 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { SeatFeature } from "./aircraft";
 
 // === SCENARIO & SESSION ===
-// We simulate a single active session for simplicity, but schema allows for multiple
+// Each session simulates one or more flights; several sessions can be active side by side
 export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
   scenarioId: text("scenario_id").notNull(), // e.g., 'ipl-season', 'fuel-spike'
   currentDate: timestamp("current_date").notNull(), // Simulated date
   departureDate: timestamp("departure_date").notNull(),
   totalRevenue: real("total_revenue").default(0),
+  ancillaryRevenue: real("ancillary_revenue").default(0), // Seat selection fees, not part of totalRevenue
   loadFactor: real("load_factor").default(0),
+  agentMode: text("agent_mode").notNull().default("llm"), // 'llm' or 'heuristic'
+  inventoryMode: text("inventory_mode").notNull().default("partitioned"), // 'partitioned' or 'nested'
+  pricingPolicy: jsonb("pricing_policy").$type<PricingPolicy>(), // Guardrails; scenario defaults when null
+  market: jsonb("market").$type<MarketConditions>(), // Market as changed by applied events; the scenario's when null
+  competitorFeed: jsonb("competitor_feed").$type<CompetitorFeed>(), // Replays ingested competitor fares; simulated when null
   active: boolean("active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// === NETWORK ===
+// One operated leg of a route; a session simulates one or more flights on a shared clock
+export const flights = pgTable("flights", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  routeCode: text("route_code").notNull(), // e.g. 'BLR-DXB'
+  flightNumber: text("flight_number").notNull(), // e.g. '6E 1481'
+  origin: text("origin").notNull(), // IATA code
+  destination: text("destination").notNull(),
+  aircraft: text("aircraft").notNull(), // Aircraft code from shared/aircraft.ts, e.g. 'A321neo'
+  departureDate: timestamp("departure_date").notNull(), // Scheduled departure, date and time
+  noShows: integer("no_shows"), // Passengers who didn't turn up; set when the flight departs
+  deniedBoardings: integer("denied_boardings"), // Passengers who showed up without a seat; set when the flight departs
+});
+
 // === SEATS & BUCKETS ===
 export const buckets = pgTable("buckets", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id").notNull(),
   code: text("code").notNull(), // ECO_1, BUS_1
   class: text("class").notNull(), // ECONOMY, BUSINESS
-  allocated: integer("allocated").notNull(), // Number of seats allocated
+  allocated: integer("allocated").notNull(), // Number of seats allocated; in nested mode, the bucket's nominal share of the cabin
   sold: integer("sold").default(0),
+  protectionLevel: integer("protection_level"), // Nested mode: seats held back from cheaper buckets for this bucket and pricier ones
+  overbooking: integer("overbooking").notNull().default(0), // Seats this bucket may sell beyond the cabin's physical capacity
+  held: integer("held").notNull().default(0), // Seats held by open fare quotes; unavailable to other buyers
   price: real("price").notNull(), // Current price
   basePrice: real("base_price").notNull(),
+  revenue: real("revenue").notNull().default(0), // Fares taken less refunds; the session's totalRevenue is the sum over its buckets
+  anonymousFares: real("anonymous_fares").notNull().default(0), // Fares paid for seats sold without a booking record and still held
+});
+
+// One physical seat on a flight. Buckets sell fares per cabin; a booking then takes seats in that cabin.
+export const seats = pgTable("seats", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id").notNull(),
+  row: integer("row").notNull(),
+  letter: text("letter").notNull(), // Seat number is row + letter, e.g. '12A'
+  cabin: text("cabin").notNull(), // ECONOMY, BUSINESS
+  features: jsonb("features").$type<SeatFeature[]>().notNull(), // window, aisle, middle, exit, extra_legroom
+  fee: real("fee").notNull().default(0), // Ancillary charge when a passenger picks this seat
+  status: text("status").notNull().default("AVAILABLE"), // AVAILABLE, HELD (by a fare quote), OCCUPIED
+  bookingId: integer("booking_id"), // Null for unsold seats and simulated bookings
 });
 
 // === LOGGING & AGENTS ===
 export const reasoningLogs = pgTable("reasoning_logs", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id"), // Null for session-wide entries
   agentName: text("agent_name").notNull(), // 'Orchestrator', 'Pricing', 'Forecast'
   decision: text("decision").notNull(),
   reasoning: text("reasoning").notNull(), // The 'why'
@@ -42,11 +85,66 @@ export const reasoningLogs = pgTable("reasoning_logs", {
 export const pricingHistory = pgTable("pricing_history", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id").notNull(),
   bucketCode: text("bucket_code").notNull(),
   price: real("price").notNull(),
+  previousPrice: real("previous_price"), // Null for the initial fare
+  planId: text("plan_id"), // Orchestration plan that produced the change
+  cause: text("cause").notNull(), // e.g. 'INITIAL', or the Pricing Agent decision
+  simulatedDate: timestamp("simulated_date").notNull(), // Session clock at the time of change
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Economy fares of each competitor on a flight's route, one row per change (server/competitors.ts)
+export const competitorFares = pgTable("competitor_fares", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id").notNull(),
+  competitor: text("competitor").notNull(), // e.g. 'Akasa Air'
+  fare: real("fare").notNull(),
+  previousFare: real("previous_fare"), // Null for the initial fare
+  basePrice: real("base_price").notNull(), // The competitor's base fare on the route at the time
+  cause: text("cause").notNull(), // INITIAL, MATCH, UNDERCUT, FOLLOW, DRIFT, MARKET, or FEED when replayed from fare observations
+  reasoning: text("reasoning"),
+  simulatedDate: timestamp("simulated_date").notNull(), // Session clock at the time of change
+  timestamp: timestamp("timestamp").defaultNow(),
+});
+
+// Competitor fares observed in the market (scraped snapshots), ingested from CSV or JSON
+// feeds (server/fare-feed.ts). Not tied to a session; sessions with a competitor feed replay them.
+export const fareObservations = pgTable("fare_observations", {
+  id: serial("id").primaryKey(),
+  carrier: text("carrier").notNull(), // e.g. 'Akasa Air'
+  route: text("route").notNull(), // Route code, e.g. 'BLR-DXB'
+  departureDate: text("departure_date").notNull(), // YYYY-MM-DD
+  cabin: text("cabin").notNull(), // ECONOMY or BUSINESS
+  fare: real("fare").notNull(),
+  observedAt: timestamp("observed_at").notNull(),
+  source: text("source"), // Feed it came from, e.g. a file name
+  importedAt: timestamp("imported_at").defaultNow(),
+}, (table) => [
+  // Re-importing a feed skips the snapshots already stored
+  unique("fare_observations_snapshot").on(table.carrier, table.route, table.departureDate, table.cabin, table.observedAt),
+]);
+
+// A2A messages exchanged during one orchestration, keyed by its plan id
+export const a2aMessages = pgTable("a2a_messages", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id").notNull(),
+  planId: text("plan_id").notNull(),
+  messageId: text("message_id").notNull(),
+  sequence: integer("sequence").notNull(), // Position in the trace
+  fromAgent: text("from_agent").notNull(),
+  toAgent: text("to_agent").notNull(),
+  type: text("type").notNull(), // 'request', 'response', 'broadcast'
+  action: text("action").notNull(),
+  payload: jsonb("payload").notNull(),
+  startedAt: timestamp("started_at"), // Sub-agent timing, set on responses
+  durationMs: integer("duration_ms"),
+  timestamp: timestamp("timestamp").notNull(),
+});
+
 // === CHAT (Reusing structure but linked to session) ===
 // We can link the chat tables from shared/models/chat.ts if needed, 
 // or define session-specific chat here. Let's use a simple session-chat table.
@@ -68,22 +166,82 @@ export const bookings = pgTable("bookings", {
   passengerCount: integer("passenger_count").notNull().default(1),
   pricePerSeat: real("price_per_seat").notNull(),
   totalFare: real("total_fare").notNull(),
+  seatFees: real("seat_fees").notNull().default(0), // Seat selection fees on top of totalFare
   passengerName: text("passenger_name"),
-  status: text("status").notNull().default("CONFIRMED"), // CONFIRMED, CANCELLED
+  status: text("status").notNull().default("CONFIRMED"), // CONFIRMED, CANCELLED, NO_SHOW
+  refundAmount: real("refund_amount"), // Fare and seat fees returned; set when cancelled
+  cancelledAt: timestamp("cancelled_at"), // Session clock at the time of cancellation
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A fare quoted for a bucket and held until it expires: its seats are unavailable to other
+// buyers, and confirming it books at the quoted price whatever the bucket's price by then
+export const quotes = pgTable("quotes", {
+  id: text("id").primaryKey(), // e.g. 'Q-K7M2QX9A'
+  sessionId: integer("session_id").notNull(),
+  flightId: integer("flight_id").notNull(),
+  bucketId: integer("bucket_id").notNull(),
+  quantity: integer("quantity").notNull(),
+  pricePerSeat: real("price_per_seat").notNull(),
+  seatNumbers: jsonb("seat_numbers").$type<string[]>().notNull().default([]), // Seats held; empty for automatic assignment
+  seatFees: real("seat_fees").notNull().default(0),
+  status: text("status").notNull().default("HELD"), // HELD, CONFIRMED, EXPIRED
+  expiresAt: timestamp("expires_at").notNull(), // Wall clock, not the session's simulated clock
+  bookingId: integer("booking_id"), // Set when confirmed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Scenarios authored through the API; the built-in ones live in server/scenarios.ts
+export const scenarios = pgTable("scenarios", {
+  id: text("id").primaryKey(), // e.g. 'fuel-spike-analyst'
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  environment: jsonb("environment").$type<ScenarioEnvironment>().notNull(),
+  pricingPolicy: jsonb("pricing_policy").$type<Partial<PricingPolicy>>(), // Overrides DEFAULT_PRICING_POLICY
+  routes: jsonb("routes").$type<string[]>(), // Route codes flown by default
+  departureOffsets: jsonb("departure_offsets").$type<Record<string, number>>(), // Days each route departs relative to the scenario's departure
+  basedOn: text("based_on"), // Scenario it was cloned from
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Market shocks scheduled on a session's timeline. When the simulated clock reaches the
+// event's day its changes are applied to the session's market (sessions.market).
+export const marketEvents = pgTable("market_events", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  day: integer("day").notNull(), // Day of the booking window it fires on, e.g. 32
+  title: text("title").notNull(), // e.g. 'IPL cancelled'
+  changes: jsonb("changes").$type<MarketChange>().notNull(),
+  status: text("status").notNull().default("SCHEDULED"), // SCHEDULED, APPLIED
+  appliedAt: timestamp("applied_at"), // Simulated date it was applied
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Responses to booking requests sent with an Idempotency-Key header, replayed when the
+// client retries with the same key (server/idempotency.ts)
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  key: text("key").primaryKey(),
+  fingerprint: text("fingerprint").notNull(), // Hash of the first request's method, path and body
+  statusCode: integer("status_code"), // Null while the first request is being handled
+  response: jsonb("response"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 
 // === RELATIONS ===
 export const sessionRelations = relations(sessions, ({ many }) => ({
+  flights: many(flights),
   buckets: many(buckets),
+  seats: many(seats),
   logs: many(reasoningLogs),
   history: many(pricingHistory),
+  a2aMessages: many(a2aMessages),
   chat: many(chatMessages),
   bookings: many(bookings),
 }));
 
-export const bookingRelations = relations(bookings, ({ one }) => ({
+export const bookingRelations = relations(bookings, ({ one, many }) => ({
   session: one(sessions, {
     fields: [bookings.sessionId],
     references: [sessions.id],
@@ -92,6 +250,27 @@ export const bookingRelations = relations(bookings, ({ one }) => ({
     fields: [bookings.bucketId],
     references: [buckets.id],
   }),
+  seats: many(seats),
+}));
+
+export const flightRelations = relations(flights, ({ one, many }) => ({
+  session: one(sessions, {
+    fields: [flights.sessionId],
+    references: [sessions.id],
+  }),
+  buckets: many(buckets),
+  seats: many(seats),
+}));
+
+export const seatRelations = relations(seats, ({ one }) => ({
+  flight: one(flights, {
+    fields: [seats.flightId],
+    references: [flights.id],
+  }),
+  booking: one(bookings, {
+    fields: [seats.bookingId],
+    references: [bookings.id],
+  }),
 }));
 
 export const bucketRelations = relations(buckets, ({ one }) => ({
@@ -99,21 +278,37 @@ export const bucketRelations = relations(buckets, ({ one }) => ({
     fields: [buckets.sessionId],
     references: [sessions.id],
   }),
+  flight: one(flights, {
+    fields: [buckets.flightId],
+    references: [flights.id],
+  }),
 }));
 
 // === ZOD SCHEMAS ===
 export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, createdAt: true });
+export const insertFlightSchema = createInsertSchema(flights).omit({ id: true });
 export const insertBucketSchema = createInsertSchema(buckets).omit({ id: true });
+export const insertSeatSchema = createInsertSchema(seats).omit({ id: true });
 export const insertLogSchema = createInsertSchema(reasoningLogs).omit({ id: true, timestamp: true });
+export const insertPricingHistorySchema = createInsertSchema(pricingHistory).omit({ id: true, timestamp: true });
+export const insertA2AMessageSchema = createInsertSchema(a2aMessages).omit({ id: true });
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, timestamp: true });
 export const insertBookingSchema = createInsertSchema(bookings).omit({ id: true, createdAt: true });
 
 // === EXPLICIT TYPES ===
 export type Session = typeof sessions.$inferSelect;
+export type Flight = typeof flights.$inferSelect;
 export type Bucket = typeof buckets.$inferSelect;
+export type Seat = typeof seats.$inferSelect;
 export type ReasoningLog = typeof reasoningLogs.$inferSelect;
+export type PricingHistoryEntry = typeof pricingHistory.$inferSelect;
+export type CompetitorFare = typeof competitorFares.$inferSelect;
+export type FareObservation = typeof fareObservations.$inferSelect;
+export type A2AMessageRecord = typeof a2aMessages.$inferSelect;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type Booking = typeof bookings.$inferSelect;
+export type Quote = typeof quotes.$inferSelect;
+export type MarketEvent = typeof marketEvents.$inferSelect;
 
 // Scenario definition type (not in DB, just logic)
 // Demand forecast point for a specific day
@@ -144,6 +339,8 @@ export interface ScenarioEnvironment {
   fuelCostIndex: number; // 1.0 is normal, 1.4 means 40% higher
   seasonalityIndex: number; // 0-1
   baseDemand: number; // 0-1 forecast
+  cancellationRate?: number; // Daily chance a sold seat is cancelled; demand model default when omitted
+  noShowRate?: number; // Share of passengers who don't turn up at departure; demand model default when omitted
   
   // Competition
   competitorAggressiveness: number; // 0-1
@@ -158,29 +355,106 @@ export interface ScenarioEnvironment {
   occupancyTarget: number; // percentage
 }
 
+// Environment fields a market event can change
+export type MarketConditions = Partial<Pick<ScenarioEnvironment,
+  'baseDemand' | 'seasonalityIndex' | 'fuelCostIndex' | 'competitorAggressiveness' | 'competitors' | 'eventImpact' | 'weatherForecast'>>;
+
+// A session replaying ingested fare observations as its competitors' fares
+export interface CompetitorFeed {
+  departureDate?: string; // Departure (YYYY-MM-DD) whose observations are replayed; the route's most observed when omitted
+}
+
+// What a market event does: new values for market conditions, and fare moves by competitors
+export interface MarketChange extends Omit<MarketConditions, 'competitors'> {
+  competitorFares?: { name: string; change: number }[]; // Relative move of a competitor's fare, -0.4 = 40% flash sale
+}
+
+// Guardrails applied to every fare the Pricing Agent proposes
+export interface PricingPolicy {
+  minMultiplier: number;       // Fare floor as a multiple of the bucket's base fare
+  maxMultiplier: number;       // Fare ceiling as a multiple of the bucket's base fare
+  bucketFares: Record<string, { min?: number; max?: number }>; // Absolute fare bounds per bucket code
+  maxChangePerReprice: number; // Largest move from the current fare in one reprice (0.15 = 15%)
+  maxChangesPerDay: number;    // Fare changes allowed per bucket per simulated day
+  competitorFloorRatio: number | null; // Economy fares stay >= ratio x cheapest competitor; null disables
+  costFloorRatio: number | null;       // Fares stay >= base fare x ratio x fuelCostIndex; null disables
+}
+
+export const DEFAULT_PRICING_POLICY: PricingPolicy = {
+  minMultiplier: 0.8,
+  maxMultiplier: 1.2,
+  bucketFares: {},
+  maxChangePerReprice: 0.15,
+  maxChangesPerDay: 4,
+  competitorFloorRatio: null,
+  costFloorRatio: 0.6,
+};
+
 export interface ScenarioDef {
   id: string;
   name: string;
   description: string;
   environment: ScenarioEnvironment;
+  pricingPolicy?: Partial<PricingPolicy>; // Overrides DEFAULT_PRICING_POLICY for this scenario
+  routes?: string[]; // Route codes flown by default; BLR-DXB when omitted
+  departureOffsets?: Record<string, number>; // Days before the scenario's departure each route's flight leaves, as 0 or less (e.g. { "DEL-DXB": -7 }); 0 when omitted
+  builtIn?: boolean; // Shipped with the app and read-only; custom scenarios are stored in the scenarios table
+  basedOn?: string; // Scenario a custom scenario was cloned from
+}
+
+// A route in the simulated network (not in DB). The scenario environment describes the
+// market on its reference route; other routes scale fares and demand from it.
+export interface RouteDef {
+  code: string;            // e.g. 'DEL-DXB'
+  origin: string;          // IATA code
+  originCity: string;
+  destination: string;
+  destinationCity: string;
+  flightNumber: string;
+  departureTime: string;   // 'HH:mm', UTC
+  aircraft: string;        // Default aircraft code (shared/aircraft.ts)
+  fareScale: number;       // Fares and competitor prices relative to the reference route
+  demandScale: number;     // Base demand relative to the reference route
 }
 
 export interface SimulationState {
   session: Session;
   buckets: Bucket[];
   logs: ReasoningLog[];
-  recentHistory: typeof pricingHistory.$inferSelect[];
+  recentHistory: PricingHistoryEntry[];
 }
 
 // === A2A (Agent-to-Agent) COMMUNICATION PROTOCOL ===
 
+// How sub-agent decisions are produced for a session
+export type AgentMode =
+  | 'llm'        // Agents backed by the configured LLM provider
+  | 'heuristic'; // Deterministic rule-based engine, no API key required
+
+export const AGENT_MODES: AgentMode[] = ['llm', 'heuristic'];
+
+// How bucket availability is controlled (see shared/inventory.ts)
+export type InventoryMode =
+  | 'partitioned' // Each bucket sells only its own allocation
+  | 'nested';     // Buckets share the cabin; protection levels hold seats for higher fares
+
+export const INVENTORY_MODES: InventoryMode[] = ['partitioned', 'nested'];
+
+export type BookingStatus =
+  | 'CONFIRMED'
+  | 'CANCELLED' // Refund recorded on the booking
+  | 'NO_SHOW';  // Didn't turn up at departure; the fare is kept
+
+export const BOOKING_STATUSES: BookingStatus[] = ['CONFIRMED', 'CANCELLED', 'NO_SHOW'];
+
 // Available sub-agents that the orchestrator can invoke
 export type SubAgentType = 
   | 'objective'      // Determines pricing objective
   | 'forecast'       // Analyzes demand patterns
   | 'pricing'        // Calculates price multipliers
   | 'seat_allocation'// Manages seat bucket allocation
-  | 'competitor';    // Monitors competitor pricing
+  | 'competitor'     // Monitors competitor pricing
+  | 'overbooking';   // Sets authorized capacity from no-show forecasts
 
 // A2A Message structure for inter-agent communication
 export interface A2AMessage {
@@ -191,6 +465,11 @@ export interface A2AMessage {
   action: string;         // What action is requested/performed
   payload: Record<string, unknown>;  // Data being passed
   timestamp: Date;
+  timing?: {              // Set on sub-agent responses
+    startedAt: Date;
+    completedAt: Date;
+    durationMs: number;
+  };
 }
 
 // Agent task definition for the orchestrator's plan
@@ -202,6 +481,13 @@ export interface AgentTask {
   inputContext: string[];    // What data this agent needs
 }
 
+// Outcome of validating a model response against its output schema
+export interface AgentOutputValidation {
+  status: 'valid' | 'repaired' | 'invalid'; // repaired = passed after feeding errors back
+  attempts: number;       // Model calls made, including repairs
+  errors: string[];       // Validation errors from every failed attempt
+}
+
 // Orchestrator's execution plan
 export interface OrchestratorPlan {
   planId: string;
@@ -210,6 +496,7 @@ export interface OrchestratorPlan {
   tasks: AgentTask[];     // Ordered list of agent tasks
   reasoning: string;      // Why this plan was chosen
   estimatedImpact: string; // Expected outcome
+  validation?: AgentOutputValidation; // Set when the plan came from a model
 }
 
 // Result from a sub-agent after execution
@@ -220,6 +507,7 @@ export interface SubAgentResult {
   reasoning: string;
   output: Record<string, unknown>;
   a2aMessages: A2AMessage[]; // Messages sent during execution
+  validation?: AgentOutputValidation; // Set when the output came from a model
 }
 
 // Complete orchestration result with A2A trace